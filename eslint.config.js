@@ -31,6 +31,10 @@ export default [
         fetch: 'readonly',
         Request: 'readonly',
         Response: 'readonly',
+        Headers: 'readonly',
+        ReadableStream: 'readonly',
+        AbortController: 'readonly',
+        AbortSignal: 'readonly',
         URL: 'readonly',
         URLSearchParams: 'readonly',
         setTimeout: 'readonly',
@@ -0,0 +1,39 @@
+#!/usr/bin/env bun
+/**
+ * Update the API contract snapshot (tests/contract/openapi.snapshot.json) from
+ * the OpenAPI document the current code generates
+ *
+ * Prints every change against the checked-in snapshot and refuses to record
+ * breaking ones unless run with --accept-breaking.
+ */
+
+import type { OpenAPIV3_1 } from 'openapi-types';
+
+// Keep request logs out of the report; set before the app (and its logger) loads
+process.env.LOG_LEVEL = 'silent';
+
+const { contractDocument, CONTRACT_SNAPSHOT_URL } = await import('../tests/contract/contract.js');
+const { diffContracts, formatContractChanges, renderContractSnapshot } = await import(
+  '../src/contract-diff.js'
+);
+
+const snapshotFile = Bun.file(CONTRACT_SNAPSHOT_URL);
+const current = await contractDocument();
+const changes = (await snapshotFile.exists())
+  ? diffContracts((await snapshotFile.json()) as OpenAPIV3_1.Document, current)
+  : [];
+
+if (changes.length > 0) process.stdout.write(`${formatContractChanges(changes)}\n`);
+
+if (
+  changes.some((change) => change.severity === 'breaking') &&
+  !process.argv.includes('--accept-breaking')
+) {
+  process.stderr.write(
+    '\nBreaking API changes; rerun with --accept-breaking to record them in the snapshot\n'
+  );
+  process.exit(1);
+}
+
+await Bun.write(snapshotFile, renderContractSnapshot(current));
+process.stdout.write(`Contract snapshot updated (${changes.length} change(s))\n`);
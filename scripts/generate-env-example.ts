@@ -0,0 +1,8 @@
+#!/usr/bin/env bun
+/**
+ * Regenerate .env.example from the configuration schema in src/config.ts
+ */
+
+import { renderEnvExample } from '../src/config.js';
+
+await Bun.write(new URL('../.env.example', import.meta.url), renderEnvExample());
@@ -0,0 +1,156 @@
+/**
+ * HTTP Access Log
+ *
+ * Emits exactly one line per request once the response has been sent:
+ * - Structured JSON through the request-scoped logger (default), or
+ * - Common / Combined Log Format lines written to stdout
+ *
+ * Successful requests can be sampled; 4xx/5xx responses are always logged.
+ */
+
+import type { AppConfig } from './config.js';
+import { getRequestContext, getClientIp, onRequestCompleted } from './request-context.js';
+
+/**
+ * Data captured for a single request
+ */
+export interface AccessLogEntry {
+  method: string;
+  path: string;
+  route: string | undefined;
+  status: number;
+  durationMs: number;
+  bytesIn: number;
+  bytesOut: number | undefined;
+  clientIp: string | undefined;
+  requestId: string;
+  referer: string | null;
+  userAgent: string | null;
+  time: Date;
+}
+
+export interface AccessLogOptions extends Omit<AppConfig['accessLog'], 'enabled'> {
+  trustProxy: boolean;
+  /** Sink for CLF lines (defaults to stdout) */
+  write?: (line: string) => void;
+  /** Random source for sampling, injectable for tests */
+  random?: () => number;
+}
+
+/**
+ * Byte size of a handler's return value as it will be serialized
+ * Returns undefined when the size cannot be known without consuming the body
+ */
+export function measureBody(body: unknown): number | undefined {
+  if (body === undefined || body === null) return 0;
+  if (typeof body === 'string') return Buffer.byteLength(body);
+  if (body instanceof Response) {
+    const length = body.headers.get('content-length');
+    return length === null ? undefined : Number(length);
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  if (typeof body === 'object' || typeof body === 'number' || typeof body === 'boolean') {
+    return Buffer.byteLength(JSON.stringify(body));
+  }
+  return undefined;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Format a timestamp the way Apache does: 10/Oct/2000:13:55:36 +0000
+ */
+function formatClfTime(time: Date): string {
+  const month = time.toLocaleString('en-US', { month: 'short', timeZone: 'UTC' });
+  return `${pad(time.getUTCDate())}/${month}/${time.getUTCFullYear()}:${pad(time.getUTCHours())}:${pad(time.getUTCMinutes())}:${pad(time.getUTCSeconds())} +0000`;
+}
+
+function quote(value: string | null): string {
+  return value === null ? '"-"' : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Render an entry in Common or Combined Log Format
+ * Exported for testing
+ */
+export function formatAccessLine(entry: AccessLogEntry, format: 'common' | 'combined'): string {
+  const common = [
+    entry.clientIp ?? '-',
+    '-',
+    '-',
+    `[${formatClfTime(entry.time)}]`,
+    quote(`${entry.method} ${entry.path} HTTP/1.1`),
+    entry.status,
+    entry.bytesOut ?? '-',
+  ].join(' ');
+
+  return format === 'combined'
+    ? `${common} ${quote(entry.referer)} ${quote(entry.userAgent)}`
+    : common;
+}
+
+/**
+ * Decide whether an entry should be written
+ * Exported for testing
+ */
+export function shouldLog(
+  entry: Pick<AccessLogEntry, 'path' | 'status'>,
+  options: Pick<AccessLogOptions, 'excludePaths' | 'sampleRate' | 'random'>
+): boolean {
+  if (options.excludePaths.includes(entry.path)) return false;
+  if (entry.status >= 400 || options.sampleRate >= 1) return true;
+  return (options.random ?? Math.random)() < options.sampleRate;
+}
+
+/**
+ * Elysia plugin writing one access log line per request
+ */
+export function accessLog(options: AccessLogOptions) {
+  const write = options.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+
+  return onRequestCompleted('access-log', (completed) => {
+    const { request, status, response } = completed;
+    const { requestId, log, startedAt } = getRequestContext(request);
+    const entry: AccessLogEntry = {
+      method: request.method,
+      path: new URL(request.url).pathname,
+      route: completed.route,
+      status,
+      durationMs: completed.durationMs,
+      bytesIn: Number(request.headers.get('content-length') ?? 0),
+      // Bodies produced by the error handler are not exposed to completion hooks
+      bytesOut: response === undefined && status >= 400 ? undefined : measureBody(response),
+      clientIp: getClientIp(request, completed.server, options.trustProxy),
+      requestId,
+      referer: request.headers.get('referer'),
+      userAgent: request.headers.get('user-agent'),
+      // CLF stamps the time the request was received
+      time: new Date(performance.timeOrigin + startedAt),
+    };
+
+    if (!shouldLog(entry, options)) return;
+
+    if (options.format !== 'json') {
+      write(formatAccessLine(entry, options.format));
+      return;
+    }
+
+    const fields = {
+      route: entry.route,
+      status: entry.status,
+      duration_ms: entry.durationMs,
+      bytes_in: entry.bytesIn,
+      bytes_out: entry.bytesOut,
+      client_ip: entry.clientIp,
+    };
+    if (entry.status >= 500) {
+      log.error(fields, 'Request completed');
+    } else if (entry.status >= 400) {
+      log.warn(fields, 'Request completed');
+    } else {
+      log.info(fields, 'Request completed');
+    }
+  });
+}
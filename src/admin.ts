@@ -0,0 +1,440 @@
+/**
+ * Admin Endpoints
+ *
+ * Operational routes under /admin, guarded by the ADMIN_TOKEN bearer token:
+ * - GET    /admin/log-levels          current level of every module logger
+ * - PUT    /admin/log-levels/:module  override a module's level, optionally for a limited time
+ * - DELETE /admin/log-levels/:module  remove an override
+ * - GET    /admin/api-keys             every API key (metadata only, never the key)
+ * - POST   /admin/api-keys             issue a key; the response is the only time it is shown
+ * - POST   /admin/api-keys/:id/rotate  issue a successor, keeping the old key for an overlap window
+ * - DELETE /admin/api-keys/:id         revoke a key
+ * - GET    /admin/audit                audit entries matching filters, newest first, paginated
+ * - GET    /admin/audit/export         matching audit entries as JSONL, oldest first
+ * - GET    /admin/audit/verify         check the audit hash chain
+ *
+ * Rejected tokens and every change made through these routes are recorded in the audit log.
+ * The routes are not mounted at all when no token is configured.
+ */
+
+import { Elysia, t } from 'elysia';
+import { createHash, timingSafeEqual } from 'crypto';
+import { configSchema } from './config.js';
+import { bearerToken } from './auth.js';
+import { BadRequestError, NotFoundError, UnauthorizedError } from './errors.js';
+import { isValidModuleName, type LogLevelController } from './log-levels.js';
+import { apiKeyStatus, type ApiKeyManager, type ApiKeyRecord } from './api-keys.js';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTOR_TYPES,
+  AUDIT_OUTCOMES,
+  type AuditAction,
+  type AuditLog,
+  type AuditResource,
+  type AuditSource,
+} from './audit.js';
+
+const LevelSchema = t.UnionEnum(configSchema.LOG_LEVEL.values);
+const NullableDateSchema = t.Union([t.String({ format: 'date-time' }), t.Null()]);
+
+const ModuleLevelSchema = t.Object(
+  {
+    level: LevelSchema,
+    base: LevelSchema,
+    override: t.Optional(t.Object({ level: LevelSchema, expires_at: NullableDateSchema })),
+  },
+  { description: "A module's effective level" }
+);
+
+const LogLevelSnapshotSchema = t.Object(
+  {
+    default: LevelSchema,
+    debug_toggle: t.Object({ active: t.Boolean(), expires_at: NullableDateSchema }),
+    modules: t.Record(t.String(), ModuleLevelSchema),
+  },
+  { description: 'Current level of every module logger' }
+);
+
+const ModuleParams = t.Object({ module: t.String() });
+
+const ApiKeySchema = t.Object(
+  {
+    id: t.String(),
+    name: t.String(),
+    prefix: t.String({ description: 'Visible start of the key' }),
+    scopes: t.Array(t.String()),
+    status: t.UnionEnum(['active', 'expired', 'revoked']),
+    created_at: t.String({ format: 'date-time' }),
+    expires_at: NullableDateSchema,
+    last_used_at: NullableDateSchema,
+    revoked_at: NullableDateSchema,
+    replaced_by: t.Union([t.String(), t.Null()]),
+  },
+  { description: 'An API key without its secret' }
+);
+
+const IssuedApiKeySchema = t.Object(
+  { ...ApiKeySchema.properties, key: t.String({ description: 'The key; it is not shown again' }) },
+  { description: 'A newly issued API key' }
+);
+
+const ApiKeyParams = t.Object({ id: t.String() });
+
+const toApiKeyResponse = (record: ApiKeyRecord) => ({
+  id: record.id,
+  name: record.name,
+  prefix: record.prefix,
+  scopes: [...record.scopes],
+  status: apiKeyStatus(record),
+  created_at: record.createdAt.toISOString(),
+  expires_at: record.expiresAt?.toISOString() ?? null,
+  last_used_at: record.lastUsedAt?.toISOString() ?? null,
+  revoked_at: record.revokedAt?.toISOString() ?? null,
+  replaced_by: record.replacedBy ?? null,
+});
+
+const AuditEntrySchema = t.Object(
+  {
+    sequence: t.Integer(),
+    id: t.String(),
+    timestamp: t.String({ format: 'date-time' }),
+    action: t.UnionEnum(AUDIT_ACTIONS),
+    actor: t.Object({ type: t.UnionEnum(AUDIT_ACTOR_TYPES), id: t.Optional(t.String()) }),
+    resource: t.Optional(t.Object({ type: t.String(), id: t.Optional(t.String()) })),
+    outcome: t.UnionEnum(AUDIT_OUTCOMES),
+    reason: t.Optional(t.String()),
+    details: t.Optional(t.Record(t.String(), t.Unknown())),
+    request_id: t.Optional(t.String()),
+    trace_id: t.Optional(t.String()),
+    ip: t.Optional(t.String()),
+    method: t.Optional(t.String()),
+    path: t.Optional(t.String()),
+    previous_hash: t.String({ description: 'Hash of the preceding entry' }),
+    hash: t.String({ description: 'SHA-256 of the entry without this member' }),
+  },
+  { description: 'An audit log entry' }
+);
+
+// Optional t.UnionEnum query parameters default to their first value, so filters use literal unions
+const oneOf = <const T extends string>(values: readonly T[]) =>
+  t.Optional(t.Union(values.map((value) => t.Literal(value))));
+
+const AuditFilterQuery = t.Object({
+  action: oneOf(AUDIT_ACTIONS),
+  actor_type: oneOf(AUDIT_ACTOR_TYPES),
+  actor_id: t.Optional(t.String()),
+  outcome: oneOf(AUDIT_OUTCOMES),
+  resource_type: t.Optional(t.String()),
+  resource_id: t.Optional(t.String()),
+  since: t.Optional(t.String({ format: 'date-time' })),
+  until: t.Optional(t.String({ format: 'date-time' })),
+});
+
+const toAuditFilter = (query: typeof AuditFilterQuery.static) => ({
+  ...(query.action && { action: query.action }),
+  ...(query.actor_type && { actorType: query.actor_type }),
+  ...(query.actor_id && { actorId: query.actor_id }),
+  ...(query.outcome && { outcome: query.outcome }),
+  ...(query.resource_type && { resourceType: query.resource_type }),
+  ...(query.resource_id && { resourceId: query.resource_id }),
+  ...(query.since && { since: new Date(query.since) }),
+  ...(query.until && { until: new Date(query.until) }),
+});
+
+const JSONL_CONTENT_TYPE = 'application/x-ndjson';
+
+// Every admin route requires the bearer token
+const detail = (summary: string) => ({
+  summary,
+  tags: ['Admin'],
+  security: [{ adminToken: [] }],
+});
+
+export interface AdminOptions {
+  token: string;
+  logLevels: LogLevelController;
+  /** Serves the API key routes when set */
+  apiKeys?: ApiKeyManager;
+  audit: AuditLog;
+}
+
+// Hash both sides so the comparison takes the same time whatever the token lengths
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Check an Authorization header against the admin token
+ * Exported for testing
+ */
+export function isAuthorized(header: string | null, token: string): boolean {
+  const presented = bearerToken(header);
+  return presented !== undefined && timingSafeEqual(digest(presented), digest(token));
+}
+
+function requireAdminToken(token: string, audit: AuditLog) {
+  return async (source: AuditSource) => {
+    if (!isAuthorized(source.request.headers.get('authorization'), token)) {
+      const message = 'A valid admin bearer token is required';
+      await audit.tryRecord(
+        {
+          action: 'authentication.failed',
+          actor: { type: 'anonymous' },
+          resource: { type: 'admin' },
+          outcome: 'failure',
+          reason: message,
+        },
+        source
+      );
+      throw new UnauthorizedError(message, {
+        headers: { 'www-authenticate': 'Bearer realm="admin"' },
+      });
+    }
+  };
+}
+
+// Record a change made through the admin routes
+function recordChange(
+  audit: AuditLog,
+  source: AuditSource,
+  action: AuditAction,
+  resource: AuditResource,
+  details?: Record<string, unknown>
+) {
+  return audit.tryRecord(
+    { action, actor: { type: 'admin' }, resource, outcome: 'success', ...(details && { details }) },
+    source
+  );
+}
+
+function apiKeyRoutes(apiKeys: ApiKeyManager, token: string, audit: AuditLog) {
+  const notFound = (id: string) => new NotFoundError(`API key "${id}" does not exist`);
+  const keyResource = (id: string) => ({ type: 'api_key', id });
+
+  return new Elysia({ name: 'admin-api-keys' })
+    .onBeforeHandle(requireAdminToken(token, audit))
+    .get('/api-keys', async () => (await apiKeys.list()).map(toApiKeyResponse), {
+      response: t.Array(ApiKeySchema),
+      detail: detail('List API keys'),
+    })
+    .post(
+      '/api-keys',
+      async ({ body, set, request, server }) => {
+        const { key, record } = await apiKeys.create({
+          name: body.name,
+          ...(body.scopes && { scopes: body.scopes }),
+          ...(body.expires_in_seconds !== undefined && {
+            expiresAt: new Date(Date.now() + body.expires_in_seconds * 1000),
+          }),
+        });
+        await recordChange(audit, { request, server }, 'api_key.created', keyResource(record.id), {
+          name: record.name,
+          scopes: [...record.scopes],
+        });
+        set.status = 201;
+        return { ...toApiKeyResponse(record), key };
+      },
+      {
+        body: t.Object({
+          name: t.String({ minLength: 1, maxLength: 100 }),
+          scopes: t.Optional(t.Array(t.String({ minLength: 1, maxLength: 100 }), { maxItems: 50 })),
+          expires_in_seconds: t.Optional(t.Integer({ minimum: 60 })),
+        }),
+        response: { 201: IssuedApiKeySchema },
+        detail: detail('Issue an API key'),
+      }
+    )
+    .post(
+      '/api-keys/:id/rotate',
+      async ({ params, body, set, request, server }) => {
+        const issued = await apiKeys.rotate(params.id, body?.overlap_seconds);
+        if (!issued) throw notFound(params.id);
+        await recordChange(audit, { request, server }, 'api_key.rotated', keyResource(params.id), {
+          successor: issued.record.id,
+        });
+        set.status = 201;
+        return { ...toApiKeyResponse(issued.record), key: issued.key };
+      },
+      {
+        params: ApiKeyParams,
+        body: t.Optional(
+          t.Object({ overlap_seconds: t.Optional(t.Integer({ minimum: 0, maximum: 2_592_000 })) })
+        ),
+        response: { 201: IssuedApiKeySchema },
+        detail: detail('Rotate an API key'),
+      }
+    )
+    .delete(
+      '/api-keys/:id',
+      async ({ params, set, request, server }) => {
+        if (!(await apiKeys.revoke(params.id))) throw notFound(params.id);
+        await recordChange(audit, { request, server }, 'api_key.revoked', keyResource(params.id));
+        set.status = 204;
+      },
+      {
+        params: ApiKeyParams,
+        detail: {
+          ...detail('Revoke an API key'),
+          responses: { 204: { description: 'Key revoked' } },
+        },
+      }
+    );
+}
+
+function auditRoutes(audit: AuditLog, token: string) {
+  return new Elysia({ name: 'admin-audit' })
+    .onBeforeHandle(requireAdminToken(token, audit))
+    .get(
+      '/audit',
+      async ({ query }) => {
+        const page = await audit.query(toAuditFilter(query), {
+          ...(query.cursor !== undefined && { before: query.cursor }),
+          limit: query.limit ?? 50,
+        });
+        return { entries: [...page.entries], next_cursor: page.nextCursor ?? null };
+      },
+      {
+        query: t.Object({
+          ...AuditFilterQuery.properties,
+          cursor: t.Optional(
+            t.Integer({ minimum: 1, description: 'next_cursor of the last page' })
+          ),
+          limit: t.Optional(t.Integer({ minimum: 1, maximum: 500 })),
+        }),
+        response: t.Object(
+          {
+            entries: t.Array(AuditEntrySchema),
+            next_cursor: t.Union([t.Integer(), t.Null()]),
+          },
+          { description: 'Matching audit entries, newest first' }
+        ),
+        detail: detail('Query the audit log'),
+      }
+    )
+    .get(
+      '/audit/export',
+      async ({ query, set, request, server }) => {
+        await recordChange(
+          audit,
+          { request, server },
+          'audit.exported',
+          { type: 'audit_log' },
+          {
+            filter: query,
+          }
+        );
+        set.headers['content-type'] = JSONL_CONTENT_TYPE;
+        set.headers['content-disposition'] = 'attachment; filename="audit.jsonl"';
+        return audit.exportJsonl(toAuditFilter(query));
+      },
+      {
+        query: AuditFilterQuery,
+        detail: {
+          ...detail('Export the audit log as JSONL'),
+          responses: {
+            200: {
+              description: 'One audit entry per line, oldest first',
+              content: { [JSONL_CONTENT_TYPE]: { schema: { type: 'string' } } },
+            },
+          },
+        },
+      }
+    )
+    .get(
+      '/audit/verify',
+      async () => {
+        const verification = await audit.verify();
+        return {
+          valid: verification.valid,
+          entries: verification.entries,
+          broken_at: verification.valid ? null : verification.brokenAt,
+          reason: verification.valid ? null : verification.reason,
+        };
+      },
+      {
+        response: t.Object(
+          {
+            valid: t.Boolean(),
+            entries: t.Integer(),
+            broken_at: t.Union([t.Integer(), t.Null()], {
+              description: 'Sequence of the first entry that breaks the chain',
+            }),
+            reason: t.Union([t.String(), t.Null()]),
+          },
+          { description: 'Whether the audit hash chain is intact' }
+        ),
+        detail: detail('Verify the audit hash chain'),
+      }
+    );
+}
+
+/**
+ * Elysia plugin serving the admin routes
+ */
+export function adminRoutes({ token, logLevels, apiKeys, audit }: AdminOptions) {
+  const moduleName = (name: string) => {
+    if (!isValidModuleName(name)) {
+      throw new BadRequestError(`Invalid module name "${name}"`);
+    }
+    return name;
+  };
+
+  return new Elysia({ name: 'admin', prefix: '/admin' })
+    .onBeforeHandle(requireAdminToken(token, audit))
+    .get('/log-levels', () => logLevels.snapshot(), {
+      response: LogLevelSnapshotSchema,
+      detail: detail('List module log levels'),
+    })
+    .put(
+      '/log-levels/:module',
+      async ({ params, body, request, server }) => {
+        const level = logLevels.setLevel(
+          moduleName(params.module),
+          body.level,
+          body.ttl_seconds === undefined ? {} : { ttlMs: body.ttl_seconds * 1000 }
+        );
+        await recordChange(
+          audit,
+          { request, server },
+          'log_level.changed',
+          { type: 'logger', id: params.module },
+          {
+            level: body.level,
+            ...(body.ttl_seconds !== undefined && { ttl_seconds: body.ttl_seconds }),
+          }
+        );
+        return level;
+      },
+      {
+        params: ModuleParams,
+        body: t.Object({
+          level: LevelSchema,
+          ttl_seconds: t.Optional(t.Integer({ minimum: 1, maximum: 86_400 })),
+        }),
+        response: ModuleLevelSchema,
+        detail: detail("Override a module's log level"),
+      }
+    )
+    .delete(
+      '/log-levels/:module',
+      async ({ params, set, request, server }) => {
+        if (!logLevels.reset(moduleName(params.module))) {
+          throw new NotFoundError(`Module "${params.module}" has no level override`);
+        }
+        await recordChange(audit, { request, server }, 'log_level.reset', {
+          type: 'logger',
+          id: params.module,
+        });
+        set.status = 204;
+      },
+      {
+        params: ModuleParams,
+        detail: {
+          ...detail("Remove a module's level override"),
+          responses: { 204: { description: 'Override removed' } },
+        },
+      }
+    )
+    .use(apiKeys ? apiKeyRoutes(apiKeys, token, audit) : new Elysia({ name: 'admin-api-keys' }))
+    .use(auditRoutes(audit, token));
+}
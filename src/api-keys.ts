@@ -0,0 +1,267 @@
+/**
+ * API Keys
+ *
+ * Credentials for service-to-service callers:
+ * - Keys are generated as `<prefix>_<id>_<secret>`; the `<prefix>_<id>` part
+ *   stays visible in listings and logs, and only a SHA-256 hash of the whole
+ *   key is stored, so a leaked store does not leak usable keys
+ * - Each key carries scopes and an optional expiry; its last use is recorded
+ * - Rotation issues a successor with the same name and scopes and keeps the
+ *   old key working for an overlap window, so callers can switch without
+ *   downtime; revocation takes effect immediately
+ * - Callers present keys in the API_KEY_HEADER header or as a bearer token
+ *
+ * Storage is pluggable (ApiKeyStore); the default keeps keys in memory, so
+ * deployments that need keys to survive restarts provide a persistent store.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ConflictError } from './errors.js';
+import { bearerToken, invalidCredentials, type Authenticator, type Principal } from './auth.js';
+import { getConfig, type AppConfig } from './config.js';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  /** Visible part of the key (`<prefix>_<id>`), safe to log and display */
+  prefix: string;
+  /** SHA-256 of the full key (hex) */
+  hash: string;
+  scopes: readonly string[];
+  createdAt: Date;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  /** ID of the key that replaced this one when it was rotated */
+  replacedBy?: string;
+}
+
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Where API key records are kept
+ */
+export interface ApiKeyStore {
+  get(id: string): Promise<ApiKeyRecord | undefined>;
+  list(): Promise<readonly ApiKeyRecord[]>;
+  /** Insert or replace the record with the same ID */
+  save(record: ApiKeyRecord): Promise<void>;
+}
+
+/**
+ * Process-local store; keys are lost on restart
+ */
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private readonly records = new Map<string, ApiKeyRecord>();
+
+  async get(id: string): Promise<ApiKeyRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async list(): Promise<readonly ApiKeyRecord[]> {
+    return [...this.records.values()];
+  }
+
+  async save(record: ApiKeyRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+}
+
+export interface ApiKeyManagerOptions {
+  prefix: string;
+  /** Default time a rotated key keeps working alongside its successor */
+  rotationOverlapSeconds: number;
+  store?: ApiKeyStore;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes?: readonly string[];
+  expiresAt?: Date;
+}
+
+/**
+ * A newly issued key; `key` is never available again
+ */
+export interface IssuedApiKey {
+  key: string;
+  record: ApiKeyRecord;
+}
+
+// `<id>_<secret>` after the prefix: 8 random bytes as hex, 32 as base64url
+const KEY_BODY_PATTERN = /^([\da-f]{16})_([\w-]{43})$/;
+
+// Last use is recorded at most this often per key, so busy keys do not write on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Status of a key at `now`
+ */
+export function apiKeyStatus(record: ApiKeyRecord, now = new Date()): ApiKeyStatus {
+  if (record.revokedAt) return 'revoked';
+  if (record.expiresAt && record.expiresAt <= now) return 'expired';
+  return 'active';
+}
+
+/**
+ * Issues, rotates, revokes and verifies API keys
+ */
+export class ApiKeyManager {
+  private readonly store: ApiKeyStore;
+
+  constructor(private readonly options: ApiKeyManagerOptions) {
+    this.store = options.store ?? new MemoryApiKeyStore();
+  }
+
+  /**
+   * Issue a new key
+   */
+  async create({ name, scopes = [], expiresAt }: NewApiKey): Promise<IssuedApiKey> {
+    const id = randomBytes(8).toString('hex');
+    const prefix = `${this.options.prefix}_${id}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id,
+      name,
+      prefix,
+      hash: hashKey(key),
+      scopes: [...new Set(scopes)],
+      createdAt: new Date(),
+      ...(expiresAt && { expiresAt }),
+    };
+    await this.store.save(record);
+    return { key, record };
+  }
+
+  /**
+   * Every key, oldest first
+   */
+  async list(): Promise<ApiKeyRecord[]> {
+    const records = await this.store.list();
+    return [...records].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Revoke a key immediately
+   * Returns undefined when no key has this ID
+   */
+  async revoke(id: string): Promise<ApiKeyRecord | undefined> {
+    const record = await this.store.get(id);
+    if (!record) return undefined;
+    if (!record.revokedAt) {
+      record.revokedAt = new Date();
+      await this.store.save(record);
+    }
+    return record;
+  }
+
+  /**
+   * Issue a successor to a key and expire the key after the overlap window
+   * Returns undefined when no key has this ID
+   */
+  async rotate(
+    id: string,
+    overlapSeconds = this.options.rotationOverlapSeconds
+  ): Promise<IssuedApiKey | undefined> {
+    const record = await this.store.get(id);
+    if (!record) return undefined;
+    const status = apiKeyStatus(record);
+    if (status !== 'active') {
+      throw new ConflictError(`API key ${record.prefix} is ${status}`);
+    }
+    if (record.replacedBy) {
+      throw new ConflictError(`API key ${record.prefix} was already rotated`);
+    }
+
+    const successor = await this.create({
+      name: record.name,
+      scopes: record.scopes,
+      ...(record.expiresAt && { expiresAt: record.expiresAt }),
+    });
+    const overlapEnds = new Date(Date.now() + overlapSeconds * 1000);
+    record.expiresAt =
+      record.expiresAt && record.expiresAt < overlapEnds ? record.expiresAt : overlapEnds;
+    record.replacedBy = successor.record.id;
+    await this.store.save(record);
+    return successor;
+  }
+
+  /**
+   * Verify a presented key and return its principal
+   * Returns undefined when the value is not shaped like one of our keys, and
+   * throws UnauthorizedError when it is but is unknown, expired or revoked
+   */
+  async authenticate(key: string): Promise<Principal | undefined> {
+    const keyPrefix = `${this.options.prefix}_`;
+    const id = key.startsWith(keyPrefix)
+      ? key.slice(keyPrefix.length).match(KEY_BODY_PATTERN)?.[1]
+      : undefined;
+    if (!id) return undefined;
+
+    const record = await this.store.get(id);
+    if (
+      !record ||
+      !timingSafeEqual(Buffer.from(hashKey(key), 'hex'), Buffer.from(record.hash, 'hex'))
+    ) {
+      throw invalidCredentials('The API key is invalid');
+    }
+    const now = new Date();
+    const status = apiKeyStatus(record, now);
+    if (status !== 'active') {
+      throw invalidCredentials(`The API key is ${status}`);
+    }
+
+    if (
+      !record.lastUsedAt ||
+      now.getTime() - record.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      record.lastUsedAt = now;
+      await this.store.save(record);
+    }
+
+    return {
+      type: 'api-key',
+      subject: record.id,
+      scopes: record.scopes,
+      roles: [],
+      claims: { name: record.name, prefix: record.prefix },
+    };
+  }
+}
+
+/**
+ * Authenticator for API keys in `header` or an `Authorization: Bearer` header
+ * Bearer tokens that are not API keys (e.g. JWTs) are left to other checks.
+ */
+export function apiKeyAuthenticator(manager: ApiKeyManager, header: string): Authenticator {
+  return {
+    scheme: { name: 'apiKey', definition: { type: 'apiKey', in: 'header', name: header } },
+    authenticate: async (request) => {
+      const presented = request.headers.get(header);
+      if (presented === null) {
+        const token = bearerToken(request.headers.get('authorization'));
+        return token === undefined ? undefined : manager.authenticate(token);
+      }
+      // A value in the dedicated header is always meant as a key
+      const principal = await manager.authenticate(presented.trim());
+      if (!principal) throw invalidCredentials('The API key is invalid');
+      return principal;
+    },
+  };
+}
+
+let manager: ApiKeyManager | undefined;
+
+/**
+ * Get the process-wide key manager
+ */
+export function getApiKeyManager(
+  options: AppConfig['auth']['apiKeys'] = getConfig().auth.apiKeys
+): ApiKeyManager {
+  manager ??= new ApiKeyManager(options);
+  return manager;
+}
@@ -1,76 +1,222 @@
-import { Elysia } from 'elysia';
-import { logger, createChildLogger } from './logger.js';
-import { randomUUID } from 'crypto';
+import { Elysia, t, type InternalRoute } from 'elysia';
+import { trace, type Tracer } from '@opentelemetry/api';
+import { getConfig, type AppConfig } from './config.js';
+import { requestContext, getRequestContext } from './request-context.js';
+import { accessLog } from './access-log.js';
+import { initializeMetrics } from './metrics.js';
+import { metricsPlugin } from './metrics-endpoint.js';
+import { getReadinessRegistry, type ReadinessRegistry } from './readiness.js';
+import { getLifecycle, type Lifecycle } from './lifecycle.js';
+import { healthProbes } from './health.js';
+import { AppError, problemResponse, toAppError } from './errors.js';
+import { recordSpanError } from './observability.js';
+import { getRequestSpan, getRequestTraceId, tracing } from './tracing.js';
+import { getShutdownManager, type ShutdownManager } from './shutdown.js';
+import { adminRoutes } from './admin.js';
+import { getLogLevelController } from './logger.js';
+import type { LogLevelController } from './log-levels.js';
+import { openApi } from './openapi.js';
+import { deprecationTracking } from './versioning.js';
+import { apiRoutes } from './routes.js';
+import { authentication, type Authenticator } from './auth.js';
+import { authorization } from './authorization.js';
+import { isJwtConfigured, jwtAuthenticator, JwtVerifier } from './jwt.js';
+import { apiKeyAuthenticator, getApiKeyManager, type ApiKeyManager } from './api-keys.js';
+import { hardening } from './hardening.js';
+import { getAuditLog, type AuditLog } from './audit.js';
+import {
+  MemoryRateLimitStore,
+  failedAuthenticationLimiting,
+  rateLimiting,
+  type RateLimitOptions,
+  type RateLimitStore,
+} from './rate-limit.js';
 
-// Create and configure Elysia app
-export const app = new Elysia()
-  // Request logging middleware with trace correlation
-  .onRequest(({ request, set }) => {
-    const requestId = randomUUID();
-    const requestLogger = createChildLogger({
-      request_id: requestId,
-      method: request.method,
-      url: request.url,
-      user_agent: request.headers.get('user-agent'),
-    });
+export interface AppDependencies {
+  readiness?: ReadinessRegistry;
+  lifecycle?: Lifecycle;
+  shutdown?: ShutdownManager;
+  /** Tracer for server spans (defaults to the global tracer provider) */
+  tracer?: Tracer;
+  logLevels?: LogLevelController;
+  apiKeys?: ApiKeyManager;
+  /** Replace the configured JWT and API key authenticators */
+  authenticators?: readonly Authenticator[];
+  /** Storage for rate limit budgets (defaults to an in-memory store per app) */
+  rateLimitStore?: RateLimitStore;
+  audit?: AuditLog;
+}
 
-    // Store logger in context for use in handlers
-    set.headers['x-request-id'] = requestId;
+/**
+ * Create and configure the Elysia app
+ * Exported for testing with explicit configuration and dependencies
+ */
+export function createApp(config: AppConfig = getConfig(), dependencies: AppDependencies = {}) {
+  const readiness = dependencies.readiness ?? getReadinessRegistry(config.readiness);
+  const lifecycle = dependencies.lifecycle ?? getLifecycle();
+  const shutdown = dependencies.shutdown ?? getShutdownManager(config.shutdown);
+  const appMetrics = config.metrics.enabled ? initializeMetrics(config) : undefined;
+  const audit = dependencies.audit ?? getAuditLog(config);
+  const apiKeys = config.auth.apiKeys.enabled
+    ? (dependencies.apiKeys ?? getApiKeyManager(config.auth.apiKeys))
+    : undefined;
+  const authenticators: readonly Authenticator[] = dependencies.authenticators ?? [
+    ...(isJwtConfigured(config.auth.jwt)
+      ? [jwtAuthenticator(new JwtVerifier(config.auth.jwt))]
+      : []),
+    ...(apiKeys ? [apiKeyAuthenticator(apiKeys, config.auth.apiKeys.header)] : []),
+  ];
 
-    requestLogger.info('Incoming request');
-  })
-  .onAfterHandle(({ request, set }) => {
-    const requestLogger = createChildLogger({
-      method: request.method,
-      url: request.url,
-      status: set.status || 200,
-    });
-    requestLogger.info('Request completed');
-  })
-  // Health check endpoint - simple OK response
-  .get('/health', () => ({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    environment: process.env.NODE_ENV || 'development',
-    version: process.env.npm_package_version || '1.0.0',
-  }))
-  // Readiness check endpoint - returns ready with empty dependencies
-  .get('/ready', () => ({
-    status: 'ready',
-    timestamp: new Date().toISOString(),
-    dependencies: {},
-  }))
-  // Root endpoint
-  .get('/', () => ({
-    message: 'Welcome to the TypeScript Backend Template',
-    documentation: '/health for health checks, /ready for readiness checks',
-    timestamp: new Date().toISOString(),
-  }))
-  // Global error handler
-  .onError(({ error, code, set }) => {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const errorStack = error instanceof Error ? error.stack : undefined;
-    logger.error({ error: errorMessage, code, stack: errorStack }, 'Application error');
+  const rateLimit: RateLimitOptions = {
+    enabled: config.rateLimit.enabled,
+    rule: {
+      algorithm: config.rateLimit.algorithm,
+      limit: config.rateLimit.requests,
+      windowMs: config.rateLimit.windowMs,
+    },
+    by: config.rateLimit.key,
+    store: dependencies.rateLimitStore ?? new MemoryRateLimitStore(),
+    trustProxy: config.app.trustProxy,
+    metrics: appMetrics,
+  };
 
-    if (code === 'NOT_FOUND') {
-      set.status = 404;
-      return {
-        error: 'Not Found',
-        message: 'The requested endpoint does not exist',
+  const app = new Elysia()
+    // Server span per request, started before anything else runs
+    .use(
+      config.otel.tracingEnabled
+        ? tracing({
+            tracer:
+              dependencies.tracer ?? trace.getTracer(config.service.name, config.service.version),
+            trustProxy: config.app.trustProxy,
+          })
+        : new Elysia({ name: 'tracing' })
+    )
+    // Request ID and request-scoped logger (ctx.requestId / ctx.log)
+    .use(requestContext)
+    // In-flight request tracking so shutdown can drain them
+    .use(shutdown.requestTracker())
+    // One access log line per request, including errors and 404s
+    .use(
+      config.accessLog.enabled
+        ? accessLog({ ...config.accessLog, trustProxy: config.app.trustProxy })
+        : new Elysia({ name: 'access-log' })
+    )
+    // HTTP RED and process metrics, scraped from the metrics endpoint
+    .use(
+      appMetrics ? metricsPlugin(appMetrics, config.metrics.path) : new Elysia({ name: 'metrics' })
+    )
+    // Counts and logs requests to deprecated versioned routes (see versioning.ts)
+    .use(deprecationTracking(appMetrics))
+    // Request logging middleware with trace correlation
+    .onRequest(({ request, set }) => {
+      const { requestId, log } = getRequestContext(request);
+      // Echo the request and trace IDs so a user report can be matched to its logs and trace
+      set.headers['x-request-id'] = requestId;
+      const traceId = getRequestTraceId(request);
+      if (traceId) {
+        set.headers['x-trace-id'] = traceId;
+      }
+
+      log.info({ user_agent: request.headers.get('user-agent') }, 'Incoming request');
+    })
+    // CORS, security headers and request size, header count and body time limits
+    .use(hardening(config))
+    // Per-IP budget of failed authentications, checked before credentials are
+    .use(failedAuthenticationLimiting(rateLimit))
+    // Caller identity (ctx.principal) from bearer JWTs or API keys; invalid credentials fail with 401
+    .use(authentication(authenticators, audit))
+    // Per-route `authorize` policies; denials fail with 403
+    .use(authorization(authenticators, audit))
+    // Liveness, startup and readiness probes plus the legacy /health and /ready
+    .use(healthProbes({ config, lifecycle, readiness }))
+    // Per-client budgets with `rateLimit` route overrides; probes and metrics above are exempt
+    .use(rateLimiting(rateLimit))
+    // Versioned API routes under /v1 (see routes.ts)
+    .use(apiRoutes())
+    // Token-guarded operational routes (runtime log levels)
+    .use(
+      config.admin.token
+        ? adminRoutes({
+            token: config.admin.token,
+            logLevels: dependencies.logLevels ?? getLogLevelController(),
+            ...(apiKeys && { apiKeys }),
+            audit,
+          })
+        : new Elysia({ name: 'admin' })
+    )
+    // OpenAPI document and API reference, generated from the route schemas
+    .use(
+      config.openapi.enabled
+        ? openApi({
+            info: { title: config.service.name, version: config.service.version },
+            routes: (): readonly InternalRoute[] => app.routes,
+            securitySchemes: {
+              ...(config.admin.token && { adminToken: { type: 'http', scheme: 'bearer' } }),
+              ...Object.fromEntries(
+                authenticators.map(({ scheme }) => [scheme.name, scheme.definition])
+              ),
+            },
+          })
+        : new Elysia({ name: 'openapi' })
+    )
+    // Root endpoint
+    .get(
+      '/',
+      () => ({
+        message: 'Welcome to the TypeScript Backend Template',
+        // Links only to the docs that are served
+        ...(config.openapi.enabled && { documentation: '/docs', openapi: '/openapi.json' }),
         timestamp: new Date().toISOString(),
+      }),
+      {
+        response: t.Object({
+          message: t.String(),
+          documentation: t.Optional(t.String()),
+          openapi: t.Optional(t.String()),
+          timestamp: t.String({ format: 'date-time' }),
+        }),
+        detail: { summary: 'Service welcome', tags: ['Service'] },
+      }
+    )
+    // Global error handler - RFC 9457 problem+json for every error
+    .onError(({ request, error, code, set }) => {
+      const { requestId, log } = getRequestContext(request);
+      const appError = toAppError(error, code, config.app.environment === 'development');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const fields = {
+        error: errorMessage,
+        code,
+        error_code: appError.code,
+        status: appError.status,
       };
-    }
 
-    set.status = 500;
-    return {
-      error: 'Internal Server Error',
-      message:
-        process.env.NODE_ENV === 'development' && error instanceof Error
-          ? error.message
-          : 'Something went wrong',
-      timestamp: new Date().toISOString(),
-    };
-  });
+      if (appError.status >= 500) {
+        log.error(
+          { ...fields, stack: error instanceof Error ? error.stack : undefined },
+          'Application error'
+        );
+      } else {
+        log.warn(fields, 'Application error');
+      }
+
+      const span = getRequestSpan(request);
+      // Unexpected exceptions are typed by class, everything else by its stable code
+      const unexpected =
+        code === 'UNKNOWN' && error instanceof Error && !(error instanceof AppError);
+      const errorType = unexpected ? error.name : appError.code;
+      recordSpanError(span, error, { status: appError.status, errorType });
+
+      set.status = appError.status;
+      return problemResponse(appError, {
+        instance: new URL(request.url).pathname,
+        requestId,
+        traceId: getRequestTraceId(request),
+      });
+    });
+
+  return app;
+}
+
+export const app = createApp();
 
 export default app;
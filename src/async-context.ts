@@ -0,0 +1,108 @@
+/**
+ * Async Request Context
+ *
+ * Carries request-scoped values across awaits, timers, queue callbacks and
+ * detached promises, where the active OpenTelemetry span is otherwise lost:
+ * - Request ID, tenant, user and the request's trace context, kept in an
+ *   AsyncLocalStorage entered for every request (see request-context.ts)
+ * - Read by the logger mixin, so any log line written while handling a
+ *   request, or by work it spawned, stays correlated
+ * - `bindContext` / `captureContext` + `runInContext` carry the context into
+ *   callbacks that run outside the request's async chain, e.g. a shared job queue
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  context as otelContext,
+  isSpanContextValid,
+  trace,
+  type Context,
+} from '@opentelemetry/api';
+
+/**
+ * Values shared by everything running on behalf of one request
+ */
+export interface AsyncContext {
+  requestId?: string;
+  tenantId?: string;
+  userId?: string;
+  /** OpenTelemetry context holding the request's server span */
+  traceContext?: Context;
+}
+
+/**
+ * Async context plus the OpenTelemetry context active at capture time
+ */
+export interface ContextSnapshot {
+  context: AsyncContext | undefined;
+  otel: Context;
+}
+
+const storage = new AsyncLocalStorage<AsyncContext>();
+
+/**
+ * Get the context of the current request or background task, if any
+ */
+export function getAsyncContext(): AsyncContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Add values to the current context, e.g. the user once authenticated
+ * The context is shared, so work already spawned by the request sees them too
+ * Returns false when there is no current context
+ */
+export function updateAsyncContext(values: Partial<AsyncContext>): boolean {
+  const current = storage.getStore();
+  if (!current) return false;
+  Object.assign(current, values);
+  return true;
+}
+
+/**
+ * Trace and span ID of the context's trace, when it holds a valid span
+ */
+export function getContextTraceIds(
+  context: AsyncContext | undefined = storage.getStore()
+): { traceId: string; spanId: string } | undefined {
+  const spanContext = context?.traceContext && trace.getSpanContext(context.traceContext);
+  return spanContext && isSpanContextValid(spanContext)
+    ? { traceId: spanContext.traceId, spanId: spanContext.spanId }
+    : undefined;
+}
+
+/**
+ * Run `fn` inside a new context, with its trace context (if any) active
+ */
+export function runWithContext<T>(context: AsyncContext, fn: () => T): T {
+  return storage.run(context, () =>
+    context.traceContext ? otelContext.with(context.traceContext, fn) : fn()
+  );
+}
+
+/**
+ * Capture the current context, to run work inside it later with `runInContext`
+ */
+export function captureContext(): ContextSnapshot {
+  const context = storage.getStore();
+  const active = otelContext.active();
+  // Request handlers do not run with the server span active; fall back to the request's trace
+  const otel = trace.getSpan(active) || !context?.traceContext ? active : context.traceContext;
+  return { context, otel };
+}
+
+/**
+ * Run `fn` inside a captured context
+ */
+export function runInContext<T>(snapshot: ContextSnapshot, fn: () => T): T {
+  const run = () => otelContext.with(snapshot.otel, fn);
+  return snapshot.context ? storage.run(snapshot.context, run) : storage.exit(run);
+}
+
+/**
+ * Bind `fn` to the current context, so it runs inside it wherever it is called from
+ */
+export function bindContext<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const snapshot = captureContext();
+  return (...args) => runInContext(snapshot, () => fn(...args));
+}
@@ -0,0 +1,416 @@
+/**
+ * Audit Log
+ *
+ * Tamper-evident trail of security-relevant and administrative actions,
+ * separate from the request logs:
+ * - Typed entries naming the actor, action, resource and outcome, plus the
+ *   request ID, trace ID, client IP, method and path when a request caused them
+ * - Hash chaining: every entry carries the hash of its predecessor and a
+ *   SHA-256 over its own canonical JSON, so editing, removing or reordering
+ *   entries breaks the chain and is reported by `verifyAuditChain`
+ * - Append-only stores: in memory, or a JSONL file that survives restarts
+ * - Fed by authentication failures, authorization denials, admin actions and
+ *   runtime log level changes; queried and exported through /admin/audit
+ * - Requests never fail because of the audit log: write errors are logged, and
+ *   the failures and denials recorded per client IP are capped per minute
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { existsSync, readFileSync, truncateSync } from 'fs';
+import { appendFile } from 'fs/promises';
+import { getConfig, type AppConfig } from './config.js';
+import { getLogger } from './logger.js';
+import { getClientIp, getRequestContext, type PeerAddressSource } from './request-context.js';
+import { getRequestTraceId } from './tracing.js';
+
+export const AUDIT_ACTIONS = [
+  'authentication.failed',
+  'authorization.denied',
+  'api_key.created',
+  'api_key.rotated',
+  'api_key.revoked',
+  'log_level.changed',
+  'log_level.reset',
+  'log_level.debug_toggled',
+  'audit.exported',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_OUTCOMES = ['success', 'failure', 'denied'] as const;
+export type AuditOutcome = (typeof AUDIT_OUTCOMES)[number];
+
+export const AUDIT_ACTOR_TYPES = ['jwt', 'api-key', 'admin', 'anonymous', 'system'] as const;
+
+export interface AuditActor {
+  type: (typeof AUDIT_ACTOR_TYPES)[number];
+  /** Subject, key ID or signal; absent for anonymous callers */
+  id?: string;
+}
+
+export interface AuditResource {
+  type: string;
+  id?: string;
+}
+
+/**
+ * What happened, as reported by the code that did it
+ */
+export interface AuditEvent {
+  action: AuditAction;
+  actor: AuditActor;
+  resource?: AuditResource;
+  outcome: AuditOutcome;
+  /** Why the action failed or was denied */
+  reason?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * A stored entry, in the shape it is hashed, served and exported in
+ */
+export interface AuditEntry extends AuditEvent {
+  sequence: number;
+  id: string;
+  timestamp: string;
+  request_id?: string;
+  trace_id?: string;
+  ip?: string;
+  method?: string;
+  path?: string;
+  previous_hash: string;
+  hash: string;
+}
+
+/**
+ * Request an event was caused by
+ */
+export interface AuditSource {
+  request: Request;
+  server?: PeerAddressSource | null;
+}
+
+export interface AuditFilter {
+  action?: AuditAction;
+  actorType?: AuditActor['type'];
+  actorId?: string;
+  outcome?: AuditOutcome;
+  resourceType?: string;
+  resourceId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface AuditQueryOptions {
+  /** Only entries with a lower sequence number (the cursor of the previous page) */
+  before?: number;
+  limit?: number;
+}
+
+/**
+ * Append-only storage for entries
+ */
+export interface AuditStore {
+  append(entry: AuditEntry): Promise<void>;
+  last(): Promise<AuditEntry | undefined>;
+  /** Entries matching `filter`, newest first */
+  query(filter: AuditFilter, options?: AuditQueryOptions): Promise<readonly AuditEntry[]>;
+}
+
+/**
+ * Hash the first entry of a chain points back to
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Sorted keys and no whitespace, so that the hash does not depend on how an entry was serialized
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const members = Object.entries(value)
+      .filter(([, member]) => member !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([key, member]) => `${JSON.stringify(key)}:${canonicalJson(member)}`);
+    return `{${members.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash of an entry, covering every member but the hash itself
+ */
+export function auditHash(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+export type AuditVerification =
+  | { valid: true; entries: number }
+  | { valid: false; entries: number; brokenAt: number; reason: string };
+
+// Why `entry` cannot follow `previous`, if it cannot
+function chainBreak(entry: AuditEntry, previous: AuditEntry | undefined): string | undefined {
+  const { hash, ...hashed } = entry;
+  const sequence = (previous?.sequence ?? 0) + 1;
+  if (entry.sequence !== sequence) return `expected sequence ${sequence}`;
+  if (entry.previous_hash !== (previous?.hash ?? GENESIS_HASH)) {
+    return 'previous_hash does not match the preceding entry';
+  }
+  return auditHash(hashed) === hash ? undefined : 'hash does not match the entry';
+}
+
+/**
+ * Check that `entries` (oldest first) form an unbroken, unmodified chain
+ */
+export function verifyAuditChain(entries: readonly AuditEntry[]): AuditVerification {
+  let previous: AuditEntry | undefined;
+  for (const entry of entries) {
+    const reason = chainBreak(entry, previous);
+    if (reason) {
+      return { valid: false, entries: entries.length, brokenAt: entry.sequence, reason };
+    }
+    previous = entry;
+  }
+  return { valid: true, entries: entries.length };
+}
+
+function matches(entry: AuditEntry, filter: AuditFilter): boolean {
+  const timestamp = new Date(entry.timestamp);
+  return (
+    (filter.action === undefined || entry.action === filter.action) &&
+    (filter.actorType === undefined || entry.actor.type === filter.actorType) &&
+    (filter.actorId === undefined || entry.actor.id === filter.actorId) &&
+    (filter.outcome === undefined || entry.outcome === filter.outcome) &&
+    (filter.resourceType === undefined || entry.resource?.type === filter.resourceType) &&
+    (filter.resourceId === undefined || entry.resource?.id === filter.resourceId) &&
+    (filter.since === undefined || timestamp >= filter.since) &&
+    (filter.until === undefined || timestamp < filter.until)
+  );
+}
+
+/**
+ * Entries held in process memory; lost on restart
+ */
+export class MemoryAuditStore implements AuditStore {
+  protected readonly entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async last(): Promise<AuditEntry | undefined> {
+    return this.entries.at(-1);
+  }
+
+  async query(filter: AuditFilter, options: AuditQueryOptions = {}): Promise<AuditEntry[]> {
+    const found: AuditEntry[] = [];
+    for (
+      let i = this.entries.length - 1;
+      i >= 0 && found.length < (options.limit ?? Infinity);
+      i--
+    ) {
+      const entry = this.entries.at(i);
+      if (!entry || (options.before !== undefined && entry.sequence >= options.before)) continue;
+      if (matches(entry, filter)) found.push(entry);
+    }
+    return found;
+  }
+}
+
+/**
+ * Entries appended to a JSONL file, one line each, and read back on startup
+ * Queries are served from memory, so very large trails belong in a database-backed store.
+ *
+ * A last line that is not valid JSON is the remains of an append cut short by a crash: it is
+ * dropped from the file with a warning. The chain is verified on load; a broken one is logged
+ * and reported by `loaded`, and its entries are still served so that they can be inspected.
+ */
+export class FileAuditStore extends MemoryAuditStore {
+  /** Verification of the entries read from the file */
+  readonly loaded: AuditVerification;
+
+  constructor(private readonly path: string) {
+    super();
+    const log = getLogger('audit');
+    // The path comes from AUDIT_LOG_FILE, never from request input
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    const lines = (existsSync(path) ? readFileSync(path, 'utf8') : '').split('\n');
+    const last = lines.findLastIndex((line) => line.trim() !== '');
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      try {
+        this.entries.push(JSON.parse(line) as AuditEntry);
+      } catch (error) {
+        // Malformed lines before the last one break the chain and are reported below
+        if (index !== last) continue;
+        const kept = lines.slice(0, index).join('\n');
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        truncateSync(path, Buffer.byteLength(kept ? `${kept}\n` : ''));
+        log.warn(
+          { path, line: index + 1, error: (error as Error).message },
+          'Dropped a torn audit entry at the end of the file'
+        );
+      }
+    }
+
+    this.loaded = verifyAuditChain(this.entries);
+    if (!this.loaded.valid) {
+      log.error(
+        { path, broken_at: this.loaded.brokenAt, reason: this.loaded.reason },
+        'Audit log file failed verification; its entries are unverified'
+      );
+    }
+  }
+
+  override async append(entry: AuditEntry): Promise<void> {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`, { flag: 'a' });
+    await super.append(entry);
+  }
+}
+
+export interface AuditPage {
+  entries: readonly AuditEntry[];
+  /** Pass as `before` to read the next (older) page; undefined on the last page */
+  nextCursor: number | undefined;
+}
+
+export interface AuditLogOptions {
+  trustProxy: boolean;
+  /** Failures and denials `tryRecord` records per client IP per minute (0 for no limit) */
+  failureLimit?: number;
+}
+
+const FAILURE_WINDOW_MS = 60_000;
+
+/**
+ * Records events as chained entries and reads them back
+ */
+export class AuditLog {
+  // Entries are written one at a time so each links to the one before it
+  private tail: Promise<unknown> = Promise.resolve();
+  // Failures and denials per client IP in the current window
+  private failures = new Map<string, number>();
+  private failureWindowStart = 0;
+
+  constructor(
+    private readonly store: AuditStore = new MemoryAuditStore(),
+    private readonly options: AuditLogOptions = { trustProxy: false }
+  ) {}
+
+  /**
+   * Append an event, with the details of the request that caused it
+   */
+  record(event: AuditEvent, source?: AuditSource): Promise<AuditEntry> {
+    const origin = source && this.describeRequest(source);
+    const written = this.tail.then(async () => {
+      const previous = await this.store.last();
+      const entry: Omit<AuditEntry, 'hash'> = {
+        sequence: (previous?.sequence ?? 0) + 1,
+        id: randomUUID(),
+        timestamp: new Date().toISOString(),
+        ...event,
+        ...origin,
+        previous_hash: previous?.hash ?? GENESIS_HASH,
+      };
+      const sealed = { ...entry, hash: auditHash(entry) };
+      await this.store.append(sealed);
+      return sealed;
+    });
+    this.tail = written.catch(() => undefined);
+    return written;
+  }
+
+  /**
+   * Record an event caused by a request without letting it change the response
+   * Write errors are logged rather than thrown, and failures and denials beyond
+   * `failureLimit` per client IP per minute are not recorded, so that repeated
+   * bad credentials cannot grow the trail without bound.
+   */
+  async tryRecord(event: AuditEvent, source: AuditSource): Promise<void> {
+    const ip = getClientIp(source.request, source.server, this.options.trustProxy) ?? 'unknown';
+    if (event.outcome !== 'success' && !this.withinFailureLimit(ip)) return;
+
+    try {
+      await this.record(event, source);
+    } catch (error) {
+      getLogger('audit').error(
+        { action: event.action, error: (error as Error).message },
+        'Failed to record audit event'
+      );
+    }
+  }
+
+  private withinFailureLimit(ip: string): boolean {
+    const limit = this.options.failureLimit ?? 0;
+    if (limit === 0) return true;
+
+    const now = Date.now();
+    if (now - this.failureWindowStart >= FAILURE_WINDOW_MS) {
+      this.failures = new Map();
+      this.failureWindowStart = now;
+    }
+    const count = (this.failures.get(ip) ?? 0) + 1;
+    this.failures.set(ip, count);
+    if (count === limit + 1) {
+      getLogger('audit').warn(
+        { ip, limit },
+        'Audit failure limit reached; further failures from this client are not recorded this minute'
+      );
+    }
+    return count <= limit;
+  }
+
+  /**
+   * One page of entries matching `filter`, newest first
+   */
+  async query(
+    filter: AuditFilter,
+    options: AuditQueryOptions & { limit: number }
+  ): Promise<AuditPage> {
+    // One extra entry tells whether there is another page
+    const entries = await this.store.query(filter, { ...options, limit: options.limit + 1 });
+    const page = entries.slice(0, options.limit);
+    return {
+      entries: page,
+      nextCursor: entries.length > options.limit ? page.at(-1)?.sequence : undefined,
+    };
+  }
+
+  /**
+   * Every entry matching `filter`, oldest first, as JSON lines
+   */
+  async exportJsonl(filter: AuditFilter = {}): Promise<string> {
+    const entries = [...(await this.store.query(filter))].reverse();
+    return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+  }
+
+  /**
+   * Verify the whole chain
+   */
+  async verify(): Promise<AuditVerification> {
+    return verifyAuditChain([...(await this.store.query({}))].reverse());
+  }
+
+  private describeRequest({ request, server }: AuditSource) {
+    const ip = getClientIp(request, server, this.options.trustProxy);
+    const traceId = getRequestTraceId(request);
+    return {
+      request_id: getRequestContext(request).requestId,
+      ...(traceId && { trace_id: traceId }),
+      ...(ip && { ip }),
+      method: request.method,
+      path: new URL(request.url).pathname,
+    };
+  }
+}
+
+let auditLog: AuditLog | undefined;
+
+/**
+ * Get the process-wide audit log
+ */
+export function getAuditLog(config: Pick<AppConfig, 'app' | 'audit'> = getConfig()): AuditLog {
+  auditLog ??= new AuditLog(
+    config.audit.file ? new FileAuditStore(config.audit.file) : new MemoryAuditStore(),
+    { trustProxy: config.app.trustProxy, failureLimit: config.audit.failureLimit }
+  );
+  return auditLog;
+}
@@ -0,0 +1,177 @@
+/**
+ * Authentication
+ *
+ * Resolves the caller of every request from its credentials:
+ * - Authenticators (bearer JWTs, see jwt.ts, and API keys, see api-keys.ts)
+ *   are tried in order; the first to recognise the credentials yields the
+ *   principal, invalid credentials fail the request with 401 through the
+ *   global error handler
+ * - The principal is exposed as `ctx.principal`; its identity is bound to the
+ *   request logger and span, and its subject is added to the async context so
+ *   background log lines carry `user_id`
+ * - Routes declared with `authenticated: true` reject anonymous requests and
+ *   are documented with the authenticators' security schemes in the OpenAPI
+ *   document (see authorization.ts for what callers may do)
+ * - Rejected credentials are recorded in the audit log
+ */
+
+import { Elysia } from 'elysia';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import { UnauthorizedError } from './errors.js';
+import type { AuditLog } from './audit.js';
+import { updateAsyncContext } from './async-context.js';
+import { getRequestContext } from './request-context.js';
+import { getRequestSpan } from './tracing.js';
+
+/**
+ * An authenticated caller
+ */
+export interface Principal {
+  /** How the caller authenticated */
+  type: 'jwt' | 'api-key';
+  /** Stable identifier of the caller (the `sub` claim for JWTs, the key ID for API keys) */
+  subject: string;
+  scopes: readonly string[];
+  roles: readonly string[];
+  /** Verified claims the principal was built from */
+  claims: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * A way of presenting credentials
+ */
+export interface Authenticator {
+  /** OpenAPI security scheme the credentials are documented as */
+  scheme: { name: string; definition: OpenAPIV3_1.SecuritySchemeObject };
+  /**
+   * Resolve the principal from a request's credentials
+   * Returns undefined when the request carries no credentials this authenticator
+   * handles, and throws UnauthorizedError when they are present but invalid
+   */
+  authenticate(request: Request): Promise<Principal | undefined>;
+}
+
+const principals = new WeakMap<Request, Principal>();
+
+/**
+ * Extract the token from a `Bearer` Authorization header
+ */
+export function bearerToken(header: string | null): string | undefined {
+  const token = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return token || undefined;
+}
+
+/**
+ * Principal of an authenticated request
+ */
+export function getRequestPrincipal(request: Request): Principal | undefined {
+  return principals.get(request);
+}
+
+/**
+ * Challenge sent with 401 responses (RFC 6750)
+ */
+export function bearerChallenge(error?: { code: string; description: string }): string {
+  return error
+    ? `Bearer realm="api", error="${error.code}", error_description="${error.description}"`
+    : 'Bearer realm="api"';
+}
+
+/**
+ * 401 for credentials that are present but not acceptable
+ */
+export function invalidCredentials(description: string): UnauthorizedError {
+  return new UnauthorizedError(description, {
+    headers: { 'www-authenticate': bearerChallenge({ code: 'invalid_token', description }) },
+  });
+}
+
+/**
+ * Principal of a request, or a 401 challenge when it is anonymous
+ */
+export function requirePrincipal(request: Request): Principal {
+  const principal = principals.get(request);
+  if (!principal) {
+    throw new UnauthorizedError('Authentication is required', {
+      headers: { 'www-authenticate': bearerChallenge() },
+    });
+  }
+  return principal;
+}
+
+/**
+ * OpenAPI security requirement met by any one of the authenticators
+ */
+export function securityRequirements(
+  authenticators: readonly Authenticator[]
+): OpenAPIV3_1.SecurityRequirementObject[] {
+  return authenticators.map(({ scheme }) => ({ [scheme.name]: [] }));
+}
+
+// Identify the caller on the request's log lines and server span
+function attachIdentity(request: Request, principal: Principal): void {
+  getRequestContext(request).log.setBindings({
+    auth_type: principal.type,
+    ...(principal.type === 'api-key' && { api_key_id: principal.subject }),
+  });
+  getRequestSpan(request)?.setAttributes({
+    'enduser.id': principal.subject,
+    'auth.type': principal.type,
+  });
+  updateAsyncContext({ userId: principal.subject });
+}
+
+async function authenticate(
+  request: Request,
+  authenticators: readonly Authenticator[]
+): Promise<Principal | undefined> {
+  for (const authenticator of authenticators) {
+    const principal = await authenticator.authenticate(request);
+    if (principal) {
+      principals.set(request, principal);
+      attachIdentity(request, principal);
+      return principal;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Elysia plugin resolving `principal` for every request
+ */
+export function authentication(authenticators: readonly Authenticator[], audit?: AuditLog) {
+  const security = securityRequirements(authenticators);
+
+  return new Elysia({ name: 'authentication' })
+    .derive({ as: 'global' }, async ({ request, server }) => {
+      try {
+        return { principal: await authenticate(request, authenticators) };
+      } catch (error) {
+        if (audit && error instanceof UnauthorizedError) {
+          await audit.tryRecord(
+            {
+              action: 'authentication.failed',
+              actor: { type: 'anonymous' },
+              outcome: 'failure',
+              ...(error.detail && { reason: error.detail }),
+            },
+            { request, server }
+          );
+        }
+        throw error;
+      }
+    })
+    .macro(({ onBeforeHandle, events }) => ({
+      authenticated(required: boolean) {
+        if (!required) return;
+        onBeforeHandle(({ request }) => {
+          requirePrincipal(request);
+        });
+        // Macros cannot declare `detail`; document the requirement on the route directly
+        if (security.length > 0) {
+          const route = events.local as { detail?: Record<string, unknown> };
+          route.detail = { security, ...route.detail };
+        }
+      },
+    }));
+}
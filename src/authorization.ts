@@ -0,0 +1,179 @@
+/**
+ * Authorization
+ *
+ * Declarative per-route policies deciding what an authenticated caller may do:
+ * - `requireScopes` needs every listed scope, `requireRole` any listed role,
+ *   `requireOwnership` the caller to own the resource; `anyOf` combines them
+ * - Policies run in the beforeHandle phase, after validation, so ownership
+ *   checks can use the route's params; every policy must allow the request
+ * - Anonymous callers get 401, denied callers a 403 problem response naming
+ *   the unmet requirement, both through the global error handler
+ * - Every denial is written to the `audit` logger and recorded in the audit log
+ * - Authorized routes are documented with the authenticators' security schemes
+ *   and their 403 response in the OpenAPI document
+ *
+ * Usage:
+ *   app.delete('/items/:id', removeItem, {
+ *     authorize: [requireScopes('items:write'), anyOf(requireRole('admin'), requireOwnership(itemOwner))],
+ *   })
+ */
+
+import { Elysia } from 'elysia';
+import { ForbiddenError, PROBLEM_CONTENT_TYPE } from './errors.js';
+import { getLogger } from './logger.js';
+import type { AuditLog } from './audit.js';
+import type { PeerAddressSource } from './request-context.js';
+import {
+  requirePrincipal,
+  securityRequirements,
+  type Authenticator,
+  type Principal,
+} from './auth.js';
+
+/**
+ * What a policy can base its decision on
+ */
+export interface PolicyContext {
+  principal: Principal;
+  request: Request;
+  /** Validated path parameters of the route */
+  params: Readonly<Record<string, unknown>>;
+}
+
+export interface Policy {
+  /** What the policy requires (e.g. "scope items:write"), named in 403 responses */
+  description: string;
+  allows(context: PolicyContext): boolean | Promise<boolean>;
+}
+
+/**
+ * Allow callers holding every one of `scopes`
+ */
+export function requireScopes(...scopes: string[]): Policy {
+  return {
+    description: `${scopes.length === 1 ? 'scope' : 'scopes'} ${scopes.join(', ')}`,
+    allows: ({ principal }) => scopes.every((scope) => principal.scopes.includes(scope)),
+  };
+}
+
+/**
+ * Allow callers holding any one of `roles`
+ */
+export function requireRole(...roles: string[]): Policy {
+  return {
+    description: `role ${roles.join(' or ')}`,
+    allows: ({ principal }) => roles.some((role) => principal.roles.includes(role)),
+  };
+}
+
+/**
+ * Allow callers whose subject owns the resource
+ * `owner` resolves the owning subject, e.g. by loading the resource named in the params.
+ */
+export function requireOwnership(
+  owner: (context: PolicyContext) => string | undefined | Promise<string | undefined>,
+  resource = 'the resource'
+): Policy {
+  return {
+    description: `ownership of ${resource}`,
+    allows: async (context) => (await owner(context)) === context.principal.subject,
+  };
+}
+
+/**
+ * Allow callers that satisfy at least one of `policies`
+ */
+export function anyOf(...policies: Policy[]): Policy {
+  return {
+    description: policies.map((policy) => policy.description).join(' or '),
+    allows: async (context) => {
+      for (const policy of policies) {
+        if (await policy.allows(context)) return true;
+      }
+      return false;
+    },
+  };
+}
+
+/**
+ * First of `policies` that does not allow the request, if any
+ * Exported for testing
+ */
+export async function deniedBy(
+  policies: readonly Policy[],
+  context: PolicyContext
+): Promise<Policy | undefined> {
+  for (const policy of policies) {
+    if (!(await policy.allows(context))) return policy;
+  }
+  return undefined;
+}
+
+async function recordDenial(
+  { request, server, route }: { request: Request; server: PeerAddressSource | null; route: string },
+  principal: Principal,
+  policy: Policy,
+  audit: AuditLog | undefined
+) {
+  getLogger('audit').warn(
+    {
+      event: 'authorization.denied',
+      auth_type: principal.type,
+      subject: principal.subject,
+      method: request.method,
+      route,
+      requirement: policy.description,
+    },
+    'Authorization denied'
+  );
+  await audit?.tryRecord(
+    {
+      action: 'authorization.denied',
+      actor: { type: principal.type, id: principal.subject },
+      resource: { type: 'route', id: `${request.method} ${route}` },
+      outcome: 'denied',
+      reason: `Requires ${policy.description}`,
+    },
+    { request, server }
+  );
+}
+
+/**
+ * Elysia plugin adding the `authorize` route option
+ */
+export function authorization(authenticators: readonly Authenticator[], audit?: AuditLog) {
+  const security = securityRequirements(authenticators);
+
+  return new Elysia({ name: 'authorization' }).macro(({ onBeforeHandle, events }) => ({
+    authorize(policy: Policy | readonly Policy[]) {
+      const policies = 'allows' in policy ? [policy] : policy;
+
+      onBeforeHandle(async ({ request, params, route, server }) => {
+        const principal = requirePrincipal(request);
+        const denied = await deniedBy(policies, { principal, request, params });
+        if (denied) {
+          await recordDenial({ request, server, route }, principal, denied, audit);
+          throw new ForbiddenError(`Requires ${denied.description}`);
+        }
+      });
+
+      // Macros cannot declare `detail`; document the requirements on the route directly
+      const route = events.local as {
+        detail?: { responses?: Record<string, unknown> } & Record<string, unknown>;
+      };
+      route.detail = {
+        ...(security.length > 0 && { security }),
+        ...route.detail,
+        responses: {
+          403: {
+            description: `Requires ${policies.map(({ description }) => description).join(' and ')}`,
+            content: {
+              [PROBLEM_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/Problem' } },
+            },
+          },
+          ...route.detail?.responses,
+        },
+      };
+    },
+  }));
+}
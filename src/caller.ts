@@ -0,0 +1,201 @@
+/**
+ * Caller Location
+ *
+ * Finds the application code behind a log call, for the `caller` log field:
+ * - The stack is captured with Error.captureStackTrace, bounded to a few frames;
+ *   when the pino method writing the line is known, capture starts below it,
+ *   where a single frame is usually the caller
+ * - Runtimes supporting Error.prepareStackTrace hand over structured call sites;
+ *   elsewhere the stack string is parsed, one line at a time
+ * - Parsed frames and formatted locations are cached per call site
+ * - Bundles (dist/ and the compiled server binary) are built with source maps,
+ *   which Bun applies to call sites, so locations point at the original sources
+ */
+
+/** A stack frame position, with 1-based line and column */
+export interface StackFrame {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** The parts of a V8-style structured call site used here */
+export interface CallSite {
+  getFileName(): string | null | undefined;
+  getLineNumber(): number | null;
+  getColumnNumber(): number | null;
+}
+
+/** Captured frames: call sites, or the lines of a stack string */
+export type Stack = readonly CallSite[] | readonly string[];
+
+/** A function whose caller is looked up, such as the pino method writing a line */
+export type CalledFunction = (...args: never[]) => unknown;
+
+// Enough to get from the capturing function through pino's frames to the caller
+const MAX_FRAMES = 10;
+
+// Caches are cleared rather than evicted entry by entry once they reach this size
+const MAX_CACHED = 1000;
+
+// pino's own frames, installed in node_modules or Bun's global package cache
+const LOGGING_FRAME = /[/\\]pino[/@\\]/;
+const LIBRARY_FRAME = /[/\\]node_modules[/\\]/;
+
+// Frames without a source file, e.g. `[native code]` or `[unknown]` for native callers of a callback
+const NON_SOURCE_FRAME = /^\[.*\]$|^<.*>$/;
+
+const STACK_LINE = /\((.+):(\d+):(\d+)\)$|at (.+):(\d+):(\d+)$/;
+
+const parsedLines = new Map<string, StackFrame | null>();
+const locations = new Map<string, string>();
+
+function remember<V>(cache: Map<string, V>, key: string, value: V): V {
+  if (cache.size >= MAX_CACHED) cache.clear();
+  cache.set(key, value);
+  return value;
+}
+
+/**
+ * Parse filename from full path
+ * Exported for testing
+ */
+export function parseFileName(filePath: string | undefined): string {
+  if (!filePath) return 'unknown';
+  const fileName = filePath.split('/').pop();
+  return fileName || 'unknown';
+}
+
+/**
+ * Parse one line of a stack string, e.g. `at fn (/app/src/file.ts:12:5)`
+ * Exported for testing
+ */
+export function parseStackLine(line: string): StackFrame | null {
+  const cached = parsedLines.get(line);
+  if (cached !== undefined) return cached;
+
+  const match = line.match(STACK_LINE);
+  const file = match?.[1] ?? match?.[4];
+  const frame = file
+    ? {
+        file,
+        line: Number(match?.[2] ?? match?.[5]),
+        column: Number(match?.[3] ?? match?.[6]),
+      }
+    : null;
+  return remember(parsedLines, line, frame);
+}
+
+function toFrame(site: CallSite): StackFrame | null {
+  const file = site.getFileName();
+  return file
+    ? { file, line: site.getLineNumber() ?? 0, column: site.getColumnNumber() ?? 0 }
+    : null;
+}
+
+function frameAt(stack: Stack, index: number) {
+  const entry = stack.at(index);
+  if (entry === undefined) return null;
+  const frame = typeof entry === 'string' ? parseStackLine(entry) : toFrame(entry);
+  return frame && !NON_SOURCE_FRAME.test(frame.file) ? frame : null;
+}
+
+/**
+ * Pick the frame that made the log call
+ *
+ * That is the first source frame below pino's outermost frame; when pino is
+ * not on the stack (a direct call), the first source frame outside node_modules.
+ * Native frames are skipped, so a log call tail called from a callback is
+ * attributed to the code that passed the callback.
+ * Exported for testing
+ */
+export function selectCallerFrame(stack: Stack): StackFrame | undefined {
+  let lastLoggingFrame = -1;
+  let firstAppFrame: StackFrame | undefined;
+
+  for (let index = 0; index < stack.length; index++) {
+    const frame = frameAt(stack, index);
+    if (!frame) continue;
+    if (LOGGING_FRAME.test(frame.file)) {
+      lastLoggingFrame = index;
+    } else if (!firstAppFrame && !LIBRARY_FRAME.test(frame.file)) {
+      firstAppFrame = frame;
+    }
+  }
+
+  if (lastLoggingFrame === -1) return firstAppFrame;
+  for (let index = lastLoggingFrame + 1; index < stack.length; index++) {
+    const frame = frameAt(stack, index);
+    if (frame) return frame;
+  }
+  return undefined;
+}
+
+/**
+ * Format a frame as `file.ts:line`, once per call site
+ */
+export function formatLocation(frame: StackFrame): string {
+  const key = `${frame.file}:${frame.line}`;
+  return (
+    locations.get(key) ?? remember(locations, key, `${parseFileName(frame.file)}:${frame.line}`)
+  );
+}
+
+// Hands the call sites over unformatted
+function structuredStack(_error: Error, sites: CallSite[]): CallSite[] {
+  return sites;
+}
+
+// Capture the stack below the topmost call to `below`, at most `limit` frames;
+// empty when `below` is not on the stack
+function captureBelow(below: CalledFunction, limit: number): Stack | undefined {
+  const holder: { stack?: unknown } = {};
+  const { prepareStackTrace, stackTraceLimit } = Error;
+
+  Error.prepareStackTrace = structuredStack;
+  Error.stackTraceLimit = limit;
+  try {
+    Error.captureStackTrace(holder, below);
+    // The stack is materialized on first access, while the settings above apply
+    const stack = holder.stack;
+    if (Array.isArray(stack)) return stack as CallSite[];
+    // Without prepareStackTrace support: drop the "Error" header line
+    return typeof stack === 'string' ? stack.split('\n').slice(1) : undefined;
+  } finally {
+    Error.prepareStackTrace = prepareStackTrace;
+    Error.stackTraceLimit = stackTraceLimit;
+  }
+}
+
+/**
+ * Capture the stack of the calling function, minus its innermost `skipFrames`
+ * frames, as call sites where supported
+ * Returns undefined when the runtime provides no stack
+ */
+export function captureStack(skipFrames = 0): Stack | undefined {
+  // Frames are skipped by count: a function passed to captureBelow is missing
+  // from the stack altogether when it was tail called
+  const stack = captureBelow(captureStack, MAX_FRAMES + skipFrames);
+  return stack?.slice(skipFrames);
+}
+
+/**
+ * Find the frame that called `logMethod`, the pino method writing a log line
+ *
+ * Capturing only the frames below the method is much cheaper than capturing
+ * through pino. A native first frame (a log call tail called from a callback)
+ * is looked past with a deeper capture. Undefined when the method is not on
+ * the stack, e.g. because it was tail called itself.
+ */
+export function findLogCaller(logMethod: CalledFunction): StackFrame | undefined {
+  for (const limit of [1, MAX_FRAMES]) {
+    const stack = captureBelow(logMethod, limit);
+    if (!stack) return undefined;
+    for (let index = 0; index < stack.length; index++) {
+      const frame = frameAt(stack, index);
+      if (frame) return frame;
+    }
+    if (stack.length < limit) return undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,1341 @@
+/**
+ * Typed Application Configuration
+ *
+ * Single source of truth for every setting the service reads at boot:
+ * - Declarative schema (type, default, description) for each key
+ * - Layered sources: schema defaults < config file (JSON/TOML) < .env files < process env
+ * - Validation that reports every invalid or missing key at once
+ * - A frozen, typed `AppConfig` object consumed by the app, logger and telemetry
+ * - `.env.example` rendered from the same schema so documentation never drifts
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { extname, isAbsolute, join } from 'path';
+
+/**
+ * Schema field definitions
+ */
+interface BaseField {
+  description: string;
+  group: string;
+  required?: boolean;
+  /** Alternative keys consulted when the primary key is unset (e.g. npm_package_name) */
+  aliases?: readonly string[];
+  /** Value shown (commented out) in .env.example when there is no default */
+  example?: string;
+}
+
+interface StringField extends BaseField {
+  type: 'string';
+  default?: string;
+}
+
+interface UrlField extends BaseField {
+  type: 'url';
+  default?: string;
+}
+
+interface ListField extends BaseField {
+  type: 'list';
+  default?: readonly string[];
+}
+
+/** Comma-separated `key=value` pairs with percent-encoded values, as in OTEL_RESOURCE_ATTRIBUTES */
+interface MapField extends BaseField {
+  type: 'map';
+  default?: Readonly<Record<string, string>>;
+}
+
+interface IntegerField extends BaseField {
+  type: 'integer';
+  default?: number;
+  min?: number;
+  max?: number;
+}
+
+interface NumberField extends BaseField {
+  type: 'number';
+  default?: number;
+  min?: number;
+  max?: number;
+}
+
+interface BooleanField extends BaseField {
+  type: 'boolean';
+  default?: boolean;
+}
+
+interface EnumField extends BaseField {
+  type: 'enum';
+  values: readonly string[];
+  default?: string;
+}
+
+export type ConfigField =
+  | StringField
+  | UrlField
+  | ListField
+  | MapField
+  | IntegerField
+  | NumberField
+  | BooleanField
+  | EnumField;
+
+export type ConfigSchema = Record<string, ConfigField>;
+
+type FieldValue<F> = F extends { type: 'integer' | 'number' }
+  ? number
+  : F extends { type: 'boolean' }
+    ? boolean
+    : F extends { type: 'enum'; values: readonly (infer V)[] }
+      ? V
+      : F extends { type: 'list' }
+        ? readonly string[]
+        : F extends { type: 'map' }
+          ? Readonly<Record<string, string>>
+          : string;
+
+/**
+ * Parsed values keyed by schema key; keys without default or `required` may be undefined
+ */
+export type ConfigValues<S extends ConfigSchema> = {
+  [K in keyof S]: S[K] extends { default: unknown } | { required: true }
+    ? FieldValue<S[K]>
+    : FieldValue<S[K]> | undefined;
+};
+
+/**
+ * Configuration schema for this service
+ */
+export const configSchema = {
+  // Application
+  NODE_ENV: {
+    type: 'enum',
+    values: ['development', 'test', 'staging', 'production'],
+    default: 'development',
+    description: 'Runtime environment',
+    group: 'Application',
+  },
+  PORT: {
+    type: 'integer',
+    min: 1,
+    max: 65535,
+    default: 3000,
+    description: 'HTTP port the server listens on',
+    group: 'Application',
+  },
+  TRUST_PROXY: {
+    type: 'boolean',
+    default: false,
+    description: 'Trust X-Forwarded-For for the client IP (enable only behind a proxy)',
+    group: 'Application',
+  },
+  CONFIG_FILE: {
+    type: 'string',
+    description: 'Optional JSON or TOML file with configuration values (keys as below)',
+    group: 'Application',
+    example: './config.toml',
+  },
+
+  // Logging
+  LOG_LEVEL: {
+    type: 'enum',
+    values: ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'],
+    default: 'info',
+    description: 'Minimum log level',
+    group: 'Logging',
+  },
+  LOG_INCLUDE_LOCATION: {
+    type: 'boolean',
+    default: true,
+    description: 'Include caller file:line in every log line',
+    group: 'Logging',
+  },
+  LOG_LOCATION_LEVEL: {
+    type: 'enum',
+    values: ['trace', 'debug', 'info', 'warn', 'error', 'fatal'],
+    default: 'trace',
+    description:
+      'Lowest level whose lines carry the caller location, e.g. warn to skip it on hot paths',
+    group: 'Logging',
+  },
+  LOG_MODULE_LEVELS: {
+    type: 'map',
+    description: 'Per-module base levels for getLogger(name), overriding LOG_LEVEL',
+    group: 'Logging',
+    example: 'http=warn,llm=debug',
+  },
+  LOG_DEBUG_SIGNAL_TTL_MS: {
+    type: 'integer',
+    min: 0,
+    default: 600000,
+    description:
+      'How long SIGUSR2 debug logging lasts before reverting (0 = until the next signal)',
+    group: 'Logging',
+  },
+  LOG_REDACT_PATHS: {
+    type: 'list',
+    default: [],
+    description:
+      'Extra comma-separated pino redact paths (e.g. body.ssn,*.pin) added to the defaults',
+    group: 'Logging',
+  },
+  LOG_REDACT_PATTERNS: {
+    type: 'boolean',
+    default: true,
+    description: 'Scrub values that look like bearer tokens, API keys, emails or card numbers',
+    group: 'Logging',
+  },
+  LOG_QUERY_PARAM_ALLOWLIST: {
+    type: 'list',
+    default: [],
+    description: 'Query parameters logged verbatim; when set, all others are redacted',
+    group: 'Logging',
+    example: 'page,limit,sort',
+  },
+  LOG_QUERY_PARAM_DENYLIST: {
+    type: 'list',
+    default: [
+      'token',
+      'access_token',
+      'refresh_token',
+      'id_token',
+      'api_key',
+      'apikey',
+      'key',
+      'secret',
+      'password',
+      'code',
+      'signature',
+      'sig',
+    ],
+    description: 'Query parameters always redacted from logged URLs',
+    group: 'Logging',
+  },
+  OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: {
+    type: 'url',
+    description: 'OTLP logs endpoint; log records are also exported there when set',
+    group: 'Logging',
+    example: 'https://your-otel-collector:4318/v1/logs',
+  },
+  OTEL_BLRP_SCHEDULE_DELAY: {
+    type: 'integer',
+    min: 1,
+    default: 1000,
+    description: 'Milliseconds between batched OTLP log exports',
+    group: 'Logging',
+  },
+
+  // Access log
+  ACCESS_LOG_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Emit one access log line per request',
+    group: 'Access Log',
+  },
+  ACCESS_LOG_FORMAT: {
+    type: 'enum',
+    values: ['json', 'common', 'combined'],
+    default: 'json',
+    description: 'Structured JSON via the logger, or Common/Combined Log Format lines on stdout',
+    group: 'Access Log',
+  },
+  ACCESS_LOG_SAMPLE_RATE: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    default: 1,
+    description: 'Fraction of successful requests to log (4xx/5xx are always logged)',
+    group: 'Access Log',
+  },
+  ACCESS_LOG_EXCLUDE_PATHS: {
+    type: 'list',
+    default: ['/health', '/ready', '/livez', '/startupz', '/readyz', '/metrics'],
+    description: 'Comma-separated paths never written to the access log',
+    group: 'Access Log',
+  },
+
+  // Metrics
+  METRICS_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Collect HTTP and process metrics',
+    group: 'Metrics',
+  },
+  METRICS_PATH: {
+    type: 'string',
+    default: '/metrics',
+    description: 'Path serving metrics in Prometheus text exposition format',
+    group: 'Metrics',
+  },
+  OTEL_EXPORTER_OTLP_METRICS_ENDPOINT: {
+    type: 'url',
+    description: 'OTLP/HTTP metrics endpoint; metrics are also pushed when set',
+    group: 'Metrics',
+    example: 'https://your-otel-collector:4318/v1/metrics',
+  },
+  OTEL_METRIC_EXPORT_INTERVAL: {
+    type: 'integer',
+    min: 1000,
+    default: 60000,
+    description: 'Interval in milliseconds between OTLP metric pushes',
+    group: 'Metrics',
+  },
+
+  // API documentation
+  OPENAPI_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Serve the OpenAPI document at /openapi.json and the API reference at /docs',
+    group: 'API Documentation',
+  },
+
+  // Admin
+  ADMIN_TOKEN: {
+    type: 'string',
+    description: 'Bearer token for the /admin endpoints; they are disabled when unset',
+    group: 'Admin',
+    example: 'change-me-to-a-long-random-string',
+  },
+
+  // Authentication
+  JWT_JWKS_URL: {
+    type: 'url',
+    description: 'JWKS endpoint of the token issuer; keys are cached and refetched on rotation',
+    group: 'Authentication',
+    example: 'https://auth.example.com/.well-known/jwks.json',
+  },
+  JWT_JWKS_CACHE_TTL_MS: {
+    type: 'integer',
+    min: 1000,
+    default: 600000,
+    description: 'How long fetched JWKS keys are trusted before the endpoint is read again',
+    group: 'Authentication',
+  },
+  JWT_JWKS_COOLDOWN_MS: {
+    type: 'integer',
+    min: 0,
+    default: 30000,
+    description: 'Minimum time between JWKS refetches triggered by an unknown key ID',
+    group: 'Authentication',
+  },
+  JWT_KEY_FILES: {
+    type: 'list',
+    default: [],
+    description:
+      'Comma-separated local verification keys: PEM public keys (.pem) or JWKS files (.json)',
+    group: 'Authentication',
+    example: './keys/issuer.pem',
+  },
+  JWT_SECRET: {
+    type: 'string',
+    description: 'Shared secret for HS256 tokens',
+    group: 'Authentication',
+  },
+  JWT_ISSUER: {
+    type: 'string',
+    description: 'Required `iss` claim; any issuer is accepted when unset',
+    group: 'Authentication',
+    example: 'https://auth.example.com/',
+  },
+  JWT_AUDIENCE: {
+    type: 'list',
+    default: [],
+    description: 'Comma-separated accepted `aud` values; any audience is accepted when empty',
+    group: 'Authentication',
+  },
+  JWT_ALGORITHMS: {
+    type: 'list',
+    default: ['RS256', 'ES256', 'HS256'],
+    description: 'Comma-separated accepted signing algorithms (RS256, ES256, HS256)',
+    group: 'Authentication',
+  },
+  JWT_CLOCK_SKEW_SECONDS: {
+    type: 'integer',
+    min: 0,
+    max: 300,
+    default: 30,
+    description: 'Tolerance for clock differences when checking exp and nbf',
+    group: 'Authentication',
+  },
+  API_KEYS_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Accept API keys issued through the /admin/api-keys endpoints',
+    group: 'Authentication',
+  },
+  API_KEY_PREFIX: {
+    type: 'string',
+    default: 'sk',
+    description: 'Visible prefix of generated API keys (lowercase letters and digits)',
+    group: 'Authentication',
+  },
+  API_KEY_HEADER: {
+    type: 'string',
+    default: 'x-api-key',
+    description: 'Header carrying API keys; `Authorization: Bearer <key>` is accepted too',
+    group: 'Authentication',
+  },
+  API_KEY_ROTATION_OVERLAP_SECONDS: {
+    type: 'integer',
+    min: 0,
+    default: 86400,
+    description: 'How long a rotated API key keeps working alongside its successor',
+    group: 'Authentication',
+  },
+
+  // Rate Limiting
+  RATE_LIMIT_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Limit how many requests each client may make (429 when exceeded)',
+    group: 'Rate Limiting',
+  },
+  RATE_LIMIT_ALGORITHM: {
+    type: 'enum',
+    values: ['token-bucket', 'sliding-window'],
+    default: 'token-bucket',
+    description: 'token-bucket allows bursts refilled evenly; sliding-window caps any window',
+    group: 'Rate Limiting',
+  },
+  RATE_LIMIT_REQUESTS: {
+    type: 'integer',
+    min: 1,
+    default: 100,
+    description: 'Requests each client may make per window (the burst size of a token bucket)',
+    group: 'Rate Limiting',
+  },
+  RATE_LIMIT_WINDOW_MS: {
+    type: 'integer',
+    min: 1000,
+    default: 60000,
+    description: 'Length of the rate limit window',
+    group: 'Rate Limiting',
+  },
+  RATE_LIMIT_KEY: {
+    type: 'enum',
+    values: ['client', 'api-key', 'user', 'ip'],
+    default: 'client',
+    description:
+      'What identifies a client: client is the API key or user when authenticated; others fall back to the IP',
+    group: 'Rate Limiting',
+  },
+
+  // CORS
+  CORS_ORIGINS: {
+    type: 'list',
+    default: [],
+    description: 'Origins allowed to call the API from browsers (* for any); empty disables CORS',
+    group: 'CORS',
+    example: 'https://app.example.com,https://admin.example.com',
+  },
+  CORS_CREDENTIALS: {
+    type: 'boolean',
+    default: false,
+    description: 'Allow browsers to send cookies and credentials (requires explicit origins)',
+    group: 'CORS',
+  },
+  CORS_MAX_AGE_SECONDS: {
+    type: 'integer',
+    min: 0,
+    default: 600,
+    description: 'How long browsers may cache preflight responses',
+    group: 'CORS',
+  },
+
+  // Security Headers
+  SECURITY_HEADERS_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Send HSTS, CSP, X-Content-Type-Options, Referrer-Policy and X-Frame-Options',
+    group: 'Security Headers',
+  },
+  HSTS_MAX_AGE_SECONDS: {
+    type: 'integer',
+    min: 0,
+    default: 31536000,
+    description: 'Strict-Transport-Security max-age, including subdomains (0 disables HSTS)',
+    group: 'Security Headers',
+  },
+  CONTENT_SECURITY_POLICY: {
+    type: 'string',
+    default: "default-src 'none'; frame-ancestors 'none'",
+    description: 'Content-Security-Policy of API responses (/docs uses its own policy)',
+    group: 'Security Headers',
+  },
+  REFERRER_POLICY: {
+    type: 'enum',
+    values: [
+      'no-referrer',
+      'no-referrer-when-downgrade',
+      'origin',
+      'origin-when-cross-origin',
+      'same-origin',
+      'strict-origin',
+      'strict-origin-when-cross-origin',
+      'unsafe-url',
+    ],
+    default: 'no-referrer',
+    description: 'Referrer-Policy of every response',
+    group: 'Security Headers',
+  },
+  FRAME_OPTIONS: {
+    type: 'enum',
+    values: ['DENY', 'SAMEORIGIN'],
+    default: 'DENY',
+    description: 'X-Frame-Options of every response',
+    group: 'Security Headers',
+  },
+
+  // Request Limits
+  MAX_BODY_BYTES: {
+    type: 'integer',
+    min: 1,
+    default: 1048576,
+    description: 'Largest accepted request body; larger bodies get 413',
+    group: 'Request Limits',
+  },
+  MAX_HEADER_COUNT: {
+    type: 'integer',
+    min: 1,
+    default: 100,
+    description: 'Most request headers accepted; more get 431',
+    group: 'Request Limits',
+  },
+  REQUEST_BODY_TIMEOUT_MS: {
+    type: 'integer',
+    min: 0,
+    default: 10000,
+    description: 'Deadline for receiving a request body; slower uploads get 408 (0 disables)',
+    group: 'Request Limits',
+  },
+
+  // Audit
+  AUDIT_LOG_FILE: {
+    type: 'string',
+    description: 'JSONL file the audit trail is appended to; kept in memory only when unset',
+    group: 'Audit',
+    example: './data/audit.jsonl',
+  },
+  AUDIT_FAILURE_LIMIT: {
+    type: 'integer',
+    min: 0,
+    default: 20,
+    description:
+      'Authentication failures and authorization denials recorded per client IP per minute (0 for no limit)',
+    group: 'Audit',
+  },
+
+  // Readiness
+  READINESS_CHECK_TIMEOUT_MS: {
+    type: 'integer',
+    min: 1,
+    default: 2000,
+    description: 'Default timeout for each readiness dependency check',
+    group: 'Readiness',
+  },
+  READINESS_CACHE_TTL_MS: {
+    type: 'integer',
+    min: 0,
+    default: 5000,
+    description:
+      'How long readiness results are reused before checks run again (0 disables caching)',
+    group: 'Readiness',
+  },
+
+  // Shutdown
+  SHUTDOWN_TIMEOUT_MS: {
+    type: 'integer',
+    min: 1,
+    default: 30000,
+    description: 'Deadline for the whole graceful shutdown; exits non-zero when exceeded',
+    group: 'Shutdown',
+  },
+  SHUTDOWN_DRAIN_TIMEOUT_MS: {
+    type: 'integer',
+    min: 0,
+    default: 10000,
+    description: 'How long to wait for in-flight requests after the listener stops',
+    group: 'Shutdown',
+  },
+  SHUTDOWN_HOOK_TIMEOUT_MS: {
+    type: 'integer',
+    min: 1,
+    default: 5000,
+    description: 'Default timeout for each cleanup hook',
+    group: 'Shutdown',
+  },
+
+  // OpenTelemetry
+  OTEL_SERVICE_NAME: {
+    type: 'string',
+    default: 'ts-backend-template',
+    aliases: ['npm_package_name'],
+    description: 'Service name reported in logs and traces',
+    group: 'OpenTelemetry',
+  },
+  OTEL_SERVICE_VERSION: {
+    type: 'string',
+    default: '1.0.0',
+    aliases: ['npm_package_version'],
+    description: 'Service version reported in logs and traces',
+    group: 'OpenTelemetry',
+  },
+  OTEL_TRACING_ENABLED: {
+    type: 'boolean',
+    default: true,
+    description: 'Enable OpenTelemetry tracing',
+    group: 'OpenTelemetry',
+  },
+  OTEL_CONSOLE_EXPORTER: {
+    type: 'boolean',
+    default: false,
+    description: 'Export spans to the console (always on in development)',
+    group: 'OpenTelemetry',
+  },
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: {
+    type: 'url',
+    description: 'OTLP traces endpoint for production export',
+    group: 'OpenTelemetry',
+    example: 'https://your-otel-collector:4318/v1/traces',
+  },
+  OTEL_EXPORTER_OTLP_PROTOCOL: {
+    type: 'enum',
+    values: ['http/protobuf', 'http/json', 'grpc'],
+    default: 'http/protobuf',
+    description: 'Transport for OTLP trace, metric and log export',
+    group: 'OpenTelemetry',
+  },
+  OTEL_EXPORTER_OTLP_HEADERS: {
+    type: 'map',
+    description: 'Headers (gRPC metadata) sent with every OTLP export, e.g. for authentication',
+    group: 'OpenTelemetry',
+    example: 'authorization=Bearer%20your-token',
+  },
+  OTEL_EXPORTER_OTLP_COMPRESSION: {
+    type: 'enum',
+    values: ['none', 'gzip'],
+    default: 'none',
+    description: 'Compression applied to OTLP export payloads',
+    group: 'OpenTelemetry',
+  },
+  OTEL_EXPORTER_OTLP_TIMEOUT: {
+    type: 'integer',
+    min: 1,
+    default: 10000,
+    description: 'Milliseconds to wait for each OTLP export before giving up',
+    group: 'OpenTelemetry',
+  },
+  OTEL_TRACES_SAMPLER: {
+    type: 'enum',
+    values: [
+      'always_on',
+      'always_off',
+      'traceidratio',
+      'parentbased_always_on',
+      'parentbased_always_off',
+      'parentbased_traceidratio',
+    ],
+    default: 'parentbased_always_on',
+    description: 'Sampler for new traces; parentbased_* follow the inbound sampling decision',
+    group: 'OpenTelemetry',
+  },
+  OTEL_TRACES_SAMPLER_ARG: {
+    type: 'number',
+    min: 0,
+    max: 1,
+    default: 1,
+    description: 'Fraction of traces sampled by the traceidratio samplers',
+    group: 'OpenTelemetry',
+  },
+  OTEL_RESOURCE_ATTRIBUTES: {
+    type: 'map',
+    description: 'Extra resource attributes attached to exported traces, metrics and logs',
+    group: 'OpenTelemetry',
+    example: 'deployment.region=eu-west-1,team=platform',
+  },
+} as const satisfies ConfigSchema;
+
+export type Environment = (typeof configSchema.NODE_ENV.values)[number];
+export type LogLevel = (typeof configSchema.LOG_LEVEL.values)[number];
+export type LocationLevel = (typeof configSchema.LOG_LOCATION_LEVEL.values)[number];
+export type AccessLogFormat = (typeof configSchema.ACCESS_LOG_FORMAT.values)[number];
+export type OtlpProtocol = (typeof configSchema.OTEL_EXPORTER_OTLP_PROTOCOL.values)[number];
+export type OtlpCompression = (typeof configSchema.OTEL_EXPORTER_OTLP_COMPRESSION.values)[number];
+export type TracesSampler = (typeof configSchema.OTEL_TRACES_SAMPLER.values)[number];
+export type RateLimitAlgorithm = (typeof configSchema.RATE_LIMIT_ALGORITHM.values)[number];
+export type RateLimitKey = (typeof configSchema.RATE_LIMIT_KEY.values)[number];
+export type ReferrerPolicy = (typeof configSchema.REFERRER_POLICY.values)[number];
+export type FrameOptions = (typeof configSchema.FRAME_OPTIONS.values)[number];
+
+export const JWT_ALGORITHMS = ['RS256', 'ES256', 'HS256'] as const;
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+/**
+ * Typed configuration consumed by the rest of the application
+ */
+export interface AppConfig {
+  app: {
+    environment: Environment;
+    port: number;
+    trustProxy: boolean;
+  };
+  service: {
+    name: string;
+    version: string;
+    /** Extra attributes merged into the telemetry resource */
+    resourceAttributes: Readonly<Record<string, string>>;
+  };
+  log: {
+    level: LogLevel;
+    includeLocation: boolean;
+    /** Lowest level getting the caller location when includeLocation is on */
+    locationLevel: LocationLevel;
+    moduleLevels: Readonly<Record<string, LogLevel>>;
+    debugSignalTtlMs: number;
+    redaction: {
+      paths: readonly string[];
+      scrubPatterns: boolean;
+      queryAllowlist: readonly string[];
+      queryDenylist: readonly string[];
+    };
+    otlpEndpoint: string | undefined;
+    exportDelayMs: number;
+  };
+  accessLog: {
+    enabled: boolean;
+    format: AccessLogFormat;
+    sampleRate: number;
+    excludePaths: readonly string[];
+  };
+  metrics: {
+    enabled: boolean;
+    path: string;
+    otlpEndpoint: string | undefined;
+    exportIntervalMs: number;
+  };
+  openapi: {
+    enabled: boolean;
+  };
+  admin: {
+    token: string | undefined;
+  };
+  auth: {
+    jwt: {
+      jwksUrl: string | undefined;
+      jwksCacheTtlMs: number;
+      jwksCooldownMs: number;
+      keyFiles: readonly string[];
+      secret: string | undefined;
+      issuer: string | undefined;
+      audience: readonly string[];
+      algorithms: readonly JwtAlgorithm[];
+      clockSkewSeconds: number;
+    };
+    apiKeys: {
+      enabled: boolean;
+      prefix: string;
+      header: string;
+      rotationOverlapSeconds: number;
+    };
+  };
+  rateLimit: {
+    enabled: boolean;
+    algorithm: RateLimitAlgorithm;
+    requests: number;
+    windowMs: number;
+    key: RateLimitKey;
+  };
+  cors: {
+    origins: readonly string[];
+    credentials: boolean;
+    maxAgeSeconds: number;
+  };
+  securityHeaders: {
+    enabled: boolean;
+    hstsMaxAgeSeconds: number;
+    contentSecurityPolicy: string;
+    referrerPolicy: ReferrerPolicy;
+    frameOptions: FrameOptions;
+  };
+  limits: {
+    maxBodyBytes: number;
+    maxHeaderCount: number;
+    bodyTimeoutMs: number;
+  };
+  audit: {
+    file: string | undefined;
+    failureLimit: number;
+  };
+  readiness: {
+    checkTimeoutMs: number;
+    cacheTtlMs: number;
+  };
+  shutdown: {
+    timeoutMs: number;
+    drainTimeoutMs: number;
+    hookTimeoutMs: number;
+  };
+  otel: {
+    tracingEnabled: boolean;
+    consoleExporter: boolean;
+    tracesEndpoint: string | undefined;
+    sampler: TracesSampler;
+    samplerRatio: number;
+  };
+  otlp: {
+    protocol: OtlpProtocol;
+    headers: Readonly<Record<string, string>>;
+    compression: OtlpCompression;
+    timeoutMs: number;
+  };
+}
+
+/**
+ * A single problem found while validating configuration
+ */
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+/**
+ * Thrown when configuration fails validation; the message lists every issue
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      [
+        `Invalid configuration (${issues.length} issue${issues.length === 1 ? '' : 's'}):`,
+        ...issues.map((issue) => `  - ${issue.key}: ${issue.message}`),
+      ].join('\n')
+    );
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+type RawSource = Record<string, string | undefined>;
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'on']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'off']);
+
+/**
+ * Parse `key1=value1,key2=value2` as used by the OTEL_* map variables
+ * Values are percent-decoded; blank entries are dropped
+ */
+function parseKeyValuePairs(
+  raw: string
+): { value: Readonly<Record<string, string>> } | { error: string } {
+  const entries: [string, string][] = [];
+
+  for (const pair of raw.split(',')) {
+    if (!pair.trim()) continue;
+
+    const separator = pair.indexOf('=');
+    const key = pair.slice(0, Math.max(separator, 0)).trim();
+    if (separator <= 0 || !key) {
+      return { error: `expected comma-separated key=value pairs, received "${raw}"` };
+    }
+    try {
+      entries.push([key, decodeURIComponent(pair.slice(separator + 1).trim())]);
+    } catch {
+      return { error: `invalid percent-encoding in value for "${key}"` };
+    }
+  }
+
+  return { value: Object.fromEntries(entries) };
+}
+
+/**
+ * Parse a single raw value against its field definition
+ * Returns either the typed value or a human-readable problem description
+ */
+function parseField(
+  field: ConfigField,
+  raw: string
+):
+  | { value: string | number | boolean | readonly string[] | Readonly<Record<string, string>> }
+  | { error: string } {
+  const received = `received "${raw}"`;
+
+  switch (field.type) {
+    case 'string':
+      return { value: raw };
+    case 'list':
+      // Comma-separated; blank entries are dropped so `a,,b` and `a, b` both work
+      return {
+        value: raw
+          .split(',')
+          .map((item) => item.trim())
+          .filter(Boolean),
+      };
+    case 'map':
+      return parseKeyValuePairs(raw);
+    case 'url':
+      return URL.canParse(raw) ? { value: raw } : { error: `expected a valid URL, ${received}` };
+    case 'integer':
+    case 'number': {
+      const value = Number(raw);
+      const valid = field.type === 'integer' ? Number.isInteger(value) : Number.isFinite(value);
+      if (!valid || raw.trim() === '') {
+        return {
+          error: `expected ${field.type === 'integer' ? 'an integer' : 'a number'}, ${received}`,
+        };
+      }
+      if (
+        (field.min !== undefined && value < field.min) ||
+        (field.max !== undefined && value > field.max)
+      ) {
+        return {
+          error: `expected a value between ${field.min ?? '-∞'} and ${field.max ?? '∞'}, ${received}`,
+        };
+      }
+      return { value };
+    }
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return { value: true };
+      if (FALSE_VALUES.has(normalized)) return { value: false };
+      return { error: `expected a boolean (true/false, 1/0, yes/no, on/off), ${received}` };
+    }
+    case 'enum':
+      return field.values.includes(raw)
+        ? { value: raw }
+        : { error: `expected one of ${field.values.join(', ')}, ${received}` };
+  }
+}
+
+// Values of the keys that parsed, and an issue for each one that did not
+function parseFields<S extends ConfigSchema>(
+  schema: S,
+  source: RawSource
+): { values: Partial<ConfigValues<S>>; issues: ConfigIssue[] } {
+  const lookup = new Map(Object.entries(source));
+  const issues: ConfigIssue[] = [];
+  const entries: [string, unknown][] = [];
+
+  for (const [key, field] of Object.entries(schema)) {
+    // Empty strings are treated as unset so `FOO=` falls back to the default
+    const raw = [key, ...(field.aliases ?? [])]
+      .map((candidate) => lookup.get(candidate))
+      .find((value) => value !== undefined && value !== '');
+
+    if (raw === undefined) {
+      if (field.default !== undefined) {
+        entries.push([key, field.default]);
+      } else if (field.required) {
+        issues.push({ key, message: `missing required value (${field.description})` });
+      } else {
+        entries.push([key, undefined]);
+      }
+      continue;
+    }
+
+    const result = parseField(field, raw);
+    if ('error' in result) {
+      issues.push({ key, message: result.error });
+    } else {
+      entries.push([key, result.value]);
+    }
+  }
+
+  return { values: Object.fromEntries(entries) as Partial<ConfigValues<S>>, issues };
+}
+
+/**
+ * Validate a raw key/value source against a schema
+ * Collects every issue before throwing so operators can fix all of them in one go
+ * Exported for testing
+ */
+export function parseConfigValues<S extends ConfigSchema>(
+  schema: S,
+  source: RawSource
+): ConfigValues<S> {
+  const { values, issues } = parseFields(schema, source);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return values as ConfigValues<S>;
+}
+
+/**
+ * Parse the contents of a .env file
+ * Supports comments, `export` prefixes and single/double quoted values
+ * Exported for testing
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const entries: [string, string][] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const separator = line.indexOf('=');
+    if (separator <= 0) continue;
+
+    const key = line
+      .slice(0, separator)
+      .replace(/^export\s+/, '')
+      .trim();
+    let value = line.slice(separator + 1).trim();
+
+    const quote = value.at(0);
+    if ((quote === '"' || quote === "'") && value.endsWith(quote) && value.length >= 2) {
+      value = value.slice(1, -1);
+      if (quote === '"') value = value.replace(/\\n/g, '\n');
+    } else {
+      // Strip trailing inline comments from unquoted values
+      const comment = value.indexOf(' #');
+      if (comment !== -1) value = value.slice(0, comment).trim();
+    }
+
+    entries.push([key, value]);
+  }
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Parse a JSON or TOML configuration file into raw string values
+ * Keys are the same as environment variable names; non-string scalars are stringified
+ * Exported for testing
+ */
+export function parseConfigFile(content: string, format: 'json' | 'toml'): RawSource {
+  const parsed: unknown = format === 'toml' ? Bun.TOML.parse(content) : JSON.parse(content);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Configuration file must contain a top-level object');
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsed).map(([key, value]) => [
+      key,
+      value === undefined || value === null ? undefined : String(value),
+    ])
+  );
+}
+
+function readOptionalFile(path: string): string | undefined {
+  // Paths come from the working directory and CONFIG_FILE, never from request input
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  return existsSync(path) ? readFileSync(path, 'utf8') : undefined;
+}
+
+/**
+ * Options for loading configuration
+ */
+export interface LoadConfigOptions {
+  /** Process environment (highest precedence) */
+  env?: RawSource;
+  /** Directory used to resolve .env files and a relative CONFIG_FILE */
+  cwd?: string;
+  /** .env files to read, in increasing precedence; `false` disables .env loading */
+  envFiles?: readonly string[] | false;
+  /** Explicit config file path; defaults to CONFIG_FILE from env */
+  configFile?: string;
+}
+
+/**
+ * Default .env file cascade for an environment, in increasing precedence
+ */
+export function defaultEnvFiles(environment: string): string[] {
+  return ['.env', `.env.${environment}`, '.env.local', `.env.${environment}.local`];
+}
+
+/**
+ * Merge all configuration sources into a single raw key/value map
+ */
+function collectSources(options: LoadConfigOptions): RawSource {
+  const env = options.env ?? process.env;
+  const cwd = options.cwd ?? process.cwd();
+  const resolve = (path: string) => (isAbsolute(path) ? path : join(cwd, path));
+
+  const envFiles =
+    options.envFiles === false
+      ? []
+      : (options.envFiles ?? defaultEnvFiles(env.NODE_ENV || 'development'));
+  const fromEnvFiles = envFiles.reduce<RawSource>((merged, file) => {
+    const content = readOptionalFile(resolve(file));
+    return content === undefined ? merged : { ...merged, ...parseEnvFile(content) };
+  }, {});
+
+  const configFile = options.configFile ?? env.CONFIG_FILE ?? fromEnvFiles.CONFIG_FILE;
+  let fromConfigFile: RawSource = {};
+  if (configFile) {
+    const content = readOptionalFile(resolve(configFile));
+    if (content === undefined) {
+      throw new ConfigValidationError([
+        { key: 'CONFIG_FILE', message: `file not found: ${configFile}` },
+      ]);
+    }
+    try {
+      fromConfigFile = parseConfigFile(content, extname(configFile) === '.toml' ? 'toml' : 'json');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ConfigValidationError([
+        { key: 'CONFIG_FILE', message: `could not parse ${configFile}: ${reason}` },
+      ]);
+    }
+  }
+
+  return { ...fromConfigFile, ...fromEnvFiles, ...env };
+}
+
+/**
+ * Map validated schema values onto the application's config structure
+ */
+function buildAppConfig(values: ConfigValues<typeof configSchema>): AppConfig {
+  return {
+    app: {
+      environment: values.NODE_ENV,
+      port: values.PORT,
+      trustProxy: values.TRUST_PROXY,
+    },
+    service: {
+      name: values.OTEL_SERVICE_NAME,
+      version: values.OTEL_SERVICE_VERSION,
+      resourceAttributes: values.OTEL_RESOURCE_ATTRIBUTES ?? {},
+    },
+    log: {
+      level: values.LOG_LEVEL,
+      includeLocation: values.LOG_INCLUDE_LOCATION,
+      locationLevel: values.LOG_LOCATION_LEVEL,
+      moduleLevels: (values.LOG_MODULE_LEVELS ?? {}) as Readonly<Record<string, LogLevel>>,
+      debugSignalTtlMs: values.LOG_DEBUG_SIGNAL_TTL_MS,
+      redaction: {
+        paths: values.LOG_REDACT_PATHS,
+        scrubPatterns: values.LOG_REDACT_PATTERNS,
+        queryAllowlist: values.LOG_QUERY_PARAM_ALLOWLIST,
+        queryDenylist: values.LOG_QUERY_PARAM_DENYLIST,
+      },
+      otlpEndpoint: values.OTEL_EXPORTER_OTLP_LOGS_ENDPOINT,
+      exportDelayMs: values.OTEL_BLRP_SCHEDULE_DELAY,
+    },
+    accessLog: {
+      enabled: values.ACCESS_LOG_ENABLED,
+      format: values.ACCESS_LOG_FORMAT,
+      sampleRate: values.ACCESS_LOG_SAMPLE_RATE,
+      excludePaths: values.ACCESS_LOG_EXCLUDE_PATHS,
+    },
+    metrics: {
+      enabled: values.METRICS_ENABLED,
+      path: values.METRICS_PATH,
+      otlpEndpoint: values.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT,
+      exportIntervalMs: values.OTEL_METRIC_EXPORT_INTERVAL,
+    },
+    openapi: {
+      enabled: values.OPENAPI_ENABLED,
+    },
+    admin: {
+      token: values.ADMIN_TOKEN,
+    },
+    auth: {
+      jwt: {
+        jwksUrl: values.JWT_JWKS_URL,
+        jwksCacheTtlMs: values.JWT_JWKS_CACHE_TTL_MS,
+        jwksCooldownMs: values.JWT_JWKS_COOLDOWN_MS,
+        keyFiles: values.JWT_KEY_FILES,
+        secret: values.JWT_SECRET,
+        issuer: values.JWT_ISSUER,
+        audience: values.JWT_AUDIENCE,
+        algorithms: values.JWT_ALGORITHMS as readonly JwtAlgorithm[],
+        clockSkewSeconds: values.JWT_CLOCK_SKEW_SECONDS,
+      },
+      apiKeys: {
+        enabled: values.API_KEYS_ENABLED,
+        prefix: values.API_KEY_PREFIX,
+        header: values.API_KEY_HEADER.toLowerCase(),
+        rotationOverlapSeconds: values.API_KEY_ROTATION_OVERLAP_SECONDS,
+      },
+    },
+    rateLimit: {
+      enabled: values.RATE_LIMIT_ENABLED,
+      algorithm: values.RATE_LIMIT_ALGORITHM,
+      requests: values.RATE_LIMIT_REQUESTS,
+      windowMs: values.RATE_LIMIT_WINDOW_MS,
+      key: values.RATE_LIMIT_KEY,
+    },
+    cors: {
+      origins: values.CORS_ORIGINS,
+      credentials: values.CORS_CREDENTIALS,
+      maxAgeSeconds: values.CORS_MAX_AGE_SECONDS,
+    },
+    securityHeaders: {
+      enabled: values.SECURITY_HEADERS_ENABLED,
+      hstsMaxAgeSeconds: values.HSTS_MAX_AGE_SECONDS,
+      contentSecurityPolicy: values.CONTENT_SECURITY_POLICY,
+      referrerPolicy: values.REFERRER_POLICY,
+      frameOptions: values.FRAME_OPTIONS,
+    },
+    limits: {
+      maxBodyBytes: values.MAX_BODY_BYTES,
+      maxHeaderCount: values.MAX_HEADER_COUNT,
+      bodyTimeoutMs: values.REQUEST_BODY_TIMEOUT_MS,
+    },
+    audit: {
+      file: values.AUDIT_LOG_FILE,
+      failureLimit: values.AUDIT_FAILURE_LIMIT,
+    },
+    readiness: {
+      checkTimeoutMs: values.READINESS_CHECK_TIMEOUT_MS,
+      cacheTtlMs: values.READINESS_CACHE_TTL_MS,
+    },
+    shutdown: {
+      timeoutMs: values.SHUTDOWN_TIMEOUT_MS,
+      drainTimeoutMs: values.SHUTDOWN_DRAIN_TIMEOUT_MS,
+      hookTimeoutMs: values.SHUTDOWN_HOOK_TIMEOUT_MS,
+    },
+    otel: {
+      tracingEnabled: values.OTEL_TRACING_ENABLED,
+      consoleExporter: values.OTEL_CONSOLE_EXPORTER || values.NODE_ENV === 'development',
+      tracesEndpoint: values.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+      sampler: values.OTEL_TRACES_SAMPLER,
+      samplerRatio: values.OTEL_TRACES_SAMPLER_ARG,
+    },
+    otlp: {
+      protocol: values.OTEL_EXPORTER_OTLP_PROTOCOL,
+      headers: values.OTEL_EXPORTER_OTLP_HEADERS ?? {},
+      compression: values.OTEL_EXPORTER_OTLP_COMPRESSION,
+      timeoutMs: values.OTEL_EXPORTER_OTLP_TIMEOUT,
+    },
+  };
+}
+
+// Map values are free-form strings, so module levels are checked against LOG_LEVEL's values
+function checkModuleLevels(levels: Readonly<Record<string, string>>): ConfigIssue[] {
+  const allowed: readonly string[] = configSchema.LOG_LEVEL.values;
+  return Object.entries(levels)
+    .filter(([, level]) => !allowed.includes(level))
+    .map(([module, level]) => ({
+      key: 'LOG_MODULE_LEVELS',
+      message: `expected one of ${allowed.join(', ')} for "${module}", received "${level}"`,
+    }));
+}
+
+// List entries are free-form strings, so algorithms are checked against the supported ones
+function checkJwtAlgorithms(algorithms: readonly string[]): ConfigIssue[] {
+  const allowed: readonly string[] = JWT_ALGORITHMS;
+  return algorithms
+    .filter((algorithm) => !allowed.includes(algorithm))
+    .map((algorithm) => ({
+      key: 'JWT_ALGORITHMS',
+      message: `expected one of ${allowed.join(', ')}, received "${algorithm}"`,
+    }));
+}
+
+// The prefix is part of every key and of the pattern keys are recognised by
+function checkApiKeyPrefix(prefix: string): ConfigIssue[] {
+  if (/^[a-z][a-z\d]{0,15}$/.test(prefix)) return [];
+  return [
+    {
+      key: 'API_KEY_PREFIX',
+      message: `expected 1-16 lowercase letters and digits, received "${prefix}"`,
+    },
+  ];
+}
+
+// Origins are compared verbatim with the Origin header, and browsers refuse `*` with credentials
+function checkCorsOrigins(origins: readonly string[], credentials: boolean): ConfigIssue[] {
+  const issues = origins
+    .filter(
+      (origin) => origin !== '*' && !(URL.canParse(origin) && new URL(origin).origin === origin)
+    )
+    .map((origin) => ({
+      key: 'CORS_ORIGINS',
+      message: `expected * or an origin like https://app.example.com, received "${origin}"`,
+    }));
+  if (credentials && origins.includes('*')) {
+    issues.push({ key: 'CORS_CREDENTIALS', message: 'cannot be combined with CORS_ORIGINS=*' });
+  }
+  return issues;
+}
+
+function deepFreeze<T>(value: T): T {
+  if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Load, validate and freeze configuration from all sources
+ * Throws ConfigValidationError listing every invalid or missing key
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Readonly<AppConfig> {
+  const { values, issues } = parseFields(configSchema, collectSources(options));
+  // Checks beyond the schema see only the keys that parsed, and report alongside the schema's issues
+  issues.push(
+    ...checkModuleLevels(values.LOG_MODULE_LEVELS ?? {}),
+    ...checkJwtAlgorithms(values.JWT_ALGORITHMS ?? []),
+    ...(values.API_KEY_PREFIX === undefined ? [] : checkApiKeyPrefix(values.API_KEY_PREFIX)),
+    ...checkCorsOrigins(values.CORS_ORIGINS ?? [], values.CORS_CREDENTIALS ?? false)
+  );
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+  return deepFreeze(buildAppConfig(values as ConfigValues<typeof configSchema>));
+}
+
+let cachedConfig: Readonly<AppConfig> | null = null;
+
+/**
+ * Get the process-wide configuration, loading it on first use
+ *
+ * Fails fast on invalid configuration: the full report is written to stderr
+ * and the process exits, so a misconfigured service never starts serving.
+ */
+export function getConfig(): Readonly<AppConfig> {
+  if (!cachedConfig) {
+    try {
+      cachedConfig = loadConfig();
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        // eslint-disable-next-line no-console
+        console.error(error.message);
+        process.exit(1);
+      }
+      throw error;
+    }
+  }
+  return cachedConfig;
+}
+
+/**
+ * Render .env.example from the schema
+ * Keys with a default are emitted as assignments, the rest commented out with an example
+ */
+export function renderEnvExample(schema: ConfigSchema = configSchema): string {
+  const rule = '# '.padEnd(79, '=');
+  const lines = [
+    rule,
+    '# TypeScript Backend Template - Environment Configuration',
+    rule,
+    '# Generated from src/config.ts by `bun run config:env-example` - do not edit by hand.',
+  ];
+
+  let currentGroup: string | undefined;
+  for (const [key, field] of Object.entries(schema)) {
+    if (field.group !== currentGroup) {
+      currentGroup = field.group;
+      lines.push('', `# ${field.group} Configuration`, '# '.padEnd(79, '-'));
+    }
+
+    const details = [
+      field.description,
+      field.type === 'enum' ? `one of: ${field.values.join(', ')}` : undefined,
+      field.required ? 'required' : undefined,
+    ].filter(Boolean);
+    lines.push(`# ${details.join('; ')}`);
+
+    lines.push(
+      field.default !== undefined
+        ? `${key}=${String(field.default)}`
+        : `${field.required ? '' : '# '}${key}=${field.example ?? ''}`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
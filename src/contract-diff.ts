@@ -0,0 +1,431 @@
+/**
+ * API Contract Diff
+ *
+ * Compares two OpenAPI documents, e.g. the checked-in contract snapshot and
+ * the document the current code generates, and classifies every difference:
+ * - Breaking: removed operations, parameters, statuses, media types or
+ *   response fields, new required parameters or body fields, types narrowed
+ *   in requests or widened in responses, newly required security
+ * - Non-breaking: additions clients can ignore, deprecations, and the opposite
+ *   narrowing / widening (a request accepting more, a response promising more)
+ *
+ * Used by tests/contract/contract-snapshot.test.ts and `bun run contract:snapshot`.
+ */
+
+import type { OpenAPIV3_1 } from 'openapi-types';
+
+export type ChangeSeverity = 'breaking' | 'non-breaking';
+
+export interface ContractChange {
+  severity: ChangeSeverity;
+  /** `METHOD /path` */
+  operation: string;
+  /** Where in the operation, e.g. `response 200 body.status` */
+  location: string;
+  message: string;
+}
+
+/** The subset of JSON Schema the diff understands */
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  patternProperties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+type Direction = 'request' | 'response';
+type Operation = OpenAPIV3_1.OperationObject;
+type Parameter = OpenAPIV3_1.ParameterObject;
+type Response = OpenAPIV3_1.ResponseObject;
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+// Raising a lower bound or lowering an upper bound narrows what a schema allows
+const LOWER_BOUNDS = ['minimum', 'minLength', 'minItems'] as const;
+const UPPER_BOUNDS = ['maximum', 'maxLength', 'maxItems'] as const;
+
+function operationsOf(document: OpenAPIV3_1.Document): Map<string, Operation> {
+  const operations = new Map<string, Operation>();
+  for (const [path, item] of Object.entries(document.paths ?? {})) {
+    const methods = new Map(Object.entries(item ?? {}));
+    for (const method of METHODS) {
+      const operation = methods.get(method) as Operation | undefined;
+      if (operation) operations.set(`${method.toUpperCase()} ${path}`, operation);
+    }
+  }
+  return operations;
+}
+
+/**
+ * Follow a local `#/components/...` reference within its document
+ */
+function resolve<T>(
+  document: OpenAPIV3_1.Document,
+  value: T | { $ref: string } | undefined
+): T | undefined {
+  if (!value || typeof value !== 'object' || !('$ref' in value)) return value;
+  const [, section, name] = value.$ref.match(/^#\/components\/(\w+)\/(.+)$/) ?? [];
+  const components = new Map(Object.entries(document.components ?? {}));
+  const entries = new Map(Object.entries((components.get(section ?? '') ?? {}) as object));
+  return resolve(document, entries.get(name ?? '') as T | { $ref: string });
+}
+
+function typesOf(schema: JsonSchema): Set<string> | undefined {
+  if (schema.type !== undefined) {
+    return new Set(Array.isArray(schema.type) ? schema.type : [schema.type]);
+  }
+  const alternatives = schema.anyOf ?? schema.oneOf;
+  if (!alternatives) return undefined;
+  const types = new Set<string>();
+  for (const alternative of alternatives) {
+    const alternativeTypes = typesOf(alternative);
+    if (!alternativeTypes) return undefined;
+    for (const type of alternativeTypes) types.add(type);
+  }
+  return types;
+}
+
+const allowsType = (types: Set<string>, type: string) =>
+  types.has(type) || (type === 'integer' && types.has('number'));
+
+class ContractDiff {
+  readonly changes: ContractChange[] = [];
+
+  constructor(
+    private readonly previous: OpenAPIV3_1.Document,
+    private readonly current: OpenAPIV3_1.Document
+  ) {}
+
+  run(): ContractChange[] {
+    const previousOperations = operationsOf(this.previous);
+    const currentOperations = operationsOf(this.current);
+
+    for (const [key, operation] of previousOperations) {
+      const next = currentOperations.get(key);
+      if (next) {
+        this.diffOperation(key, operation, next);
+      } else {
+        this.record('breaking', key, 'operation', 'operation removed');
+      }
+    }
+    for (const key of currentOperations.keys()) {
+      if (!previousOperations.has(key)) {
+        this.record('non-breaking', key, 'operation', 'operation added');
+      }
+    }
+    return this.changes;
+  }
+
+  private record(severity: ChangeSeverity, operation: string, location: string, message: string) {
+    this.changes.push({ severity, operation, location, message });
+  }
+
+  private diffOperation(key: string, previous: Operation, current: Operation): void {
+    if (!previous.deprecated && current.deprecated) {
+      this.record('non-breaking', key, 'operation', 'operation deprecated');
+    }
+
+    const previousSecurity = previous.security ?? this.previous.security ?? [];
+    const currentSecurity = current.security ?? this.current.security ?? [];
+    if (previousSecurity.length === 0 && currentSecurity.length > 0) {
+      this.record('breaking', key, 'security', 'authentication now required');
+    } else if (previousSecurity.length > 0 && currentSecurity.length === 0) {
+      this.record('non-breaking', key, 'security', 'authentication no longer required');
+    }
+
+    this.diffParameters(key, previous.parameters ?? [], current.parameters ?? []);
+    this.diffRequestBody(key, previous.requestBody, current.requestBody);
+    this.diffResponses(key, previous.responses ?? {}, current.responses ?? {});
+  }
+
+  private diffParameters(
+    key: string,
+    previous: Operation['parameters'] & object,
+    current: Operation['parameters'] & object
+  ): void {
+    const byName = (document: OpenAPIV3_1.Document, parameters: typeof previous) =>
+      new Map(
+        parameters
+          .map((parameter) => resolve<Parameter>(document, parameter))
+          .filter((parameter): parameter is Parameter => parameter !== undefined)
+          .map((parameter) => [`${parameter.in} parameter ${parameter.name}`, parameter])
+      );
+    const previousParameters = byName(this.previous, previous);
+    const currentParameters = byName(this.current, current);
+
+    for (const [location, parameter] of previousParameters) {
+      const next = currentParameters.get(location);
+      if (!next) {
+        this.record('breaking', key, location, 'parameter removed');
+        continue;
+      }
+      if (!parameter.required && next.required) {
+        this.record('breaking', key, location, 'parameter became required');
+      } else if (parameter.required && !next.required) {
+        this.record('non-breaking', key, location, 'parameter became optional');
+      }
+      this.diffSchemas(key, location, 'request', parameter.schema, next.schema);
+    }
+    for (const [location, parameter] of currentParameters) {
+      if (previousParameters.has(location)) continue;
+      if (parameter.required) {
+        this.record('breaking', key, location, 'required parameter added');
+      } else {
+        this.record('non-breaking', key, location, 'optional parameter added');
+      }
+    }
+  }
+
+  private diffRequestBody(
+    key: string,
+    previous: Operation['requestBody'],
+    current: Operation['requestBody']
+  ): void {
+    const location = 'request body';
+    const before = resolve<OpenAPIV3_1.RequestBodyObject>(this.previous, previous);
+    const after = resolve<OpenAPIV3_1.RequestBodyObject>(this.current, current);
+
+    if (!before && after) {
+      this.record(
+        after.required ? 'breaking' : 'non-breaking',
+        key,
+        location,
+        after.required ? 'required request body added' : 'optional request body added'
+      );
+    } else if (before && !after) {
+      this.record('non-breaking', key, location, 'request body no longer read');
+    } else if (before && after) {
+      if (!before.required && after.required) {
+        this.record('breaking', key, location, 'request body became required');
+      }
+      this.diffContent(key, location, 'request', before.content, after.content);
+    }
+  }
+
+  private diffResponses(
+    key: string,
+    previous: OpenAPIV3_1.ResponsesObject,
+    current: OpenAPIV3_1.ResponsesObject
+  ): void {
+    const currentResponses = new Map(Object.entries(current));
+
+    for (const [status, response] of Object.entries(previous)) {
+      const location = `response ${status}`;
+      const next = currentResponses.get(status);
+      if (!next) {
+        this.record('breaking', key, location, 'response removed');
+        continue;
+      }
+      this.diffContent(
+        key,
+        `${location} body`,
+        'response',
+        resolve<Response>(this.previous, response)?.content,
+        resolve<Response>(this.current, next)?.content
+      );
+    }
+    for (const status of currentResponses.keys()) {
+      if (!(status in previous)) {
+        this.record('non-breaking', key, `response ${status}`, 'response added');
+      }
+    }
+  }
+
+  private diffContent(
+    key: string,
+    location: string,
+    direction: Direction,
+    previous: Record<string, OpenAPIV3_1.MediaTypeObject> | undefined,
+    current: Record<string, OpenAPIV3_1.MediaTypeObject> | undefined
+  ): void {
+    const currentContent = new Map(Object.entries(current ?? {}));
+
+    for (const [mediaType, media] of Object.entries(previous ?? {})) {
+      const next = currentContent.get(mediaType);
+      if (next) {
+        this.diffSchemas(key, location, direction, media.schema, next.schema);
+      } else {
+        this.record('breaking', key, location, `media type ${mediaType} removed`);
+      }
+    }
+    for (const mediaType of currentContent.keys()) {
+      if (!previous || !(mediaType in previous)) {
+        this.record('non-breaking', key, location, `media type ${mediaType} added`);
+      }
+    }
+  }
+
+  private diffSchemas(
+    key: string,
+    location: string,
+    direction: Direction,
+    previousSchema: unknown,
+    currentSchema: unknown
+  ): void {
+    const previous = resolve(this.previous, previousSchema as JsonSchema);
+    const current = resolve(this.current, currentSchema as JsonSchema);
+    if (!previous || !current) return;
+
+    // Requests may only widen what they accept, responses only narrow what they return
+    const narrowed = (message: string) =>
+      this.record(direction === 'request' ? 'breaking' : 'non-breaking', key, location, message);
+    const widened = (message: string) =>
+      this.record(direction === 'response' ? 'breaking' : 'non-breaking', key, location, message);
+
+    this.diffTypes(previous, current, narrowed, widened);
+    this.diffEnums(previous, current, narrowed, widened);
+    this.diffBounds(previous, current, narrowed, widened);
+    this.diffProperties(key, location, direction, previous, current, narrowed);
+
+    const currentPatterns = new Map(Object.entries(current.patternProperties ?? {}));
+    for (const [pattern, schema] of Object.entries(previous.patternProperties ?? {})) {
+      this.diffSchemas(key, `${location}[*]`, direction, schema, currentPatterns.get(pattern));
+    }
+    this.diffSchemas(key, `${location}[]`, direction, previous.items, current.items);
+  }
+
+  private diffTypes(
+    previous: JsonSchema,
+    current: JsonSchema,
+    narrowed: (message: string) => void,
+    widened: (message: string) => void
+  ): void {
+    const previousTypes = typesOf(previous);
+    const currentTypes = typesOf(current);
+    if (!previousTypes || !currentTypes) return;
+
+    for (const type of previousTypes) {
+      if (!allowsType(currentTypes, type)) narrowed(`type ${type} no longer allowed`);
+    }
+    for (const type of currentTypes) {
+      if (!allowsType(previousTypes, type)) widened(`type ${type} now allowed`);
+    }
+  }
+
+  private diffEnums(
+    previous: JsonSchema,
+    current: JsonSchema,
+    narrowed: (message: string) => void,
+    widened: (message: string) => void
+  ): void {
+    if (!previous.enum && !current.enum) return;
+    if (!previous.enum) return narrowed('restricted to enumerated values');
+    if (!current.enum) return widened('no longer restricted to enumerated values');
+
+    const before = new Set(previous.enum.map((value) => JSON.stringify(value)));
+    const after = new Set(current.enum.map((value) => JSON.stringify(value)));
+    for (const value of before) {
+      if (!after.has(value)) narrowed(`enum value ${value} removed`);
+    }
+    for (const value of after) {
+      if (!before.has(value)) widened(`enum value ${value} added`);
+    }
+  }
+
+  private diffBounds(
+    previous: JsonSchema,
+    current: JsonSchema,
+    narrowed: (message: string) => void,
+    widened: (message: string) => void
+  ): void {
+    const compare = (keyword: string, before?: number, after?: number, lower = true) => {
+      if (before === after) return;
+      const tighter =
+        before === undefined || (after !== undefined && (lower ? after > before : after < before));
+      const message = `${keyword} changed from ${before ?? 'none'} to ${after ?? 'none'}`;
+      if (tighter) narrowed(message);
+      else widened(message);
+    };
+    const before = new Map(Object.entries(previous));
+    const after = new Map(Object.entries(current));
+    for (const keyword of LOWER_BOUNDS) {
+      compare(keyword, before.get(keyword) as number, after.get(keyword) as number);
+    }
+    for (const keyword of UPPER_BOUNDS) {
+      compare(keyword, before.get(keyword) as number, after.get(keyword) as number, false);
+    }
+  }
+
+  private diffProperties(
+    key: string,
+    location: string,
+    direction: Direction,
+    previous: JsonSchema,
+    current: JsonSchema,
+    narrowed: (message: string) => void
+  ): void {
+    const currentProperties = new Map(Object.entries(current.properties ?? {}));
+    const wasRequired = new Set(previous.required ?? []);
+    const isRequired = new Set(current.required ?? []);
+
+    for (const [name, schema] of Object.entries(previous.properties ?? {})) {
+      const next = currentProperties.get(name);
+      const property = `${location}.${name}`;
+      if (!next) {
+        // Clients still send or read it
+        this.record('breaking', key, property, 'property removed');
+        continue;
+      }
+      if (!wasRequired.has(name) && isRequired.has(name)) {
+        narrowed(`property ${name} became required`);
+      } else if (wasRequired.has(name) && !isRequired.has(name)) {
+        this.record(
+          direction === 'response' ? 'breaking' : 'non-breaking',
+          key,
+          property,
+          'property became optional'
+        );
+      }
+      this.diffSchemas(key, property, direction, schema, next);
+    }
+    for (const name of currentProperties.keys()) {
+      if (previous.properties && name in previous.properties) continue;
+      if (isRequired.has(name)) {
+        narrowed(`required property ${name} added`);
+      } else {
+        this.record('non-breaking', key, `${location}.${name}`, 'optional property added');
+      }
+    }
+  }
+}
+
+/**
+ * Classify every difference between two OpenAPI documents
+ */
+export function diffContracts(
+  previous: OpenAPIV3_1.Document,
+  current: OpenAPIV3_1.Document
+): ContractChange[] {
+  return new ContractDiff(previous, current).run();
+}
+
+/**
+ * One line per change, breaking changes first
+ */
+export function formatContractChanges(changes: readonly ContractChange[]): string {
+  return [...changes]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'breaking' ? -1 : 1))
+    .map(
+      (change) =>
+        `${change.severity === 'breaking' ? 'BREAKING' : 'non-breaking'}  ${change.operation}  ${change.location}: ${change.message}`
+    )
+    .join('\n');
+}
+
+/**
+ * Snapshot file contents for a document
+ */
+export function renderContractSnapshot(document: OpenAPIV3_1.Document): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
@@ -0,0 +1,263 @@
+/**
+ * Error Taxonomy and Problem Details
+ *
+ * Handlers throw typed AppErrors carrying an HTTP status and a stable,
+ * machine-readable code. The global error handler turns them (and Elysia's
+ * own VALIDATION / PARSE / NOT_FOUND / INVALID_COOKIE_SIGNATURE errors) into
+ * RFC 9457 `application/problem+json` responses.
+ */
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+// Problem `type` URIs are relative references, e.g. /problems/validation-failed
+const PROBLEM_TYPE_BASE = '/problems/';
+
+export interface AppErrorOptions {
+  /** Human-readable explanation specific to this occurrence */
+  detail?: string;
+  /** Extra problem members, e.g. the list of invalid fields */
+  extensions?: Record<string, unknown>;
+  /** Response headers such as Retry-After or WWW-Authenticate */
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors that map onto a specific HTTP response
+ */
+export class AppError extends Error {
+  readonly detail: string | undefined;
+  readonly extensions: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    /** Stable machine-readable code, e.g. VALIDATION_FAILED */
+    readonly code: string,
+    readonly status: number,
+    /** Short summary that does not change between occurrences */
+    readonly title: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(options.detail ?? title, { cause: options.cause });
+    this.name = new.target.name;
+    this.detail = options.detail;
+    this.extensions = options.extensions ?? {};
+    this.headers = options.headers ?? {};
+  }
+
+  /** Problem type URI derived from the code */
+  get type(): string {
+    return `${PROBLEM_TYPE_BASE}${this.code.toLowerCase().replace(/_/g, '-')}`;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('BAD_REQUEST', 400, 'Bad Request', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export interface InvalidField {
+  /** JSON pointer to the invalid value, e.g. /user/email */
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends AppError {
+  constructor(
+    detail: string,
+    readonly errors: InvalidField[] = [],
+    options: Omit<AppErrorOptions, 'detail'> = {}
+  ) {
+    super('VALIDATION_FAILED', 422, 'Validation Failed', {
+      ...options,
+      detail,
+      extensions: { ...options.extensions, errors },
+    });
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('UNAUTHORIZED', 401, 'Unauthorized', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('FORBIDDEN', 403, 'Forbidden', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('NOT_FOUND', 404, 'Not Found', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export class RequestTimeoutError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('REQUEST_TIMEOUT', 408, 'Request Timeout', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('CONFLICT', 409, 'Conflict', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export class ContentTooLargeError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('CONTENT_TOO_LARGE', 413, 'Content Too Large', { ...options, ...(detail && { detail }) });
+  }
+}
+
+export class HeaderFieldsTooLargeError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('HEADER_FIELDS_TOO_LARGE', 431, 'Request Header Fields Too Large', {
+      ...options,
+      ...(detail && { detail }),
+    });
+  }
+}
+
+export class RateLimitedError extends AppError {
+  constructor(
+    readonly retryAfterSeconds: number,
+    detail?: string,
+    options: Omit<AppErrorOptions, 'detail'> = {}
+  ) {
+    super('RATE_LIMITED', 429, 'Too Many Requests', {
+      ...options,
+      ...(detail && { detail }),
+      headers: { ...options.headers, 'retry-after': String(Math.ceil(retryAfterSeconds)) },
+    });
+  }
+}
+
+export class UpstreamError extends AppError {
+  constructor(
+    readonly upstream: string,
+    detail?: string,
+    options: Omit<AppErrorOptions, 'detail'> = {}
+  ) {
+    super('UPSTREAM_FAILURE', 502, 'Upstream Failure', {
+      ...options,
+      detail: detail ?? `Request to ${upstream} failed`,
+      extensions: { ...options.extensions, upstream },
+    });
+  }
+}
+
+export class InternalError extends AppError {
+  constructor(detail?: string, options: Omit<AppErrorOptions, 'detail'> = {}) {
+    super('INTERNAL_ERROR', 500, 'Internal Server Error', {
+      ...options,
+      ...(detail && { detail }),
+    });
+  }
+}
+
+/**
+ * Shape of one entry in Elysia's ValidationError.all
+ */
+interface ElysiaValueError {
+  path?: string;
+  message?: string;
+  summary?: string;
+}
+
+function validationErrors(error: unknown): InvalidField[] {
+  const all = (error as { all?: unknown }).all;
+  if (!Array.isArray(all)) return [];
+  return all.map((entry: ElysiaValueError) => ({
+    path: entry.path || '/',
+    message: entry.summary ?? entry.message ?? 'Invalid value',
+  }));
+}
+
+/**
+ * Normalize anything thrown during a request into an AppError
+ *
+ * Elysia reports its own failures by code; unknown errors become a 500 whose
+ * message is only exposed when `exposeInternalMessages` is set (development).
+ */
+export function toAppError(
+  error: unknown,
+  code: string | number,
+  exposeInternalMessages: boolean
+): AppError {
+  if (error instanceof AppError) return error;
+
+  switch (code) {
+    case 'NOT_FOUND':
+      return new NotFoundError('The requested endpoint does not exist');
+    case 'VALIDATION':
+      return new ValidationError(
+        'The request did not match the expected schema',
+        validationErrors(error)
+      );
+    case 'PARSE':
+      return new BadRequestError('The request body could not be parsed', { cause: error });
+    case 'INVALID_COOKIE_SIGNATURE':
+      return new AppError('INVALID_COOKIE_SIGNATURE', 400, 'Invalid Cookie Signature', {
+        detail: 'A signed cookie failed signature verification',
+        cause: error,
+      });
+  }
+
+  const message = error instanceof Error && exposeInternalMessages ? error.message : undefined;
+  return new InternalError(message ?? 'Something went wrong', { cause: error });
+}
+
+/**
+ * RFC 9457 problem details with this service's extension members
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance: string;
+  code: string;
+  request_id: string;
+  trace_id?: string;
+  timestamp: string;
+  [extension: string]: unknown;
+}
+
+export interface ProblemContext {
+  /** Request path the problem occurred on */
+  instance: string;
+  requestId: string;
+  traceId: string | undefined;
+}
+
+/**
+ * Build the problem details body for an error
+ */
+export function toProblemDetails(error: AppError, context: ProblemContext): ProblemDetails {
+  return {
+    ...error.extensions,
+    type: error.type,
+    title: error.title,
+    status: error.status,
+    ...(error.detail !== undefined && { detail: error.detail }),
+    instance: context.instance,
+    code: error.code,
+    request_id: context.requestId,
+    ...(context.traceId && { trace_id: context.traceId }),
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Render an error as an `application/problem+json` response
+ */
+export function problemResponse(error: AppError, context: ProblemContext): Response {
+  return new Response(JSON.stringify(toProblemDetails(error, context)), {
+    status: error.status,
+    headers: { ...error.headers, 'content-type': PROBLEM_CONTENT_TYPE },
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * HTTP Hardening
+ *
+ * Browser-facing protections and request limits, applied before routing:
+ * - CORS for an allowlist of origins: preflight requests are answered directly
+ *   and may be cached by the browser; other responses to allowed origins get
+ *   the Access-Control-* headers, exposing the request ID and rate limit headers
+ * - Security headers (HSTS, CSP, X-Content-Type-Options, Referrer-Policy,
+ *   X-Frame-Options) on every response, errors included; routes may override
+ *   them, as /docs does with its own CSP
+ * - Requests with too many headers get 431, bodies over the size limit 413
+ *   (announced by Content-Length or streamed), and bodies not received within
+ *   the deadline 408, all as problem responses through the global error handler
+ */
+
+import { Elysia } from 'elysia';
+import type { AppConfig } from './config.js';
+import { ContentTooLargeError, HeaderFieldsTooLargeError, RequestTimeoutError } from './errors.js';
+import { runWithTimeout, TimeoutError } from './timeout.js';
+
+type CorsOptions = AppConfig['cors'];
+
+const ALLOWED_METHODS = 'GET, HEAD, POST, PUT, PATCH, DELETE';
+
+// Response headers browsers may read besides the CORS-safelisted ones
+const EXPOSED_HEADERS = [
+  'x-request-id',
+  'x-trace-id',
+  'retry-after',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'ratelimit-policy',
+  'deprecation',
+  'sunset',
+  'link',
+].join(', ');
+
+/**
+ * Security headers sent on every response
+ * Exported for testing
+ */
+export function securityHeaders(options: AppConfig['securityHeaders']): Record<string, string> {
+  if (!options.enabled) return {};
+  return {
+    ...(options.hstsMaxAgeSeconds > 0 && {
+      'strict-transport-security': `max-age=${options.hstsMaxAgeSeconds}; includeSubDomains`,
+    }),
+    'content-security-policy': options.contentSecurityPolicy,
+    'x-content-type-options': 'nosniff',
+    'referrer-policy': options.referrerPolicy,
+    'x-frame-options': options.frameOptions,
+  };
+}
+
+/**
+ * CORS headers for a request from `origin`, or undefined when the origin is not allowed
+ * Exported for testing
+ */
+export function corsHeaders(
+  cors: CorsOptions,
+  origin: string | null
+): Record<string, string> | undefined {
+  const anyOrigin = cors.origins.includes('*');
+  if (origin === null || (!anyOrigin && !cors.origins.includes(origin))) return undefined;
+  return {
+    'access-control-allow-origin': anyOrigin ? '*' : origin,
+    ...(cors.credentials && { 'access-control-allow-credentials': 'true' }),
+  };
+}
+
+/**
+ * Response to a CORS preflight request
+ * Exported for testing
+ */
+export function preflightResponse(cors: CorsOptions, request: Request): Response {
+  const allowed = corsHeaders(cors, request.headers.get('origin'));
+  const requestedHeaders = request.headers.get('access-control-request-headers');
+
+  // Disallowed origins get no CORS headers, so the browser blocks the actual request
+  return new Response(null, {
+    status: 204,
+    headers: allowed
+      ? {
+          ...allowed,
+          'access-control-allow-methods': ALLOWED_METHODS,
+          ...(requestedHeaders && { 'access-control-allow-headers': requestedHeaders }),
+          'access-control-max-age': String(cors.maxAgeSeconds),
+        }
+      : {},
+  });
+}
+
+const isPreflight = (request: Request) =>
+  request.method === 'OPTIONS' &&
+  request.headers.has('origin') &&
+  request.headers.has('access-control-request-method');
+
+function checkHeaderCount(request: Request, maxHeaderCount: number): void {
+  let count = 0;
+  request.headers.forEach(() => count++);
+  if (count > maxHeaderCount) {
+    throw new HeaderFieldsTooLargeError(`Requests may carry at most ${maxHeaderCount} headers`);
+  }
+}
+
+const tooLarge = (maxBodyBytes: number) =>
+  new ContentTooLargeError(`Request bodies may be at most ${maxBodyBytes} bytes`);
+
+async function readBody(
+  body: ReadableStream<Uint8Array>,
+  maxBodyBytes: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = body.getReader();
+  signal?.addEventListener('abort', () => reader.cancel());
+
+  let received = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    received += chunk.value.byteLength;
+    if (received > maxBodyBytes) {
+      await reader.cancel();
+      throw tooLarge(maxBodyBytes);
+    }
+  }
+}
+
+// Streamed bodies have no Content-Length to check up front, so a copy is read within the
+// limits; the original stays unread for Elysia's parsers
+async function receiveBody(request: Request, limits: AppConfig['limits']): Promise<void> {
+  const body = request.body && request.clone().body;
+  if (!body) return;
+  if (limits.bodyTimeoutMs === 0) return readBody(body, limits.maxBodyBytes);
+
+  try {
+    await runWithTimeout(
+      (signal) => readBody(body, limits.maxBodyBytes, signal),
+      limits.bodyTimeoutMs
+    );
+  } catch (error) {
+    if (error instanceof TimeoutError) {
+      throw new RequestTimeoutError(
+        `The request body was not received within ${limits.bodyTimeoutMs}ms`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Elysia plugin applying CORS, security headers and request limits
+ */
+export function hardening(config: Pick<AppConfig, 'cors' | 'securityHeaders' | 'limits'>) {
+  const { cors, limits } = config;
+  const headers = securityHeaders(config.securityHeaders);
+  const corsEnabled = cors.origins.length > 0;
+  // Responses differ per Origin unless every origin gets the same `*`
+  const vary = corsEnabled && !cors.origins.includes('*');
+
+  return new Elysia({ name: 'hardening' }).onRequest(async ({ request, set }) => {
+    Object.assign(set.headers, headers);
+    if (vary) set.headers.vary = 'Origin';
+
+    checkHeaderCount(request, limits.maxHeaderCount);
+    if (Number(request.headers.get('content-length') ?? 0) > limits.maxBodyBytes) {
+      throw tooLarge(limits.maxBodyBytes);
+    }
+
+    if (corsEnabled) {
+      if (isPreflight(request)) return preflightResponse(cors, request);
+      const allowed = corsHeaders(cors, request.headers.get('origin'));
+      if (allowed) {
+        Object.assign(set.headers, allowed, { 'access-control-expose-headers': EXPOSED_HEADERS });
+      }
+    }
+
+    return receiveBody(request, limits);
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Health Probes
+ *
+ * Kubernetes-style probes answered from the application lifecycle:
+ * - /livez: 200 while the process is running, 503 once stopped
+ * - /startupz: 200 once startup has completed
+ * - /readyz: 200 while ready and every critical dependency is up; 503 during
+ *   startup and as soon as draining begins
+ *
+ * The legacy /health and /ready endpoints are derived from the same state.
+ */
+
+import { Elysia, t } from 'elysia';
+import type { AppConfig } from './config.js';
+import type { Lifecycle } from './lifecycle.js';
+import type { ReadinessRegistry, ReadinessReport } from './readiness.js';
+
+const ProbeStatus = (status: string, failed: string, description: string) =>
+  t.Object({ status: t.UnionEnum([status, failed]), state: t.String() }, { description });
+
+const LivenessResponse = ProbeStatus('ok', 'stopped', 'Liveness of the process');
+const StartupResponse = ProbeStatus('started', 'starting', 'Whether startup has completed');
+
+const DependencyStatusSchema = t.Object({
+  status: t.UnionEnum(['up', 'down']),
+  critical: t.Boolean(),
+  latency_ms: t.Number(),
+  checked_at: t.String({ format: 'date-time' }),
+  error: t.Optional(t.String()),
+  last_error: t.Optional(t.Object({ message: t.String(), at: t.String({ format: 'date-time' }) })),
+});
+
+const ReadinessResponse = t.Object(
+  {
+    status: t.UnionEnum(['ready', 'not_ready']),
+    state: t.String(),
+    timestamp: t.String({ format: 'date-time' }),
+    dependencies: t.Record(t.String(), DependencyStatusSchema),
+  },
+  { description: 'Readiness with the status of each dependency' }
+);
+
+const HealthResponse = t.Object(
+  {
+    status: t.UnionEnum(['ok', 'stopped']),
+    state: t.String(),
+    timestamp: t.String({ format: 'date-time' }),
+    uptime: t.Number(),
+    environment: t.String(),
+    version: t.String(),
+  },
+  { description: 'Liveness plus service details' }
+);
+
+// Probes answer 503 with the same body when failing
+const probe = <S extends ReturnType<typeof t.Object>>(schema: S, summary: string) => ({
+  response: { 200: schema, 503: schema },
+  detail: { summary, tags: ['Health'] },
+});
+
+export interface HealthProbeOptions {
+  config: Pick<AppConfig, 'app' | 'service'>;
+  lifecycle: Lifecycle;
+  readiness: ReadinessRegistry;
+}
+
+/**
+ * Elysia plugin serving the liveness, startup and readiness probes
+ */
+export function healthProbes({ config, lifecycle, readiness }: HealthProbeOptions) {
+  // Dependencies are only checked while accepting traffic, so draining never waits on downstreams
+  const readinessReport = async (): Promise<ReadinessReport & { state: string }> => {
+    if (!lifecycle.isAcceptingTraffic) {
+      return {
+        status: 'not_ready',
+        state: lifecycle.state,
+        timestamp: new Date().toISOString(),
+        dependencies: {},
+      };
+    }
+    return { ...(await readiness.check()), state: lifecycle.state };
+  };
+
+  const readinessHandler = async ({ set }: { set: { status?: number | string } }) => {
+    const report = await readinessReport();
+    if (report.status !== 'ready') {
+      set.status = 503;
+    }
+    return report;
+  };
+
+  return (
+    new Elysia({ name: 'health-probes' })
+      .get(
+        '/livez',
+        ({ set }) => {
+          if (!lifecycle.isLive) set.status = 503;
+          return { status: lifecycle.isLive ? 'ok' : 'stopped', state: lifecycle.state };
+        },
+        probe(LivenessResponse, 'Liveness probe')
+      )
+      .get(
+        '/startupz',
+        ({ set }) => {
+          if (!lifecycle.isStarted) set.status = 503;
+          return { status: lifecycle.isStarted ? 'started' : 'starting', state: lifecycle.state };
+        },
+        probe(StartupResponse, 'Startup probe')
+      )
+      .get('/readyz', readinessHandler, probe(ReadinessResponse, 'Readiness probe'))
+      // Legacy health check - liveness plus service details
+      .get(
+        '/health',
+        ({ set }) => {
+          if (!lifecycle.isLive) set.status = 503;
+          return {
+            status: lifecycle.isLive ? 'ok' : 'stopped',
+            state: lifecycle.state,
+            timestamp: new Date().toISOString(),
+            uptime: process.uptime(),
+            environment: config.app.environment,
+            version: config.service.version,
+          };
+        },
+        probe(HealthResponse, 'Health check (legacy)')
+      )
+      // Legacy readiness check - same answer as /readyz
+      .get('/ready', readinessHandler, probe(ReadinessResponse, 'Readiness check (legacy)'))
+  );
+}
@@ -1,13 +1,30 @@
 #!/usr/bin/env bun
-// Initialize OpenTelemetry FIRST (before any other imports)
+// ES module imports are hoisted, so every module imported in this file is evaluated before
+// the statements below run. Modules that need configuration at import time (app.ts) load it
+// through the same getConfig() cache, which exits with a full report when it is invalid.
+import { getConfig } from './config.js';
+const config = getConfig();
+
+// Start the OpenTelemetry SDK before the server handles requests
 import { initializeOTel, shutdownOTel } from './observability.js';
-const sdk = initializeOTel();
+import { shutdownMetrics } from './metrics.js';
+import { shutdownLogExport } from './log-export.js';
+const sdk = initializeOTel(config);
 
 import { app } from './app.js';
-import { logger } from './logger.js';
+import { getLifecycle } from './lifecycle.js';
+import { getShutdownManager, handleShutdownSignals } from './shutdown.js';
+import { getLogLevelController, logger } from './logger.js';
+import { handleLogLevelSignal } from './log-levels.js';
+import { getAuditLog } from './audit.js';
+
+const port = config.app.port;
 
-// Get port from environment
-const port = Number(process.env.PORT) || 3000;
+// Cleanup hooks run in reverse registration order, so telemetry registered first is flushed last
+const shutdown = getShutdownManager(config.shutdown);
+shutdown.register('logs', shutdownLogExport);
+shutdown.register('opentelemetry', () => shutdownOTel(sdk));
+shutdown.register('metrics', shutdownMetrics);
 
 // Only start the server when this is the main module
 if (import.meta.main) {
@@ -15,27 +32,24 @@ if (import.meta.main) {
   logger.info(
     {
       port,
-      environment: process.env.NODE_ENV || 'development',
-      tracing_enabled: process.env.OTEL_TRACING_ENABLED !== 'false',
-      service_name:
-        process.env.OTEL_SERVICE_NAME || process.env.npm_package_name || 'ts-backend-template',
+      environment: config.app.environment,
+      tracing_enabled: config.otel.tracingEnabled,
+      service_name: config.service.name,
     },
     'Server starting'
   );
 
   // Start the server
   app.listen(port);
+  if (app.server) shutdown.attachServer(app.server);
+  getLifecycle().markReady();
 
   logger.info(`Server running at http://localhost:${port}`);
 }
 
-// Graceful shutdown logic (testable)
-export async function gracefulShutdown(
-  signal: string,
-  otelSdk: ReturnType<typeof initializeOTel>
-): Promise<void> {
-  logger.info(`${signal} received, shutting down gracefully`);
-  await shutdownOTel(otelSdk);
+// Graceful shutdown logic (testable): resolves with the exit code
+export function gracefulShutdown(signal: string): Promise<number> {
+  return shutdown.shutdown(signal);
 }
 
 // Process exit wrapper (testable)
@@ -43,14 +57,25 @@ export function exitProcess(code: number = 0): void {
   process.exit(code);
 }
 
-// Handle shutdown signals (wiring)
-async function handleShutdown(signal: string): Promise<void> {
-  await gracefulShutdown(signal, sdk);
-  exitProcess(0);
-}
+// Handle shutdown signals (wiring); a repeated signal forces exit
+handleShutdownSignals(shutdown, exitProcess);
 
-process.on('SIGTERM', () => handleShutdown('SIGTERM'));
-process.on('SIGINT', () => handleShutdown('SIGINT'));
+// SIGUSR2 toggles debug logging for every module, reverting after LOG_DEBUG_SIGNAL_TTL_MS
+handleLogLevelSignal(getLogLevelController(), {
+  ttlMs: config.log.debugSignalTtlMs,
+  onToggle: (active) => {
+    getAuditLog()
+      .record({
+        action: 'log_level.debug_toggled',
+        actor: { type: 'system', id: 'SIGUSR2' },
+        outcome: 'success',
+        details: { active },
+      })
+      .catch((error) =>
+        logger.error({ error: (error as Error).message }, 'Failed to audit the debug toggle')
+      );
+  },
+});
 
 // Export for testing
 export { app };
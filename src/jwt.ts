@@ -0,0 +1,187 @@
+/**
+ * JWT Bearer Authentication
+ *
+ * Verifies RS256 / ES256 / HS256 bearer tokens and turns their claims into a
+ * principal (see auth.ts):
+ * - Signing keys come from the issuer's JWKS endpoint, cached for
+ *   JWT_JWKS_CACHE_TTL_MS and refetched when a token names an unknown key ID
+ *   (rotation), and/or from local PEM or JWKS files and an HS256 secret
+ * - `exp` and `sub` are required; issuer and audience are checked when
+ *   configured, `exp` / `nbf` with JWT_CLOCK_SKEW_SECONDS of tolerance
+ * - Scopes are read from `scope` (space-separated) or `scp`, roles from `roles`
+ */
+
+import { createPublicKey } from 'crypto';
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWK,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+import type { AppConfig, JwtAlgorithm } from './config.js';
+import { AppError, UpstreamError } from './errors.js';
+import { bearerToken, invalidCredentials, type Authenticator, type Principal } from './auth.js';
+
+export type JwtVerifierOptions = AppConfig['auth']['jwt'];
+
+// Algorithm implied by each supported public key type
+const ALGORITHM_BY_KEY = new Map<string, JwtAlgorithm>([
+  ['rsa', 'RS256'],
+  ['ec:P-256', 'ES256'],
+]);
+
+/**
+ * Whether any source of verification keys is configured
+ */
+export function isJwtConfigured(options: JwtVerifierOptions): boolean {
+  return Boolean(options.jwksUrl || options.keyFiles.length > 0 || options.secret);
+}
+
+/**
+ * Read verification keys from a PEM public key or a JWKS file
+ * Exported for testing
+ */
+export function loadKeyFile(file: string): JWK[] {
+  let content: string;
+  try {
+    // Paths come from JWT_KEY_FILES, never from request input
+    // eslint-disable-next-line security/detect-non-literal-fs-filename
+    content = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new Error(`Could not read JWT key file ${file}`, { cause: error });
+  }
+
+  if (extname(file) === '.json') {
+    const jwks = JSON.parse(content) as Partial<JSONWebKeySet>;
+    if (!Array.isArray(jwks.keys)) {
+      throw new Error(`JWT key file ${file} is not a JWKS document`);
+    }
+    return jwks.keys;
+  }
+
+  const jwk = createPublicKey(content).export({ format: 'jwk' }) as JWK;
+  const algorithm = ALGORITHM_BY_KEY.get(jwk.kty === 'EC' ? `ec:${jwk.crv}` : 'rsa');
+  if (jwk.kty !== 'RSA' && jwk.kty !== 'EC') {
+    throw new Error(`JWT key file ${file} holds an unsupported ${jwk.kty} key`);
+  }
+  if (!algorithm) {
+    throw new Error(`JWT key file ${file} holds an unsupported ${jwk.crv} curve`);
+  }
+  return [{ ...jwk, alg: algorithm, use: 'sig' }];
+}
+
+/**
+ * Build a principal from verified claims
+ * Exported for testing
+ */
+export function principalFromClaims(claims: JWTPayload): Principal {
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const scopes =
+    typeof claims.scope === 'string'
+      ? claims.scope.split(' ').filter(Boolean)
+      : strings(claims.scp);
+
+  return {
+    type: 'jwt',
+    subject: claims.sub ?? '',
+    scopes,
+    roles: strings(claims.roles),
+    claims,
+  };
+}
+
+// Describe why verification failed without echoing the token
+function toAppError(error: unknown): AppError {
+  if (error instanceof errors.JWKSTimeout || !(error instanceof errors.JOSEError)) {
+    return new UpstreamError('jwks', 'Could not fetch the token signing keys', { cause: error });
+  }
+  if (error instanceof errors.JWTExpired) {
+    return invalidCredentials('The token has expired');
+  }
+  if (error instanceof errors.JWTClaimValidationFailed) {
+    return invalidCredentials(
+      `The token "${error.claim}" claim is ${error.reason === 'missing' ? 'missing' : 'invalid'}`
+    );
+  }
+  return invalidCredentials('The token is invalid');
+}
+
+/**
+ * Verifies JWTs against the configured keys and claim requirements
+ */
+export class JwtVerifier {
+  private readonly getKey: JWTVerifyGetKey;
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    const localKeys = options.keyFiles.flatMap(loadKeyFile);
+    const local = localKeys.length > 0 ? createLocalJWKSet({ keys: localKeys }) : undefined;
+    const secret = options.secret ? Buffer.from(options.secret) : undefined;
+    const remote = options.jwksUrl
+      ? createRemoteJWKSet(new URL(options.jwksUrl), {
+          cacheMaxAge: options.jwksCacheTtlMs,
+          cooldownDuration: options.jwksCooldownMs,
+        })
+      : undefined;
+
+    // Local keys first; the JWKS endpoint is only consulted for keys they do not hold
+    this.getKey = async (header, token) => {
+      // HMAC tokens only ever verify against the shared secret
+      if (header.alg === 'HS256') {
+        if (secret) return secret;
+        throw new errors.JWKSNoMatchingKey();
+      }
+      if (local) {
+        try {
+          return await local(header, token);
+        } catch (error) {
+          if (!remote || !(error instanceof errors.JWKSNoMatchingKey)) throw error;
+        }
+      }
+      if (remote) return remote(header, token);
+      throw new errors.JWKSNoMatchingKey();
+    };
+  }
+
+  /**
+   * Verify a token and return its principal
+   * Throws UnauthorizedError for invalid tokens, UpstreamError when keys cannot be fetched
+   */
+  async verify(token: string): Promise<Principal> {
+    try {
+      const { payload } = await jwtVerify(token, this.getKey, {
+        algorithms: [...this.options.algorithms],
+        requiredClaims: ['exp', 'sub'],
+        clockTolerance: this.options.clockSkewSeconds,
+        ...(this.options.issuer && { issuer: this.options.issuer }),
+        ...(this.options.audience.length > 0 && { audience: [...this.options.audience] }),
+      });
+      return principalFromClaims(payload);
+    } catch (error) {
+      throw toAppError(error);
+    }
+  }
+}
+
+/**
+ * Authenticator for `Authorization: Bearer <jwt>` requests
+ * Bearer tokens that are not JWTs (e.g. the admin token) are left to other checks.
+ */
+export function jwtAuthenticator(verifier: JwtVerifier): Authenticator {
+  return {
+    scheme: {
+      name: 'bearerAuth',
+      definition: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    },
+    authenticate: async (request) => {
+      const token = bearerToken(request.headers.get('authorization'));
+      return token?.split('.').length === 3 ? verifier.verify(token) : undefined;
+    },
+  };
+}
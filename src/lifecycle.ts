@@ -0,0 +1,97 @@
+/**
+ * Application Lifecycle
+ *
+ * Tracks where the process is in its life so health probes can answer
+ * consistently:
+ *
+ *   starting → ready → draining → stopped
+ *
+ * - Liveness (/livez): the process is running and not stopped
+ * - Startup (/startupz): startup has completed
+ * - Readiness (/readyz): the app is ready and its critical dependencies are up;
+ *   flips to 503 as soon as draining begins so load balancers stop routing
+ *   new traffic while in-flight requests finish
+ */
+
+import { logger } from './logger.js';
+
+export type LifecycleState = 'starting' | 'ready' | 'draining' | 'stopped';
+
+const STATE_ORDER: readonly LifecycleState[] = ['starting', 'ready', 'draining', 'stopped'];
+
+export type LifecycleListener = (state: LifecycleState, previous: LifecycleState) => void;
+
+/**
+ * Forward-only state machine for the application lifecycle
+ */
+export class Lifecycle {
+  private current: LifecycleState = 'starting';
+  private readonly listeners = new Set<LifecycleListener>();
+
+  get state(): LifecycleState {
+    return this.current;
+  }
+
+  /** The process is running and able to serve (any state but stopped) */
+  get isLive(): boolean {
+    return this.current !== 'stopped';
+  }
+
+  /** Startup has completed */
+  get isStarted(): boolean {
+    return this.current !== 'starting';
+  }
+
+  /** New traffic should be routed here */
+  get isAcceptingTraffic(): boolean {
+    return this.current === 'ready';
+  }
+
+  /**
+   * Move to `next`; states can only advance, and repeating the current state is a no-op
+   * Skipping ahead is allowed (e.g. a shutdown signal received while starting)
+   */
+  transition(next: LifecycleState): void {
+    const previous = this.current;
+    if (next === previous) return;
+    if (STATE_ORDER.indexOf(next) < STATE_ORDER.indexOf(previous)) {
+      throw new Error(`Invalid lifecycle transition: ${previous} → ${next}`);
+    }
+
+    this.current = next;
+    logger.info({ from: previous, to: next }, 'Lifecycle state changed');
+    for (const listener of this.listeners) {
+      listener(next, previous);
+    }
+  }
+
+  markReady(): void {
+    this.transition('ready');
+  }
+
+  beginDraining(): void {
+    this.transition('draining');
+  }
+
+  markStopped(): void {
+    this.transition('stopped');
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  onTransition(listener: LifecycleListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+let lifecycle: Lifecycle | undefined;
+
+/**
+ * Get the process-wide lifecycle shared by the probes and the shutdown logic
+ */
+export function getLifecycle(): Lifecycle {
+  lifecycle ??= new Lifecycle();
+  return lifecycle;
+}
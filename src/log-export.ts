@@ -0,0 +1,170 @@
+/**
+ * OpenTelemetry Log Export
+ *
+ * Ships pino log lines through the OpenTelemetry Logs pipeline, next to the
+ * regular stdout output:
+ * - Each JSON line becomes a LogRecord with mapped severity and attributes
+ * - `trace_id` / `span_id` from the logger mixin become the record's trace context,
+ *   with the trace flags of the span the line was written in
+ * - Records are batched and exported over OTLP with the shared service resource
+ *
+ * Enabled by setting OTEL_EXPORTER_OTLP_LOGS_ENDPOINT.
+ */
+
+import { context, ROOT_CONTEXT, trace, TraceFlags, type Context } from '@opentelemetry/api';
+import {
+  SeverityNumber,
+  type AnyValueMap,
+  type LogRecord,
+  type Logger as OtelLogger,
+} from '@opentelemetry/api-logs';
+import { BatchLogRecordProcessor, LoggerProvider } from '@opentelemetry/sdk-logs';
+import type { AppConfig } from './config.js';
+import { createOtlpLogExporter } from './otlp.js';
+import { createServiceResource } from './resource.js';
+
+const SEVERITIES = new Map<string, SeverityNumber>([
+  ['trace', SeverityNumber.TRACE],
+  ['debug', SeverityNumber.DEBUG],
+  ['info', SeverityNumber.INFO],
+  ['warn', SeverityNumber.WARN],
+  ['error', SeverityNumber.ERROR],
+  ['fatal', SeverityNumber.FATAL],
+]);
+
+// pino's default numeric levels, for lines written without the label formatter
+const LEVEL_LABELS = new Map<unknown, string>([
+  [10, 'trace'],
+  [20, 'debug'],
+  [30, 'info'],
+  [40, 'warn'],
+  [50, 'error'],
+  [60, 'fatal'],
+]);
+
+// Fields that describe the record itself or are already carried by the resource
+const RESERVED_FIELDS = new Set([
+  'level',
+  'time',
+  'msg',
+  'trace_id',
+  'span_id',
+  'pid',
+  'hostname',
+  'service',
+  'version',
+]);
+
+/**
+ * Map a pino level (label or number) onto an OpenTelemetry severity
+ * Exported for testing
+ */
+export function toSeverity(level: unknown): {
+  severityNumber: SeverityNumber;
+  severityText: string;
+} {
+  const label = LEVEL_LABELS.get(level) ?? String(level);
+  const severityNumber = SEVERITIES.get(label);
+  return severityNumber === undefined
+    ? { severityNumber: SeverityNumber.UNSPECIFIED, severityText: label }
+    : { severityNumber, severityText: label.toUpperCase() };
+}
+
+// The line's trace, sampled or not as the span it was written in
+function traceContext(fields: Record<string, unknown>, active: Context): Context | undefined {
+  const { trace_id: traceId, span_id: spanId } = fields;
+  if (typeof traceId !== 'string' || typeof spanId !== 'string') return undefined;
+  const activeSpan = trace.getSpanContext(active);
+  return trace.setSpanContext(ROOT_CONTEXT, {
+    traceId,
+    spanId,
+    traceFlags: activeSpan?.traceId === traceId ? activeSpan.traceFlags : TraceFlags.NONE,
+  });
+}
+
+/**
+ * Convert one parsed pino line into a LogRecord
+ * `active` is the context the line was written in; pino writes synchronously,
+ * so by default the current one
+ * Exported for testing
+ */
+export function toLogRecord(
+  fields: Record<string, unknown>,
+  active: Context = context.active()
+): LogRecord {
+  const attributes = Object.fromEntries(
+    Object.entries(fields).filter(([key]) => !RESERVED_FIELDS.has(key))
+  ) as AnyValueMap;
+  const recordContext = traceContext(fields, active);
+  const time = typeof fields.time === 'string' || typeof fields.time === 'number';
+
+  return {
+    ...toSeverity(fields.level),
+    ...(time && { timestamp: new Date(fields.time as string | number) }),
+    ...(typeof fields.msg === 'string' && { body: fields.msg }),
+    attributes,
+    ...(recordContext && { context: recordContext }),
+  };
+}
+
+/**
+ * pino destination emitting every JSON line it receives as a LogRecord
+ */
+export class OtelLogDestination {
+  constructor(private readonly otelLogger: OtelLogger) {}
+
+  write(line: string): void {
+    let fields: unknown;
+    try {
+      fields = JSON.parse(line);
+    } catch {
+      // Not a JSON line (e.g. written by a custom formatter); stdout still has it
+      return;
+    }
+    if (typeof fields === 'object' && fields !== null) {
+      this.otelLogger.emit(toLogRecord(fields as Record<string, unknown>));
+    }
+  }
+}
+
+let provider: LoggerProvider | undefined;
+
+/**
+ * Create the process-wide logger provider exporting over OTLP, when an endpoint is configured
+ * Subsequent calls return the existing provider
+ */
+export function initializeLogExport(
+  config: Pick<AppConfig, 'app' | 'service' | 'log' | 'otlp'>
+): LoggerProvider | undefined {
+  if (!provider && config.log.otlpEndpoint) {
+    provider = new LoggerProvider({ resource: createServiceResource(config) });
+    provider.addLogRecordProcessor(
+      new BatchLogRecordProcessor(createOtlpLogExporter(config.otlp, config.log.otlpEndpoint), {
+        scheduledDelayMillis: config.log.exportDelayMs,
+      })
+    );
+  }
+  return provider;
+}
+
+/**
+ * Create the pino destination for the log export pipeline, if it is enabled
+ */
+export function createOtelLogDestination(
+  config: Pick<AppConfig, 'app' | 'service' | 'log' | 'otlp'>
+): OtelLogDestination | undefined {
+  const loggerProvider = initializeLogExport(config);
+  return loggerProvider
+    ? new OtelLogDestination(loggerProvider.getLogger(config.service.name, config.service.version))
+    : undefined;
+}
+
+/**
+ * Flush pending log records and shut the provider down
+ */
+export async function shutdownLogExport(): Promise<void> {
+  if (!provider) return;
+  const current = provider;
+  provider = undefined;
+  await current.shutdown();
+}
@@ -0,0 +1,228 @@
+/**
+ * Runtime Log Levels
+ *
+ * Named module loggers (`getLogger('http')`) get their level from here, so it
+ * can change without a restart:
+ * - Base levels come from LOG_LEVEL and per-module LOG_MODULE_LEVELS
+ * - Overrides set through the admin API, optionally time-boxed so they revert
+ *   on their own
+ * - A SIGUSR2 toggle raising every module to at least debug
+ */
+
+import type pino from 'pino';
+import type { LogLevel } from './config.js';
+
+/** Module name of the root logger */
+export const ROOT_MODULE = 'root';
+
+// Names double as log fields and URL segments
+const MODULE_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+// Levels above debug (less verbose) are lowered by the debug toggle
+const ABOVE_DEBUG = new Set<LogLevel>(['info', 'warn', 'error', 'fatal', 'silent']);
+
+export interface LogLevelDefaults {
+  /** Level for modules without their own base level */
+  level: LogLevel;
+  /** Base levels by module name */
+  modules: Readonly<Record<string, LogLevel>>;
+}
+
+interface Override {
+  level: LogLevel;
+  expiresAt: number | undefined;
+  timer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * Level state of one module, as reported for inspection
+ */
+export interface ModuleLevel {
+  /** Level currently applied */
+  level: LogLevel;
+  /** Level from configuration */
+  base: LogLevel;
+  override?: { level: LogLevel; expires_at: string | null };
+}
+
+export interface LogLevelSnapshot {
+  default: LogLevel;
+  debug_toggle: { active: boolean; expires_at: string | null };
+  modules: Record<string, ModuleLevel>;
+}
+
+/**
+ * Check that a name can be used for a module logger
+ */
+export function isValidModuleName(name: string): boolean {
+  return MODULE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Owns the level of every registered module logger
+ */
+export class LogLevelController {
+  private readonly loggers = new Map<string, pino.Logger>();
+  private readonly overrides = new Map<string, Override>();
+  private readonly baseLevels: Map<string, LogLevel>;
+  private debugToggle: Override | undefined;
+
+  constructor(
+    private readonly defaults: LogLevelDefaults,
+    private readonly log?: pino.Logger,
+    private readonly now: () => number = Date.now
+  ) {
+    this.baseLevels = new Map(Object.entries(defaults.modules));
+  }
+
+  /**
+   * Register a module logger and apply its current level
+   */
+  register(name: string, logger: pino.Logger): void {
+    this.loggers.set(name, logger);
+    this.apply(name);
+  }
+
+  /** Names of modules with a registered logger or an override */
+  get modules(): string[] {
+    return [...new Set([...this.loggers.keys(), ...this.overrides.keys()])].sort();
+  }
+
+  /**
+   * Level a module should log at right now
+   */
+  levelOf(name: string): LogLevel {
+    const level = this.overrides.get(name)?.level ?? this.baseLevelOf(name);
+    // The debug toggle only ever makes a module more verbose
+    return this.debugToggle && ABOVE_DEBUG.has(level) ? 'debug' : level;
+  }
+
+  /**
+   * Override a module's level; with `ttlMs` the override reverts by itself
+   * Modules without a logger yet pick the override up when they register
+   */
+  setLevel(name: string, level: LogLevel, options: { ttlMs?: number } = {}): ModuleLevel {
+    if (!isValidModuleName(name)) {
+      throw new Error(`Invalid module name "${name}"`);
+    }
+    this.clearTimer(this.overrides.get(name));
+    this.overrides.set(
+      name,
+      this.createOverride(level, options.ttlMs, () => this.reset(name))
+    );
+    this.apply(name);
+    this.log?.info({ module: name, level, ttl_ms: options.ttlMs }, 'Log level overridden');
+    return this.describe(name);
+  }
+
+  /**
+   * Remove a module's override, returning it to its base level
+   * Returns false when the module had no override
+   */
+  reset(name: string): boolean {
+    const override = this.overrides.get(name);
+    if (!override) return false;
+
+    this.clearTimer(override);
+    this.overrides.delete(name);
+    this.apply(name);
+    this.log?.info({ module: name, level: this.levelOf(name) }, 'Log level override removed');
+    return true;
+  }
+
+  /**
+   * Flip every module to at least debug, or back; returns whether debug is now on
+   */
+  toggleDebug(options: { ttlMs?: number } = {}): boolean {
+    if (this.debugToggle) {
+      this.clearTimer(this.debugToggle);
+      this.debugToggle = undefined;
+    } else {
+      this.debugToggle = this.createOverride('debug', options.ttlMs, () => this.toggleDebug());
+    }
+    this.applyAll();
+
+    const active = this.debugToggle !== undefined;
+    this.log?.info({ active, ttl_ms: active ? options.ttlMs : undefined }, 'Debug logging toggled');
+    return active;
+  }
+
+  /**
+   * Current level map, for the admin API
+   */
+  snapshot(): LogLevelSnapshot {
+    return {
+      default: this.defaults.level,
+      debug_toggle: {
+        active: this.debugToggle !== undefined,
+        expires_at: this.expiry(this.debugToggle),
+      },
+      modules: Object.fromEntries(this.modules.map((name) => [name, this.describe(name)])),
+    };
+  }
+
+  private baseLevelOf(name: string): LogLevel {
+    return this.baseLevels.get(name) ?? this.defaults.level;
+  }
+
+  private describe(name: string): ModuleLevel {
+    const override = this.overrides.get(name);
+    return {
+      level: this.levelOf(name),
+      base: this.baseLevelOf(name),
+      ...(override && {
+        override: { level: override.level, expires_at: this.expiry(override) },
+      }),
+    };
+  }
+
+  private expiry(override: Override | undefined): string | null {
+    return override?.expiresAt === undefined ? null : new Date(override.expiresAt).toISOString();
+  }
+
+  private createOverride(level: LogLevel, ttlMs: number | undefined, revert: () => void): Override {
+    if (!ttlMs) return { level, expiresAt: undefined, timer: undefined };
+
+    const timer = setTimeout(revert, ttlMs);
+    // An override waiting to expire must not keep the process alive
+    timer.unref();
+    return { level, expiresAt: this.now() + ttlMs, timer };
+  }
+
+  private clearTimer(override: Override | undefined): void {
+    if (override?.timer) clearTimeout(override.timer);
+  }
+
+  private apply(name: string): void {
+    const logger = this.loggers.get(name);
+    if (logger) logger.level = this.levelOf(name);
+  }
+
+  private applyAll(): void {
+    for (const name of this.loggers.keys()) {
+      this.apply(name);
+    }
+  }
+}
+
+/**
+ * Toggle debug logging on `signal` (SIGUSR2 by default); returns an uninstall function
+ * `onToggle` is told whether debug logging is now active.
+ */
+export function handleLogLevelSignal(
+  controller: LogLevelController,
+  options: { ttlMs?: number; signal?: string; onToggle?: (active: boolean) => void } = {}
+): () => void {
+  const signal = options.signal ?? 'SIGUSR2';
+  const onSignal = () => {
+    const active = controller.toggleDebug(
+      options.ttlMs === undefined ? {} : { ttlMs: options.ttlMs }
+    );
+    options.onToggle?.(active);
+  };
+
+  process.on(signal, onSignal);
+  return () => {
+    process.off(signal, onSignal);
+  };
+}
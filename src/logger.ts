@@ -2,59 +2,90 @@
  * Enhanced Pino Logger with OpenTelemetry Trace Correlation
  *
  * Provides structured logging with automatic trace context injection
- * for correlating logs with distributed traces.
+ * for correlating logs with distributed traces. Lines go to stdout and,
+ * when OTEL_EXPORTER_OTLP_LOGS_ENDPOINT is set, to the OTLP logs pipeline.
+ * Named module loggers (`getLogger('http')`) have levels adjustable at runtime.
+ * Lines written on behalf of a request carry its async context (request ID,
+ * tenant, user, trace), including those from timers and background work.
  */
 
 import pino from 'pino';
 import { getTraceContext } from './observability.js';
-
-/**
- * Parse filename from full path
- * Exported for testing
- */
-export function parseFileName(filePath: string | undefined): string {
-  if (!filePath) return 'unknown';
-  const fileName = filePath.split('/').pop();
-  return fileName || 'unknown';
-}
+import { getConfig, type AppConfig } from './config.js';
+import { createOtelLogDestination } from './log-export.js';
+import { createLogRedaction } from './redaction.js';
+import { LogLevelController, ROOT_MODULE } from './log-levels.js';
+import {
+  captureStack,
+  findLogCaller,
+  formatLocation,
+  selectCallerFrame,
+  type CalledFunction,
+} from './caller.js';
+import { getAsyncContext, getContextTraceIds } from './async-context.js';
 
 /**
  * Get caller information for debugging
- * Returns file name, function name, and line number
+ * Returns the file name and line number of the code making the log call,
+ * found below `logMethod` (the pino method writing the line) when given
  * Exported for direct testing
  */
-export function getCallerInfo(): string | undefined {
+export function getCallerInfo(logMethod?: CalledFunction): string | undefined {
   try {
-    const stack = new Error().stack;
-    if (!stack) return undefined;
-
-    const lines = stack.split('\n');
-    // Skip first 3 lines: Error, getCallerInfo, mixin function
-    for (let i = 3; i < lines.length; i++) {
-      const line = lines.at(i);
-      if (line && !line.includes('node_modules') && !line.includes('pino')) {
-        // Extract file:line:column from stack trace
-        const match = line.match(/\((.+):(\d+):(\d+)\)$/) || line.match(/at (.+):(\d+):(\d+)$/);
-        if (match) {
-          const [, file, lineNum] = match;
-          // Get just the filename, not the full path
-          const fileName = parseFileName(file);
-          return `${fileName}:${lineNum}`;
-        }
-      }
+    let frame = logMethod && findLogCaller(logMethod);
+    if (!frame) {
+      // Leave this function's own frame out
+      const stack = captureStack(1);
+      frame = stack && selectCallerFrame(stack);
     }
+    return frame && formatLocation(frame);
   } catch {
     // Silently fail if we can't get caller info
   }
   return undefined;
 }
 
+// The pino method writing lines at each level, whose caller made the log call
+const LOG_METHODS = new Map<number, (logger: pino.Logger) => pino.LogFn>([
+  [10, (logger) => logger.trace],
+  [20, (logger) => logger.debug],
+  [30, (logger) => logger.info],
+  [40, (logger) => logger.warn],
+  [50, (logger) => logger.error],
+  [60, (logger) => logger.fatal],
+]);
+
+// Loggers bound to a request (its `ctx.log` and children) already carry its ID and trace
+const requestBound = new WeakMap<pino.Logger, boolean>();
+
+function isRequestBound(logger: pino.Logger | undefined): boolean {
+  if (!logger) return false;
+  let bound = requestBound.get(logger);
+  if (bound === undefined) {
+    bound = 'request_id' in logger.bindings();
+    requestBound.set(logger, bound);
+  }
+  return bound;
+}
+
 /**
- * Create mixin data with trace context and caller info
+ * Trace context of the active span, or else of the current async context
+ */
+function currentTraceIds(bound = false): { traceId?: string; spanId?: string } | undefined {
+  return getTraceContext() ?? (bound ? undefined : getContextTraceIds());
+}
+
+/**
+ * Create mixin data with trace context, request context and caller info
  * Exported for direct testing
  */
-export function createLogMixin(includeLocation = true): Record<string, unknown> {
-  const traceContext = getTraceContext();
+export function createLogMixin(
+  includeLocation = true,
+  logger?: pino.Logger,
+  level?: number
+): Record<string, unknown> {
+  const bound = isRequestBound(logger);
+  const traceContext = currentTraceIds(bound);
   const mixinData: Record<string, unknown> = {};
 
   // Add trace context if available
@@ -63,9 +94,18 @@ export function createLogMixin(includeLocation = true): Record<string, unknown>
     mixinData.span_id = traceContext.spanId;
   }
 
+  // Add request-scoped values, also present in timers and background work (see async-context.ts)
+  const context = getAsyncContext();
+  if (context) {
+    if (context.requestId && !bound) mixinData.request_id = context.requestId;
+    if (context.tenantId) mixinData.tenant_id = context.tenantId;
+    if (context.userId) mixinData.user_id = context.userId;
+  }
+
   // Add caller location if enabled (useful for debugging)
   if (includeLocation) {
-    const caller = getCallerInfo();
+    const method = logger && level !== undefined ? LOG_METHODS.get(level)?.(logger) : undefined;
+    const caller = getCallerInfo(method);
     if (caller) {
       mixinData.caller = caller;
     }
@@ -75,25 +115,19 @@ export function createLogMixin(includeLocation = true): Record<string, unknown>
 }
 
 /**
- * Create logger configuration object
+ * Create logger configuration object from application config
  * Exported for testing
  */
-export function createLoggerConfig(
-  env: {
-    NODE_ENV?: string;
-    LOG_LEVEL?: string;
-    LOG_INCLUDE_LOCATION?: string;
-    OTEL_SERVICE_NAME?: string;
-    npm_package_name?: string;
-    OTEL_SERVICE_VERSION?: string;
-    npm_package_version?: string;
-  } = process.env
-): pino.LoggerOptions {
-  const isProduction = env.NODE_ENV === 'production';
-  const includeLocation = env.LOG_INCLUDE_LOCATION !== 'false';
+export function createLoggerConfig(config: AppConfig = getConfig()): pino.LoggerOptions {
+  const isProduction = config.app.environment === 'production';
+  const includeLocation = config.log.includeLocation;
+  // Numeric level from which lines get a caller location
+  const locationLevel =
+    new Map(Object.entries(pino.levels.values)).get(config.log.locationLevel) ?? 0;
+  const redaction = createLogRedaction(config.log.redaction);
 
   return {
-    level: env.LOG_LEVEL || 'info',
+    level: config.log.level,
     // Enable pretty printing in development
     ...(isProduction
       ? {}
@@ -108,7 +142,12 @@ export function createLoggerConfig(
           },
         }),
     // Custom mixin to automatically inject trace context and caller info
-    mixin: () => createLogMixin(includeLocation),
+    mixin: (_mergeObject, level, logger) =>
+      createLogMixin(includeLocation && level >= locationLevel, logger, level),
+    // Keep secrets and personal data out of log output (see redaction.ts)
+    redact: redaction.redact,
+    serializers: redaction.serializers,
+    ...(redaction.hooks && { hooks: redaction.hooks }),
     // Format timestamps consistently
     timestamp: pino.stdTimeFunctions.isoTime,
     // Add correlation ID for request tracking
@@ -120,10 +159,11 @@ export function createLoggerConfig(
         return {
           pid: bindings.pid,
           hostname: bindings.hostname,
-          service: env.OTEL_SERVICE_NAME || env.npm_package_name || 'ts-backend-template',
-          version: env.OTEL_SERVICE_VERSION || env.npm_package_version || '1.0.0',
+          service: config.service.name,
+          version: config.service.version,
         };
       },
+      ...(redaction.formatLog && { log: redaction.formatLog }),
     },
   };
 }
@@ -132,9 +172,24 @@ export function createLoggerConfig(
  * Create enhanced logger with trace correlation support
  * Exported for testing
  */
-export function createLogger(config?: pino.LoggerOptions): pino.Logger {
-  const loggerConfig = config || createLoggerConfig();
-  return pino(loggerConfig);
+export function createLogger(
+  config?: pino.LoggerOptions,
+  appConfig: AppConfig = getConfig()
+): pino.Logger {
+  const loggerConfig = config || createLoggerConfig(appConfig);
+  const otelDestination = createOtelLogDestination(appConfig);
+  if (!otelDestination) return pino(loggerConfig);
+
+  // Keep the usual stdout (or pretty) output and feed the export pipeline alongside it
+  const { transport, ...options } = loggerConfig;
+  const stdout = transport ? pino.transport(transport) : pino.destination(1);
+  return pino(
+    options,
+    pino.multistream([
+      { level: 'trace', stream: stdout },
+      { level: 'trace', stream: otelDestination },
+    ])
+  );
 }
 
 /**
@@ -166,11 +221,40 @@ export class LoggerFactory {
 // Global factory instance
 const globalLoggerFactory = new LoggerFactory();
 
+const moduleLoggers = new Map<string, pino.Logger>();
+let levelController: LogLevelController | undefined;
+
+/**
+ * Get the controller that owns module logger levels
+ */
+export function getLogLevelController(): LogLevelController {
+  if (!levelController) {
+    const config = getConfig();
+    const root = globalLoggerFactory.getLogger();
+    levelController = new LogLevelController(
+      { level: config.log.level, modules: config.log.moduleLevels },
+      root
+    );
+    levelController.register(ROOT_MODULE, root);
+  }
+  return levelController;
+}
+
 /**
- * Get the global logger instance with trace correlation
+ * Get the global logger instance with trace correlation, or the named module logger
+ * Module loggers tag their lines with `module` and have their own runtime level
  */
-export function getLogger(): pino.Logger {
-  return globalLoggerFactory.getLogger();
+export function getLogger(module?: string): pino.Logger {
+  const root = globalLoggerFactory.getLogger();
+  if (module === undefined || module === ROOT_MODULE) return root;
+
+  let moduleLogger = moduleLoggers.get(module);
+  if (!moduleLogger) {
+    moduleLogger = root.child({ module });
+    moduleLoggers.set(module, moduleLogger);
+    getLogLevelController().register(module, moduleLogger);
+  }
+  return moduleLogger;
 }
 
 /**
@@ -194,7 +278,7 @@ export function logWithTrace(
   message: string,
   data?: Record<string, unknown>
 ) {
-  const traceContext = getTraceContext();
+  const traceContext = currentTraceIds();
   const logData = traceContext
     ? { ...data, trace_id: traceContext.traceId, span_id: traceContext.spanId }
     : data;
@@ -0,0 +1,30 @@
+/**
+ * Metrics Endpoint
+ *
+ * Records every completed request into the application metrics and serves
+ * them in Prometheus text exposition format. Kept apart from the metrics
+ * module so telemetry setup does not depend on the HTTP layer.
+ */
+
+import { Elysia, t } from 'elysia';
+import { PROMETHEUS_CONTENT_TYPE, type AppMetrics } from './metrics.js';
+import { onRequestCompleted } from './request-context.js';
+
+/**
+ * Elysia plugin recording request metrics and serving them at `path`
+ */
+export function metricsPlugin(appMetrics: AppMetrics, path: string) {
+  return new Elysia({ name: 'metrics' })
+    .use(onRequestCompleted('metrics-recorder', (completed) => appMetrics.recordRequest(completed)))
+    .get(
+      path,
+      async ({ set }) => {
+        set.headers['content-type'] = PROMETHEUS_CONTENT_TYPE;
+        return appMetrics.renderPrometheus();
+      },
+      {
+        response: t.String({ description: 'Prometheus text exposition format' }),
+        detail: { summary: 'Application metrics', tags: ['Observability'] },
+      }
+    );
+}
@@ -0,0 +1,216 @@
+/**
+ * Metrics
+ *
+ * RED (rate, errors, duration) metrics for every HTTP request plus basic
+ * process health gauges, recorded through an OpenTelemetry MeterProvider:
+ * - Scraped as Prometheus text from the metrics endpoint
+ * - Optionally pushed to an OTLP endpoint on a fixed interval
+ */
+
+import { metrics, type Counter, type Histogram, type Meter } from '@opentelemetry/api';
+import {
+  MeterProvider,
+  PeriodicExportingMetricReader,
+  type MetricReader,
+} from '@opentelemetry/sdk-metrics';
+import { PrometheusExporter, PrometheusSerializer } from '@opentelemetry/exporter-prometheus';
+import { monitorEventLoopDelay, type IntervalHistogram } from 'perf_hooks';
+import { getConfig, type AppConfig } from './config.js';
+import { createServiceResource } from './resource.js';
+import { createOtlpMetricExporter } from './otlp.js';
+
+// Prometheus text exposition format served on the metrics endpoint
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Seconds; tuned for typical API latencies from a few ms to several seconds
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Route label for requests that matched no route, keeping label cardinality bounded
+const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * Owns the meter provider, its readers and the application instruments
+ */
+export class AppMetrics {
+  private readonly provider: MeterProvider;
+  private readonly prometheus: PrometheusExporter;
+  private readonly serializer = new PrometheusSerializer();
+  private readonly eventLoopDelay: IntervalHistogram;
+  private readonly requests: Counter;
+  private readonly errors: Counter;
+  private readonly duration: Histogram;
+  private readonly deprecatedRequests: Counter;
+  private readonly throttledRequests: Counter;
+
+  constructor(config: Pick<AppConfig, 'app' | 'service' | 'metrics' | 'otlp'>) {
+    this.prometheus = new PrometheusExporter({ preventServerStart: true });
+    const readers: MetricReader[] = [this.prometheus];
+    if (config.metrics.otlpEndpoint) {
+      readers.push(
+        new PeriodicExportingMetricReader({
+          exporter: createOtlpMetricExporter(config.otlp, config.metrics.otlpEndpoint),
+          exportIntervalMillis: config.metrics.exportIntervalMs,
+        })
+      );
+    }
+
+    this.provider = new MeterProvider({ resource: createServiceResource(config), readers });
+    const meter = this.provider.getMeter(config.service.name, config.service.version);
+
+    this.requests = meter.createCounter('http.server.requests', {
+      description: 'Number of HTTP requests handled',
+    });
+    this.errors = meter.createCounter('http.server.errors', {
+      description: 'Number of HTTP requests that failed with a 5xx status',
+    });
+    this.duration = meter.createHistogram('http.server.request.duration', {
+      description: 'Duration of HTTP requests',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+    });
+    this.deprecatedRequests = meter.createCounter('http.server.deprecated_requests', {
+      description: 'Number of HTTP requests served by deprecated routes',
+    });
+    this.throttledRequests = meter.createCounter('http.server.throttled_requests', {
+      description: 'Number of HTTP requests rejected by rate limiting',
+    });
+
+    this.eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+    this.eventLoopDelay.enable();
+    this.registerProcessGauges(meter);
+  }
+
+  /**
+   * The meter provider, for registration as the global provider
+   */
+  get meterProvider(): MeterProvider {
+    return this.provider;
+  }
+
+  private registerProcessGauges(meter: Meter): void {
+    meter
+      .createObservableGauge('process.event_loop.lag', {
+        description: 'Mean event loop delay since the previous collection',
+        unit: 's',
+      })
+      .addCallback((result) => {
+        // Reported in nanoseconds; NaN until the first sample is taken
+        const mean = this.eventLoopDelay.mean;
+        result.observe(Number.isNaN(mean) ? 0 : mean / 1e9);
+        this.eventLoopDelay.reset();
+      });
+    meter
+      .createObservableGauge('process.memory.heap_used', {
+        description: 'V8 heap memory in use',
+        unit: 'By',
+      })
+      .addCallback((result) => result.observe(process.memoryUsage().heapUsed));
+    meter
+      .createObservableGauge('process.memory.rss', {
+        description: 'Resident set size',
+        unit: 'By',
+      })
+      .addCallback((result) => result.observe(process.memoryUsage.rss()));
+    meter
+      .createObservableGauge('process.uptime', {
+        description: 'Time since the process started',
+        unit: 's',
+      })
+      .addCallback((result) => result.observe(process.uptime()));
+  }
+
+  /**
+   * Record the outcome of a completed request
+   */
+  recordRequest(completed: {
+    request: Request;
+    route: string | undefined;
+    status: number;
+    durationMs: number;
+  }): void {
+    const attributes = {
+      'http.request.method': completed.request.method,
+      'http.route': completed.route ?? UNMATCHED_ROUTE,
+      'http.response.status_code': completed.status,
+    };
+
+    this.requests.add(1, attributes);
+    if (completed.status >= 500) {
+      this.errors.add(1, attributes);
+    }
+    this.duration.record(completed.durationMs / 1000, attributes);
+  }
+
+  /**
+   * Record a request served by a deprecated route (see versioning.ts)
+   */
+  recordDeprecatedRequest(deprecated: {
+    request: Request;
+    route: string | undefined;
+    version: number;
+  }): void {
+    this.deprecatedRequests.add(1, {
+      'http.request.method': deprecated.request.method,
+      'http.route': deprecated.route ?? UNMATCHED_ROUTE,
+      'api.version': deprecated.version,
+    });
+  }
+
+  /**
+   * Record a request rejected by rate limiting (see rate-limit.ts)
+   */
+  recordThrottledRequest(throttled: {
+    request: Request;
+    route: string | undefined;
+    budget: string;
+  }): void {
+    this.throttledRequests.add(1, {
+      'http.request.method': throttled.request.method,
+      'http.route': throttled.route ?? UNMATCHED_ROUTE,
+      'rate_limit.budget': throttled.budget,
+    });
+  }
+
+  /**
+   * Collect all metrics and render them in the Prometheus text format
+   */
+  async renderPrometheus(): Promise<string> {
+    const { resourceMetrics } = await this.prometheus.collect();
+    return this.serializer.serialize(resourceMetrics);
+  }
+
+  /**
+   * Flush pending exports and stop all readers
+   */
+  async shutdown(): Promise<void> {
+    this.eventLoopDelay.disable();
+    await this.provider.shutdown();
+  }
+}
+
+let instance: AppMetrics | undefined;
+
+/**
+ * Create the process-wide metrics instance and register it as the global meter provider
+ * Subsequent calls return the existing instance
+ */
+export function initializeMetrics(
+  config: Pick<AppConfig, 'app' | 'service' | 'metrics' | 'otlp'> = getConfig()
+): AppMetrics {
+  if (!instance) {
+    instance = new AppMetrics(config);
+    metrics.setGlobalMeterProvider(instance.meterProvider);
+  }
+  return instance;
+}
+
+/**
+ * Shut down the process-wide metrics instance, if one was created
+ */
+export async function shutdownMetrics(): Promise<void> {
+  if (!instance) return;
+  const current = instance;
+  instance = undefined;
+  await current.shutdown();
+  metrics.disable();
+}
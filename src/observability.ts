@@ -2,59 +2,71 @@
  * OpenTelemetry Configuration for TypeScript Backend Template
  *
  * Provides minimal, production-ready observability setup with:
- * - HTTP request auto-instrumentation
- * - Configurable exporters (console for dev, OTLP for production)
+ * - Server spans from the Elysia tracing plugin (see tracing.ts)
+ * - Configurable exporters (console for dev, OTLP over HTTP or gRPC for production)
+ * - Sampling from OTEL_TRACES_SAMPLER / OTEL_TRACES_SAMPLER_ARG
  * - Trace correlation support for logging
  * - Environment-based configuration
  */
 
 import { NodeSDK } from '@opentelemetry/sdk-node';
-import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
-import { ConsoleSpanExporter, BatchSpanProcessor } from '@opentelemetry/sdk-trace-node';
-import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
-import { Resource } from '@opentelemetry/resources';
-import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
-import { trace } from '@opentelemetry/api';
+import {
+  AlwaysOffSampler,
+  AlwaysOnSampler,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+  type Sampler,
+} from '@opentelemetry/sdk-trace-node';
+import { trace, SpanStatusCode, type Span } from '@opentelemetry/api';
+import {
+  ATTR_ERROR_TYPE,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+} from '@opentelemetry/semantic-conventions';
+import { getConfig, type AppConfig } from './config.js';
+import { createServiceResource } from './resource.js';
+import { initializeMetrics } from './metrics.js';
+import { createOtlpTraceExporter } from './otlp.js';
 
 /**
- * Environment configuration for OpenTelemetry
+ * Build the sampler named by OTEL_TRACES_SAMPLER
+ * Exported for testing
  */
-interface OTelConfig {
-  serviceName: string;
-  serviceVersion: string;
-  environment: string;
-  otlpEndpoint: string | undefined;
-  enableTracing: boolean;
-  consoleExporter: boolean;
-}
-
-/**
- * Get OpenTelemetry configuration from environment variables
- */
-function getOTelConfig(): OTelConfig {
-  return {
-    serviceName:
-      process.env.OTEL_SERVICE_NAME || process.env.npm_package_name || 'ts-backend-template',
-    serviceVersion: process.env.OTEL_SERVICE_VERSION || process.env.npm_package_version || '1.0.0',
-    environment: process.env.NODE_ENV || 'development',
-    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
-    enableTracing: process.env.OTEL_TRACING_ENABLED !== 'false',
-    consoleExporter:
-      process.env.OTEL_CONSOLE_EXPORTER === 'true' || process.env.NODE_ENV === 'development',
-  };
+export function createSampler(otel: Pick<AppConfig['otel'], 'sampler' | 'samplerRatio'>): Sampler {
+  switch (otel.sampler) {
+    case 'always_on':
+      return new AlwaysOnSampler();
+    case 'always_off':
+      return new AlwaysOffSampler();
+    case 'traceidratio':
+      return new TraceIdRatioBasedSampler(otel.samplerRatio);
+    case 'parentbased_always_on':
+      return new ParentBasedSampler({ root: new AlwaysOnSampler() });
+    case 'parentbased_always_off':
+      return new ParentBasedSampler({ root: new AlwaysOffSampler() });
+    case 'parentbased_traceidratio':
+      return new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(otel.samplerRatio) });
+  }
 }
 
 /**
- * Initialize OpenTelemetry SDK with auto-instrumentation
+ * Initialize OpenTelemetry SDK (exporters, resource, context manager and propagators)
  *
- * This should be called BEFORE importing any other modules that need to be instrumented.
- * For Bun/Node.js applications, call this at the very beginning of your entry point.
+ * Call this at the very beginning of your entry point, before the app handles requests.
+ * Uses the process-wide configuration when none is passed.
  */
-export function initializeOTel(): NodeSDK | null {
-  const config = getOTelConfig();
+export function initializeOTel(config: AppConfig = getConfig()): NodeSDK | null {
+  const { service, otel } = config;
+
+  // Metrics are independent of tracing and share the same resource
+  if (config.metrics.enabled) {
+    initializeMetrics(config);
+  }
 
   // Skip initialization if tracing is disabled
-  if (!config.enableTracing) {
+  if (!otel.tracingEnabled) {
     // eslint-disable-next-line no-console
     console.log('OpenTelemetry tracing disabled via OTEL_TRACING_ENABLED=false');
     return null;
@@ -64,21 +76,13 @@ export function initializeOTel(): NodeSDK | null {
   const spanExporters = [];
 
   // Add console exporter for development or when explicitly enabled
-  if (config.consoleExporter) {
+  if (otel.consoleExporter) {
     spanExporters.push(new ConsoleSpanExporter());
   }
 
   // Add OTLP exporter for production or when endpoint is configured
-  if (config.otlpEndpoint) {
-    spanExporters.push(
-      new OTLPTraceExporter({
-        url: config.otlpEndpoint,
-        headers: {
-          // Add authentication headers if needed
-          // 'Authorization': `Bearer ${process.env.OTEL_API_KEY}`,
-        },
-      })
-    );
+  if (otel.tracesEndpoint) {
+    spanExporters.push(createOtlpTraceExporter(config.otlp, otel.tracesEndpoint));
   }
 
   // Fallback to console exporter if no exporters configured
@@ -89,39 +93,28 @@ export function initializeOTel(): NodeSDK | null {
   }
 
   // Create resource with service information
-  const resource = new Resource({
-    [ATTR_SERVICE_NAME]: config.serviceName,
-    [ATTR_SERVICE_VERSION]: config.serviceVersion,
-    'service.environment': config.environment,
-  });
+  const resource = createServiceResource(config);
 
-  // Initialize SDK with auto-instrumentations and span processors
+  // Initialize SDK with span processors
   const spanProcessors = spanExporters.map((exporter) => new BatchSpanProcessor(exporter));
 
   const sdk = new NodeSDK({
     resource,
+    // Traces must carry exactly the resource metrics use, so the SDK's own detectors
+    // (which would re-read OTEL_RESOURCE_ATTRIBUTES from process.env) stay off
+    autoDetectResources: false,
+    sampler: createSampler(otel),
     spanProcessors,
-    instrumentations: [
-      getNodeAutoInstrumentations({
-        // Disable instrumentations not needed for basic HTTP tracing
-        '@opentelemetry/instrumentation-fs': { enabled: false },
-        '@opentelemetry/instrumentation-dns': { enabled: false },
-        '@opentelemetry/instrumentation-net': { enabled: false },
-        // Enable HTTP instrumentation (most important for web APIs)
-        '@opentelemetry/instrumentation-http': { enabled: true },
-        '@opentelemetry/instrumentation-express': { enabled: true },
-        '@opentelemetry/instrumentation-fastify': { enabled: true },
-      }),
-    ],
+    // Bun's native server is invisible to Node's HTTP instrumentation; server spans
+    // come from the Elysia tracing plugin instead (see tracing.ts)
+    instrumentations: [],
   });
 
   // Start the SDK
   try {
     sdk.start();
     // eslint-disable-next-line no-console
-    console.log(
-      `OpenTelemetry initialized for service: ${config.serviceName}@${config.serviceVersion}`
-    );
+    console.log(`OpenTelemetry initialized for service: ${service.name}@${service.version}`);
     return sdk;
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -168,3 +161,41 @@ export function getTraceContext(): { traceId?: string; spanId?: string } | undef
 
   return undefined;
 }
+
+/**
+ * Add the matched route and response status to a server span
+ */
+export function setSpanHttpResponse(
+  span: Span | undefined,
+  response: { route: string | undefined; status: number }
+): void {
+  if (!span) return;
+  if (response.route) {
+    span.setAttribute(ATTR_HTTP_ROUTE, response.route);
+  }
+  span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+}
+
+/**
+ * Record an error caught by the global error handler on a span
+ *
+ * The exception is always recorded with its `error.type`; only 5xx responses
+ * mark the span as failed, since 4xx are the client's error, not the server's.
+ */
+export function recordSpanError(
+  span: Span | undefined,
+  error: unknown,
+  details: { status: number; errorType: string }
+): void {
+  if (!span) return;
+
+  const exception = error instanceof Error ? error : String(error);
+  span.recordException(exception);
+  span.setAttribute(ATTR_ERROR_TYPE, details.errorType);
+  if (details.status >= 500) {
+    span.setStatus({
+      code: SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
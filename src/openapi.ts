@@ -0,0 +1,238 @@
+/**
+ * OpenAPI Document
+ *
+ * Generates an OpenAPI 3.1 document from the schemas routes are declared with:
+ * - Paths, parameters, request bodies and responses come from each route's
+ *   params / query / headers / body / response schemas; TypeBox emits JSON
+ *   Schema, which OpenAPI 3.1 uses as is
+ * - Summaries, descriptions, tags and security come from the route's `detail`;
+ *   `detail.hide` leaves a route out
+ * - Error responses are documented once, as RFC 9457 problem details
+ *
+ * Served at /openapi.json, with an interactive API reference at /docs.
+ */
+
+import { Elysia, t, type InternalRoute, type TSchema } from 'elysia';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import { PROBLEM_CONTENT_TYPE } from './errors.js';
+
+/**
+ * Body of every error response (see errors.ts)
+ */
+export const ProblemSchema = t.Object(
+  {
+    type: t.String(),
+    title: t.String(),
+    status: t.Integer(),
+    detail: t.Optional(t.String()),
+    instance: t.String(),
+    code: t.String(),
+    request_id: t.String(),
+    trace_id: t.Optional(t.String()),
+    timestamp: t.String({ format: 'date-time' }),
+  },
+  { additionalProperties: true, description: 'RFC 9457 problem details' }
+);
+
+export interface OpenApiOptions {
+  info: OpenAPIV3_1.InfoObject;
+  /** Routes to document; read on every request, so routes added later are included */
+  routes: () => readonly InternalRoute[];
+  securitySchemes?: Record<string, OpenAPIV3_1.SecuritySchemeObject>;
+}
+
+const METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+
+const STATUS_DESCRIPTIONS = new Map<string, string>([
+  ['200', 'OK'],
+  ['201', 'Created'],
+  ['202', 'Accepted'],
+  ['204', 'No Content'],
+  ['503', 'Service Unavailable'],
+]);
+
+const PROBLEM_RESPONSE = { $ref: '#/components/responses/Problem' };
+
+type Schema = TSchema & OpenAPIV3_1.SchemaObject;
+type Operation = OpenAPIV3_1.OperationObject;
+
+/**
+ * Convert an Elysia path (`/items/:id`) to an OpenAPI path template (`/items/{id}`)
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(
+  schema: Schema | undefined,
+  location: 'path' | 'query' | 'header'
+): OpenAPIV3_1.ParameterObject[] {
+  const required = new Set(schema?.required ?? []);
+  // openapi-types still types parameter schemas as 3.0 schemas
+  return Object.entries(schema?.properties ?? {}).map(
+    ([name, property]) =>
+      ({
+        name,
+        in: location,
+        required: location === 'path' || required.has(name),
+        schema: property,
+      }) as OpenAPIV3_1.ParameterObject
+  );
+}
+
+function content(schema: Schema, fallbackType = 'application/json') {
+  const mediaType = schema.type === 'string' ? 'text/plain' : fallbackType;
+  return { [mediaType]: { schema } };
+}
+
+function responses(hooks: InternalRoute['hooks']): OpenAPIV3_1.ResponsesObject {
+  const declared = hooks.response as Schema | Record<string, Schema> | undefined;
+  if (!declared) return {};
+
+  // Either one schema for 200 or a map of status codes to schemas
+  const byStatus = Object.keys(declared).every((key) => /^\d{3}$/.test(key))
+    ? Object.entries(declared as Record<string, Schema>)
+    : [['200', declared as Schema] as const];
+
+  return Object.fromEntries(
+    byStatus.map(([status, schema]) => [
+      status,
+      {
+        description: schema.description ?? STATUS_DESCRIPTIONS.get(status) ?? `HTTP ${status}`,
+        content: content(schema),
+      },
+    ])
+  );
+}
+
+function toOperation(route: InternalRoute): Operation {
+  const { hooks } = route;
+  const {
+    hide: _hide,
+    responses: documented,
+    ...detail
+  } = (hooks.detail ?? {}) as Operation & {
+    hide?: boolean;
+  };
+  const body = hooks.body as Schema | undefined;
+  const operationParameters = [
+    ...parameters(hooks.params as Schema | undefined, 'path'),
+    ...parameters(hooks.query as Schema | undefined, 'query'),
+    ...parameters(hooks.headers as Schema | undefined, 'header'),
+  ];
+
+  return {
+    ...detail,
+    ...(operationParameters.length > 0 && { parameters: operationParameters }),
+    ...(body && { requestBody: { required: true, content: content(body) } }),
+    responses: { ...responses(hooks), ...documented, default: PROBLEM_RESPONSE },
+  };
+}
+
+/**
+ * Build the OpenAPI document for a set of routes
+ */
+export function createOpenApiDocument(
+  routes: readonly InternalRoute[],
+  options: Pick<OpenApiOptions, 'info' | 'securitySchemes'>
+): OpenAPIV3_1.Document {
+  const paths = new Map<string, Map<string, Operation>>();
+
+  for (const route of routes) {
+    const detail = route.hooks.detail as { hide?: boolean } | undefined;
+    if (!METHODS.has(route.method) || detail?.hide) continue;
+
+    const path = toOpenApiPath(route.path);
+    const operations = paths.get(path) ?? new Map<string, Operation>();
+    operations.set(route.method.toLowerCase(), toOperation(route));
+    paths.set(path, operations);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    paths: Object.fromEntries(
+      [...paths]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([path, operations]) => [path, Object.fromEntries(operations)])
+    ),
+    components: {
+      schemas: { Problem: ProblemSchema as Schema },
+      responses: {
+        Problem: {
+          description: 'Error',
+          content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/Problem' } } },
+        },
+      },
+      ...(Object.keys(options.securitySchemes ?? {}).length > 0 && {
+        securitySchemes: options.securitySchemes,
+      }),
+    },
+  };
+}
+
+// The API reference bundle, pinned to a release and checked against its hash;
+// update both together (sha384 of dist/browser/standalone.js in the npm package)
+const API_REFERENCE_SCRIPT =
+  'https://cdn.jsdelivr.net/npm/@scalar/api-reference@1.72.1/dist/browser/standalone.js';
+const API_REFERENCE_INTEGRITY =
+  'sha384-U11tb2XnKvmwt8RlTvnwUnYgrN+ur4Xyh9htLhjajWNR/Oyl5AX5DEz00qRmlrmK';
+
+/**
+ * Content-Security-Policy of the docs page, which loads the API reference from its CDN
+ * The reference injects its own styles and loads its fonts from fonts.scalar.com.
+ */
+export const DOCS_CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  `script-src ${API_REFERENCE_SCRIPT}`,
+  "style-src 'unsafe-inline' https://cdn.jsdelivr.net",
+  'font-src https://fonts.scalar.com data:',
+  "img-src 'self' data: https:",
+  "connect-src 'self'",
+  "frame-ancestors 'none'",
+].join('; ');
+
+/**
+ * HTML page rendering the API reference for the document at `specUrl`
+ * Exported for testing
+ */
+export function docsPage(title: string, specUrl: string): string {
+  return `<!doctype html>
+<html>
+  <head>
+    <title>${title} API reference</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="${specUrl}"></script>
+    <script
+      src="${API_REFERENCE_SCRIPT}"
+      integrity="${API_REFERENCE_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>`;
+}
+
+/**
+ * Elysia plugin serving /openapi.json and the /docs API reference
+ */
+export function openApi(options: OpenApiOptions) {
+  return new Elysia({ name: 'openapi' })
+    .get('/openapi.json', () => createOpenApiDocument(options.routes(), options), {
+      detail: { hide: true },
+    })
+    .get(
+      '/docs',
+      ({ set }) => {
+        set.headers['content-type'] = 'text/html; charset=utf-8';
+        // Relax the API policy set by the hardening plugin, when it is on
+        if (set.headers['content-security-policy']) {
+          set.headers['content-security-policy'] = DOCS_CONTENT_SECURITY_POLICY;
+        }
+        return docsPage(options.info.title, '/openapi.json');
+      },
+      { detail: { hide: true } }
+    );
+}
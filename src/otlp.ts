@@ -0,0 +1,88 @@
+/**
+ * OTLP Exporter Options
+ *
+ * Translates the shared OTEL_EXPORTER_OTLP_* settings (protocol, headers,
+ * compression, timeout) into exporter instances, so every signal talks to
+ * the collector the same way.
+ */
+
+import { Metadata } from '@grpc/grpc-js';
+import { CompressionAlgorithm } from '@opentelemetry/otlp-exporter-base';
+import { OTLPTraceExporter as OTLPHttpJsonTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPTraceExporter as OTLPProtoTraceExporter } from '@opentelemetry/exporter-trace-otlp-proto';
+import { OTLPTraceExporter as OTLPGrpcTraceExporter } from '@opentelemetry/exporter-trace-otlp-grpc';
+import { OTLPLogExporter as OTLPHttpJsonLogExporter } from '@opentelemetry/exporter-logs-otlp-http';
+import { OTLPLogExporter as OTLPProtoLogExporter } from '@opentelemetry/exporter-logs-otlp-proto';
+import { OTLPLogExporter as OTLPGrpcLogExporter } from '@opentelemetry/exporter-logs-otlp-grpc';
+import { OTLPMetricExporter as OTLPHttpJsonMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import { OTLPMetricExporter as OTLPProtoMetricExporter } from '@opentelemetry/exporter-metrics-otlp-proto';
+import { OTLPMetricExporter as OTLPGrpcMetricExporter } from '@opentelemetry/exporter-metrics-otlp-grpc';
+import type { SpanExporter } from '@opentelemetry/sdk-trace-node';
+import type { LogRecordExporter } from '@opentelemetry/sdk-logs';
+import type { PushMetricExporter } from '@opentelemetry/sdk-metrics';
+import type { AppConfig } from './config.js';
+
+export type OtlpOptions = AppConfig['otlp'];
+
+// Options shared by the OTLP/HTTP exporters
+function otlpHttpOptions(options: OtlpOptions, url: string) {
+  return {
+    url,
+    headers: { ...options.headers },
+    compression:
+      options.compression === 'gzip' ? CompressionAlgorithm.GZIP : CompressionAlgorithm.NONE,
+    timeoutMillis: options.timeoutMs,
+  };
+}
+
+// gRPC carries headers as call metadata
+function otlpGrpcOptions(options: OtlpOptions, url: string) {
+  const { headers, ...httpOptions } = otlpHttpOptions(options, url);
+  const metadata = new Metadata();
+  for (const [key, value] of Object.entries(headers)) {
+    metadata.set(key, value);
+  }
+  return { ...httpOptions, metadata };
+}
+
+/**
+ * Create the trace exporter for the configured protocol
+ */
+export function createOtlpTraceExporter(options: OtlpOptions, url: string): SpanExporter {
+  switch (options.protocol) {
+    case 'http/json':
+      return new OTLPHttpJsonTraceExporter(otlpHttpOptions(options, url));
+    case 'http/protobuf':
+      return new OTLPProtoTraceExporter(otlpHttpOptions(options, url));
+    case 'grpc':
+      return new OTLPGrpcTraceExporter(otlpGrpcOptions(options, url));
+  }
+}
+
+/**
+ * Create the log record exporter for the configured protocol
+ */
+export function createOtlpLogExporter(options: OtlpOptions, url: string): LogRecordExporter {
+  switch (options.protocol) {
+    case 'http/json':
+      return new OTLPHttpJsonLogExporter(otlpHttpOptions(options, url));
+    case 'http/protobuf':
+      return new OTLPProtoLogExporter(otlpHttpOptions(options, url));
+    case 'grpc':
+      return new OTLPGrpcLogExporter(otlpGrpcOptions(options, url));
+  }
+}
+
+/**
+ * Create the metric exporter for the configured protocol
+ */
+export function createOtlpMetricExporter(options: OtlpOptions, url: string): PushMetricExporter {
+  switch (options.protocol) {
+    case 'http/json':
+      return new OTLPHttpJsonMetricExporter(otlpHttpOptions(options, url));
+    case 'http/protobuf':
+      return new OTLPProtoMetricExporter(otlpHttpOptions(options, url));
+    case 'grpc':
+      return new OTLPGrpcMetricExporter(otlpGrpcOptions(options, url));
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Rate Limiting
+ *
+ * Per-client request budgets protecting the service from abusive callers:
+ * - `token-bucket` allows bursts of `limit` requests, refilled evenly over the
+ *   window; `sliding-window` allows `limit` requests in any window, weighting
+ *   the previous fixed window by how much of it the sliding window overlaps
+ * - Clients are keyed by API key, user, IP or a custom function, falling back
+ *   to the IP when the preferred identity is missing
+ * - Routes get the default budget unless their `rateLimit` option gives them
+ *   their own (shared by routes naming the same `budget`) or exempts them
+ * - Requests failing authentication also take from a per-IP budget that is
+ *   checked before credentials are, throttling attempts to guess them
+ * - Responses carry `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset`
+ *   and `RateLimit-Policy`; throttled requests fail with a 429 problem response
+ *   and `Retry-After`, and are counted in the metrics
+ * - Budgets live in a `RateLimitStore`: the in-memory store suits a single
+ *   instance, a shared store (e.g. Redis) keeps replicas consistent
+ *
+ * Usage:
+ *   app.post('/completions', complete, {
+ *     rateLimit: { budget: 'ai', limit: 10, windowMs: 60_000 },
+ *   })
+ */
+
+import { Elysia } from 'elysia';
+import type { RateLimitAlgorithm, RateLimitKey } from './config.js';
+import { RateLimitedError, UnauthorizedError } from './errors.js';
+import type { AppMetrics } from './metrics.js';
+import { getClientIp, type PeerAddressSource } from './request-context.js';
+import { getRequestPrincipal, type Principal } from './auth.js';
+
+export interface RateLimitRule {
+  algorithm: RateLimitAlgorithm;
+  /** Requests allowed per window (the burst size of a token bucket) */
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Outcome of taking one request from a budget
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the budget is fully restored */
+  resetMs: number;
+  /** Milliseconds until the next request would be allowed (0 when allowed) */
+  retryAfterMs: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface SlidingWindowState {
+  /** Start of the current fixed window */
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+export type RateLimitState = TokenBucketState | SlidingWindowState;
+
+/**
+ * Storage for budgets, shared by every route and client
+ */
+export interface RateLimitStore {
+  /**
+   * Take one request from the budget stored under `key`
+   * Must be atomic per key so that concurrent requests cannot overspend it;
+   * `consumeBudget` implements the algorithms for stores that hold plain state.
+   */
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision>;
+  /**
+   * Decision the next `consume` of `key` would make, without taking from the budget
+   */
+  peek(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision>;
+}
+
+function takeToken(
+  rule: RateLimitRule,
+  state: TokenBucketState | undefined,
+  now: number
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const perMs = rule.limit / rule.windowMs;
+  const available = state
+    ? Math.min(rule.limit, state.tokens + Math.max(0, now - state.updatedAt) * perMs)
+    : rule.limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((rule.limit - tokens) / perMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / perMs),
+    },
+  };
+}
+
+function countInWindow(
+  rule: RateLimitRule,
+  state: SlidingWindowState | undefined,
+  now: number
+): { state: SlidingWindowState; decision: RateLimitDecision } {
+  const { limit, windowMs } = rule;
+  const windowStart = now - (now % windowMs);
+  const elapsed = (now - windowStart) / windowMs;
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    ({ current, previous } = state);
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current;
+  }
+
+  const used = previous * (1 - elapsed) + current;
+  const allowed = used + 1 <= limit;
+  if (allowed) current += 1;
+
+  const untilNextWindow = windowStart + windowMs - now;
+  let retryAfterMs = 0;
+  if (!allowed) {
+    // Wait for the previous window to slide out far enough, or for the next window
+    // when the current one alone is exhausted
+    retryAfterMs =
+      current + 1 <= limit && previous > 0
+        ? Math.ceil((1 - elapsed - (limit - 1 - current) / previous) * windowMs)
+        : untilNextWindow + Math.ceil(Math.max(0, 1 - (limit - 1) / current) * windowMs);
+  }
+
+  return {
+    state: { windowStart, current, previous },
+    decision: {
+      allowed,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - used - (allowed ? 1 : 0))),
+      resetMs: current > 0 ? untilNextWindow + windowMs : previous > 0 ? untilNextWindow : 0,
+      retryAfterMs,
+    },
+  };
+}
+
+/**
+ * Apply `rule` to the stored state of a budget, returning its next state
+ */
+export function consumeBudget(
+  rule: RateLimitRule,
+  state: RateLimitState | undefined,
+  now: number
+): { state: RateLimitState; decision: RateLimitDecision } {
+  return rule.algorithm === 'token-bucket'
+    ? takeToken(rule, state && 'tokens' in state ? state : undefined, now)
+    : countInWindow(rule, state && 'windowStart' in state ? state : undefined, now);
+}
+
+// Idle budgets are dropped once they are back to full
+const SWEEP_EVERY = 1000;
+
+/**
+ * Budgets held in process memory; each replica limits clients on its own
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly budgets = new Map<string, { state: RateLimitState; expiresAt: number }>();
+  private operations = 0;
+
+  consume(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    if (++this.operations % SWEEP_EVERY === 0) this.sweep(now);
+
+    const { state, decision } = consumeBudget(rule, this.budgets.get(key)?.state, now);
+    this.budgets.set(key, { state, expiresAt: now + decision.resetMs });
+    return Promise.resolve(decision);
+  }
+
+  peek(key: string, rule: RateLimitRule, now: number): Promise<RateLimitDecision> {
+    return Promise.resolve(consumeBudget(rule, this.budgets.get(key)?.state, now).decision);
+  }
+
+  /**
+   * Number of budgets currently held
+   */
+  get size(): number {
+    return this.budgets.size;
+  }
+
+  private sweep(now: number): void {
+    for (const [key, { expiresAt }] of this.budgets) {
+      if (expiresAt <= now) this.budgets.delete(key);
+    }
+  }
+}
+
+/**
+ * What a custom key function can identify the client by
+ */
+export interface ClientContext {
+  request: Request;
+  principal: Principal | undefined;
+  ip: string | undefined;
+}
+
+/**
+ * Which client identity budgets are kept per, or a function returning the key
+ * (undefined falls back to the IP)
+ */
+export type ClientKey = RateLimitKey | ((context: ClientContext) => string | undefined);
+
+/**
+ * Key of the client making a request
+ * Exported for testing
+ */
+export function clientKey(by: ClientKey, context: ClientContext): string {
+  const { principal } = context;
+  let key: string | undefined;
+  if (typeof by === 'function') {
+    key = by(context);
+  } else if (principal?.type === 'api-key' && (by === 'client' || by === 'api-key')) {
+    key = `api-key:${principal.subject}`;
+  } else if (principal?.type === 'jwt' && (by === 'client' || by === 'user')) {
+    key = `user:${principal.subject}`;
+  }
+  return key ?? `ip:${context.ip ?? 'unknown'}`;
+}
+
+/**
+ * Response headers describing a budget (draft-ietf-httpapi-ratelimit-headers)
+ * Exported for testing
+ */
+export function rateLimitHeaders(
+  rule: RateLimitRule,
+  decision: RateLimitDecision
+): Record<string, string> {
+  return {
+    'ratelimit-limit': String(decision.limit),
+    'ratelimit-remaining': String(decision.remaining),
+    'ratelimit-reset': String(Math.ceil(decision.resetMs / 1000)),
+    'ratelimit-policy': `${rule.limit};w=${Math.ceil(rule.windowMs / 1000)}`,
+  };
+}
+
+/**
+ * Budget of a single route, overriding parts of the default rule
+ */
+export interface RouteRateLimit extends Partial<RateLimitRule> {
+  /** Name of the budget, shared by routes using the same name (defaults to the route) */
+  budget?: string;
+  by?: ClientKey;
+}
+
+export interface RateLimitOptions {
+  /** Whether budgets are enforced at all; the `rateLimit` option stays available */
+  enabled: boolean;
+  /** Budget of routes without their own `rateLimit` option */
+  rule: RateLimitRule;
+  by: ClientKey;
+  store: RateLimitStore;
+  trustProxy: boolean;
+  metrics?: Pick<AppMetrics, 'recordThrottledRequest'> | undefined;
+}
+
+const DEFAULT_BUDGET = 'default';
+const FAILED_AUTHENTICATION_BUDGET = 'failed-authentication';
+
+const routeLimits = new WeakMap<Request, RouteRateLimit | false>();
+// Requests that already took from their route's budget
+const charged = new WeakSet<Request>();
+
+function rateLimitedError(rule: RateLimitRule, decision: RateLimitDecision): RateLimitedError {
+  return new RateLimitedError(decision.retryAfterMs / 1000, 'Rate limit exceeded', {
+    headers: rateLimitHeaders(rule, decision),
+  });
+}
+
+/**
+ * Elysia plugin enforcing budgets and adding the `rateLimit` route option
+ * Only routes registered after the plugin are limited. Requests failing
+ * validation never reach the check, so they are charged when they fail;
+ * malformed bodies are rejected before the route's option is read and take
+ * from the default budget.
+ */
+export function rateLimiting(options: RateLimitOptions) {
+  const take = async (request: Request, route: string, server: PeerAddressSource | null) => {
+    const limit = routeLimits.get(request);
+    if (!options.enabled || limit === false || charged.has(request)) return;
+    charged.add(request);
+
+    const { budget: name, by = options.by, ...overrides } = limit ?? {};
+    const rule = { ...options.rule, ...overrides };
+    const budget = limit ? (name ?? `${request.method} ${route}`) : DEFAULT_BUDGET;
+    const key = clientKey(by, {
+      request,
+      principal: getRequestPrincipal(request),
+      ip: getClientIp(request, server, options.trustProxy),
+    });
+
+    const decision = await options.store.consume(`${budget}|${key}`, rule, Date.now());
+    return { rule, budget, decision };
+  };
+
+  return new Elysia({ name: 'rate-limit' })
+    .macro(({ onTransform }) => ({
+      rateLimit(limit: RouteRateLimit | false) {
+        onTransform(({ request }) => {
+          routeLimits.set(request, limit);
+        });
+      },
+    }))
+    .onBeforeHandle({ as: 'global' }, async ({ request, route, server, set }) => {
+      const taken = await take(request, route, server);
+      if (!taken) return;
+
+      const { rule, budget, decision } = taken;
+      if (!decision.allowed) {
+        options.metrics?.recordThrottledRequest({ request, route, budget });
+        throw rateLimitedError(rule, decision);
+      }
+      Object.assign(set.headers, rateLimitHeaders(rule, decision));
+    })
+    .onError({ as: 'global' }, async ({ code, request, route, server }) => {
+      if (code === 'VALIDATION' || code === 'PARSE') await take(request, route, server);
+    });
+}
+
+/**
+ * Elysia plugin limiting requests that fail authentication, per IP
+ * Every 401 takes from the client's failed-authentication budget, and once it
+ * is used up requests are rejected before their credentials are checked, so
+ * that guessing keys or tokens is throttled and a correct guess is not
+ * revealed. Mount it before the authentication plugin.
+ */
+export function failedAuthenticationLimiting(options: RateLimitOptions) {
+  const budgetKey = (request: Request, server: PeerAddressSource | null) => {
+    const ip = getClientIp(request, server, options.trustProxy);
+    const key = clientKey(options.by, { request, principal: undefined, ip });
+    return `${FAILED_AUTHENTICATION_BUDGET}|${key}`;
+  };
+
+  return new Elysia({ name: 'failed-authentication-limit' })
+    .onTransform({ as: 'global' }, async ({ request, route, server }) => {
+      if (!options.enabled) return;
+
+      const decision = await options.store.peek(
+        budgetKey(request, server),
+        options.rule,
+        Date.now()
+      );
+      if (!decision.allowed) {
+        options.metrics?.recordThrottledRequest({
+          request,
+          route,
+          budget: FAILED_AUTHENTICATION_BUDGET,
+        });
+        throw rateLimitedError(options.rule, decision);
+      }
+    })
+    .onError({ as: 'global' }, async ({ error, request, server }) => {
+      if (options.enabled && error instanceof UnauthorizedError) {
+        await options.store.consume(budgetKey(request, server), options.rule, Date.now());
+      }
+    });
+}
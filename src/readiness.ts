@@ -0,0 +1,173 @@
+/**
+ * Readiness Dependency Registry
+ *
+ * Modules register named checks for the downstreams they need (databases,
+ * caches, other services). The readiness endpoint runs every check
+ * concurrently, each bounded by its own timeout, and reports not ready when
+ * any critical check fails. Results are cached briefly so frequent probes
+ * don't hammer the dependencies.
+ */
+
+import { getConfig, type AppConfig } from './config.js';
+import { runWithTimeout } from './timeout.js';
+
+/**
+ * A dependency check; resolves when healthy, rejects (or throws) otherwise
+ * The signal is aborted once the check's timeout has elapsed
+ */
+export type ReadinessCheck = (signal: AbortSignal) => Promise<unknown>;
+
+export interface ReadinessCheckOptions {
+  /** Milliseconds before the check is considered failed (defaults to the registry timeout) */
+  timeoutMs?: number;
+  /** Whether a failure makes the service not ready (default true) */
+  critical?: boolean;
+}
+
+export interface DependencyStatus {
+  status: 'up' | 'down';
+  critical: boolean;
+  latency_ms: number;
+  checked_at: string;
+  /** Failure from this run, when down */
+  error?: string;
+  /** Most recent failure, kept after the dependency recovers */
+  last_error?: { message: string; at: string };
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready';
+  timestamp: string;
+  dependencies: Record<string, DependencyStatus>;
+}
+
+export type ReadinessRegistryOptions = AppConfig['readiness'];
+
+interface RegisteredCheck {
+  check: ReadinessCheck;
+  timeoutMs: number;
+  critical: boolean;
+  lastError?: { message: string; at: string };
+}
+
+/**
+ * Registry of named dependency checks with cached, concurrent evaluation
+ */
+export class ReadinessRegistry {
+  private readonly checks = new Map<string, RegisteredCheck>();
+  private cached: { report: ReadinessReport; expiresAt: number } | undefined;
+  private inFlight: Promise<ReadinessReport> | undefined;
+
+  constructor(
+    private readonly options: ReadinessRegistryOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Register a named check; names must be unique
+   */
+  register(name: string, check: ReadinessCheck, options: ReadinessCheckOptions = {}): void {
+    if (this.checks.has(name)) {
+      throw new Error(`Readiness check "${name}" is already registered`);
+    }
+    this.checks.set(name, {
+      check,
+      timeoutMs: options.timeoutMs ?? this.options.checkTimeoutMs,
+      critical: options.critical ?? true,
+    });
+    this.cached = undefined;
+  }
+
+  /**
+   * Remove a check; returns false when no check had that name
+   */
+  unregister(name: string): boolean {
+    this.cached = undefined;
+    return this.checks.delete(name);
+  }
+
+  /**
+   * Names of all registered checks
+   */
+  get names(): string[] {
+    return [...this.checks.keys()];
+  }
+
+  /**
+   * Evaluate all checks, reusing a cached report while it is fresh
+   * Concurrent callers share a single evaluation
+   */
+  async check(): Promise<ReadinessReport> {
+    if (this.cached && this.now() < this.cached.expiresAt) {
+      return this.cached.report;
+    }
+    if (!this.inFlight) {
+      this.inFlight = this.evaluate().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async evaluate(): Promise<ReadinessReport> {
+    const results = await Promise.all(
+      [...this.checks].map(async ([name, registered]) => {
+        const result = await this.runCheck(registered);
+        return [name, result] as const;
+      })
+    );
+
+    const ready = results.every(([, result]) => result.status === 'up' || !result.critical);
+    const report: ReadinessReport = {
+      status: ready ? 'ready' : 'not_ready',
+      timestamp: new Date(this.now()).toISOString(),
+      dependencies: Object.fromEntries(results),
+    };
+
+    if (this.options.cacheTtlMs > 0) {
+      this.cached = { report, expiresAt: this.now() + this.options.cacheTtlMs };
+    }
+    return report;
+  }
+
+  private async runCheck(registered: RegisteredCheck): Promise<DependencyStatus> {
+    const startedAt = performance.now();
+    let error: string | undefined;
+
+    try {
+      await runWithTimeout(
+        registered.check,
+        registered.timeoutMs,
+        `Check timed out after ${registered.timeoutMs}ms`
+      );
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    const checkedAt = new Date(this.now()).toISOString();
+    if (error !== undefined) {
+      registered.lastError = { message: error, at: checkedAt };
+    }
+
+    return {
+      status: error === undefined ? 'up' : 'down',
+      critical: registered.critical,
+      latency_ms: Math.round((performance.now() - startedAt) * 1000) / 1000,
+      checked_at: checkedAt,
+      ...(error !== undefined && { error }),
+      ...(registered.lastError && { last_error: registered.lastError }),
+    };
+  }
+}
+
+let registry: ReadinessRegistry | undefined;
+
+/**
+ * Get the process-wide registry that modules register their checks with
+ */
+export function getReadinessRegistry(
+  options: ReadinessRegistryOptions = getConfig().readiness
+): ReadinessRegistry {
+  registry ??= new ReadinessRegistry(options);
+  return registry;
+}
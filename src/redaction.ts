@@ -0,0 +1,192 @@
+/**
+ * Log Redaction
+ *
+ * Keeps secrets and personal data out of log output:
+ * - Path rules: well-known sensitive fields (authorization, password, ...) plus
+ *   configured pino redact paths are replaced wholesale
+ * - Pattern scrubbing: string values anywhere in a record are searched for
+ *   bearer tokens, JWTs, API keys, emails and card numbers
+ * - URL query strings: denied (or, with an allowlist, unlisted) parameters
+ *   have their values replaced before a URL is logged
+ */
+
+import pino from 'pino';
+import type { AppConfig } from './config.js';
+
+export type RedactionOptions = AppConfig['log']['redaction'];
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Paths always redacted, at the top level and one level down
+ */
+export const DEFAULT_REDACT_PATHS: readonly string[] = [
+  'authorization',
+  'cookie',
+  'password',
+  'secret',
+  'token',
+  'api_key',
+  'apiKey',
+  '*.authorization',
+  '*.cookie',
+  '*.password',
+  '*.secret',
+  '*.token',
+  '*.api_key',
+  '*.apiKey',
+  'headers["set-cookie"]',
+  'headers["x-api-key"]',
+];
+
+// Records nested deeper than this are left as they are rather than walked
+const MAX_SCRUB_DEPTH = 8;
+
+/** Values that look like credentials, with a replacement keeping the surrounding context */
+const SECRET_PATTERNS: readonly (readonly [RegExp, string])[] = [
+  // Authorization header values
+  [/\b(Bearer|Basic|Token)\s+[\w~+/.-]+=*/gi, `$1 ${REDACTED}`],
+  // JSON Web Tokens
+  [/\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g, REDACTED],
+  // Provider API keys: Stripe-style, AWS access keys, GitHub and Slack tokens
+  [/\b[spr]k_(?:live|test)_[\dA-Za-z]{10,}/g, REDACTED],
+  [/\bAKIA[\dA-Z]{16}\b/g, REDACTED],
+  [/\bgh[oprsu]_[\dA-Za-z]{36,}/g, REDACTED],
+  [/\bxox[abprs]-[\dA-Za-z-]{10,}/g, REDACTED],
+  // key=value and key: value assignments of secret-named fields
+  [
+    /\b(api[_-]?key|access[_-]?token|refresh[_-]?token|client[_-]?secret|secret|password|passwd|token)(["']?\s?[:=]\s?["']?)[^\s"&',;]+/gi,
+    `$1$2${REDACTED}`,
+  ],
+  // Email addresses
+  [/[\w.+-]+@[\dA-Za-z-]+\.[\d.A-Za-z-]+/g, REDACTED],
+];
+
+// 13-19 digits in groups of four, optionally separated by spaces or dashes
+const CARD_NUMBER_PATTERN = /\b\d{4}([ -]?)\d{4}\1\d{4}\1\d{1,7}\b/g;
+
+/**
+ * Luhn checksum, so long numeric IDs are not mistaken for card numbers
+ * Exported for testing
+ */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits.charAt(digits.length - 1 - index));
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Replace credential-like substrings in a string
+ */
+export function scrubString(value: string): string {
+  let scrubbed = value;
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    scrubbed = scrubbed.replace(pattern, replacement);
+  }
+  return scrubbed.replace(CARD_NUMBER_PATTERN, (match) =>
+    passesLuhn(match.replace(/[ -]/g, '')) ? REDACTED : match
+  );
+}
+
+/**
+ * Recursively scrub every string in a log record
+ * Errors are serialized first so their message and stack are scrubbed too
+ */
+export function scrubValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return scrubString(value);
+  if (typeof value !== 'object' || value === null || depth >= MAX_SCRUB_DEPTH) return value;
+  if (value instanceof Error) return scrubValue(pino.stdSerializers.err(value), depth);
+  if (Array.isArray(value)) return value.map((item) => scrubValue(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, scrubValue(item, depth + 1)])
+  );
+}
+
+function decodeKey(key: string): string {
+  try {
+    return decodeURIComponent(key.replace(/\+/g, ' ')).toLowerCase();
+  } catch {
+    return key.toLowerCase();
+  }
+}
+
+/**
+ * Create a function redacting query parameter values from URLs
+ *
+ * Denied parameters are always redacted; when an allowlist is configured,
+ * every parameter not on it is redacted as well. Names match case-insensitively.
+ */
+export function createUrlRedactor(
+  options: Pick<RedactionOptions, 'queryAllowlist' | 'queryDenylist'>
+): (url: string) => string {
+  const allow = new Set(options.queryAllowlist.map((name) => name.toLowerCase()));
+  const deny = new Set(options.queryDenylist.map((name) => name.toLowerCase()));
+  const isHidden = (name: string) => deny.has(name) || (allow.size > 0 && !allow.has(name));
+
+  return (url) => {
+    const queryStart = url.indexOf('?');
+    if (queryStart === -1) return url;
+    const hashStart = url.indexOf('#', queryStart);
+    const queryEnd = hashStart === -1 ? url.length : hashStart;
+
+    const query = url
+      .slice(queryStart + 1, queryEnd)
+      .split('&')
+      .map((pair) => {
+        const separator = pair.indexOf('=');
+        const key = separator === -1 ? pair : pair.slice(0, separator);
+        return key && isHidden(decodeKey(key)) ? `${key}=${REDACTED}` : pair;
+      })
+      .join('&');
+
+    return `${url.slice(0, queryStart + 1)}${query}${url.slice(queryEnd)}`;
+  };
+}
+
+/**
+ * pino settings implementing the redaction rules
+ */
+export interface LogRedaction {
+  redact: { paths: string[]; censor: string };
+  serializers: Record<string, (value: unknown) => unknown>;
+  /** Scrubs string arguments, i.e. the message and its interpolation values */
+  hooks?: pino.LoggerOptions['hooks'];
+  /** Scrubs the merged record, used as `formatters.log` */
+  formatLog?: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Build the pino settings for the configured redaction rules
+ */
+export function createLogRedaction(options: RedactionOptions): LogRedaction {
+  const redactUrl = createUrlRedactor(options);
+  const redaction: LogRedaction = {
+    redact: { paths: [...DEFAULT_REDACT_PATHS, ...options.paths], censor: REDACTED },
+    // Serializers also apply to child logger bindings, where request URLs are attached
+    serializers: {
+      url: (url) => (typeof url === 'string' ? redactUrl(url) : url),
+    },
+  };
+  if (!options.scrubPatterns) return redaction;
+
+  return {
+    ...redaction,
+    hooks: {
+      logMethod(args, method) {
+        const scrubbed = args.map((arg: unknown) =>
+          typeof arg === 'string' ? scrubString(arg) : arg
+        ) as Parameters<pino.LogFn>;
+        method.apply(this, scrubbed);
+      },
+    },
+    formatLog: (record) => scrubValue(record) as Record<string, unknown>,
+  };
+}
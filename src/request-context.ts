@@ -0,0 +1,177 @@
+/**
+ * Request-Scoped Context
+ *
+ * Gives every request a stable request ID and a child logger bound to it,
+ * available to route handlers as `ctx.requestId` / `ctx.log` and to the
+ * global error handler via `getRequestContext(request)`. The request ID is
+ * also carried in the async context, for work the request spawns.
+ *
+ * The request ID honors an inbound `x-request-id`, then the trace ID of an
+ * inbound W3C `traceparent`, and otherwise is a fresh UUID.
+ */
+
+import { Elysia } from 'elysia';
+import { randomUUID } from 'crypto';
+import type pino from 'pino';
+import { getLogger } from './logger.js';
+import { runWithContext } from './async-context.js';
+
+/**
+ * Per-request values shared by hooks, handlers and the error handler
+ */
+export interface RequestContext {
+  requestId: string;
+  log: pino.Logger;
+  /** High-resolution start time (performance.now()) used for latency measurement */
+  startedAt: number;
+}
+
+// Keyed by Request so the context survives phases where derived values are unavailable (404, parse errors)
+const contexts = new WeakMap<Request, RequestContext>();
+
+// Inbound IDs are echoed into headers and logs, so only accept a conservative character set
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+const TRACEPARENT_PATTERN = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+
+/**
+ * Extract the trace ID from a W3C traceparent header
+ * Returns undefined for malformed headers or the all-zero trace ID
+ */
+export function parseTraceparent(header: string | null): string | undefined {
+  const traceId = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN)?.[1];
+  return traceId && traceId !== INVALID_TRACE_ID ? traceId : undefined;
+}
+
+/**
+ * Resolve the request ID from inbound headers, generating one when absent or invalid
+ * Exported for testing
+ */
+export function resolveRequestId(headers: Headers): string {
+  const inbound = headers.get('x-request-id')?.trim();
+  if (inbound && REQUEST_ID_PATTERN.test(inbound)) {
+    return inbound;
+  }
+  return parseTraceparent(headers.get('traceparent')) ?? randomUUID();
+}
+
+/**
+ * Get (or lazily create) the context for a request
+ */
+export function getRequestContext(request: Request): RequestContext {
+  let context = contexts.get(request);
+  if (!context) {
+    const requestId = resolveRequestId(request.headers);
+    context = {
+      requestId,
+      startedAt: performance.now(),
+      log: getLogger('http').child({
+        request_id: requestId,
+        method: request.method,
+        url: request.url,
+      }),
+    };
+    contexts.set(request, context);
+  }
+  return context;
+}
+
+/**
+ * Minimal view of the Bun server needed to read the peer address
+ */
+export interface PeerAddressSource {
+  requestIP(request: Request): { address: string } | null;
+}
+
+/**
+ * Resolve the client IP address
+ * X-Forwarded-For is only honored when the service is configured to trust its proxy
+ */
+export function getClientIp(
+  request: Request,
+  server: PeerAddressSource | null | undefined,
+  trustProxy: boolean
+): string | undefined {
+  if (trustProxy) {
+    const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  return server?.requestIP(request)?.address;
+}
+
+/**
+ * Outcome of a request, delivered once its response has been produced
+ */
+export interface CompletedRequest {
+  request: Request;
+  server: PeerAddressSource | null;
+  /** Matched route template (e.g. /items/:id); undefined when no route matched */
+  route: string | undefined;
+  status: number;
+  /** Handler return value; undefined when the body came from the error handler */
+  response: unknown;
+  durationMs: number;
+}
+
+/**
+ * Create a plugin that calls `handler` exactly once per request
+ *
+ * Elysia skips afterResponse for requests that never reach a route: unrouted
+ * 404s, errors thrown from onRequest (e.g. the 413 and 431 of hardening.ts)
+ * and responses returned from onRequest (CORS preflights). Those are reported
+ * once their response has been produced instead.
+ */
+export function onRequestCompleted(name: string, handler: (completed: CompletedRequest) => void) {
+  const complete = (details: Omit<CompletedRequest, 'durationMs'>) => {
+    const { startedAt } = getRequestContext(details.request);
+    handler({ ...details, durationMs: Math.round((performance.now() - startedAt) * 1000) / 1000 });
+  };
+  // Requests that reached their route, which afterResponse reports
+  const routed = new WeakSet<Request>();
+  const servers = new WeakMap<Request, PeerAddressSource | null>();
+
+  return new Elysia({ name })
+    .wrap((handle, request) => async (...args: unknown[]) => {
+      // Typed as returning a Function, the composed handler resolves to the Response
+      const response = (await handle(...args)) as unknown as Response;
+      if (!routed.has(request)) {
+        complete({
+          request,
+          server: servers.get(request) ?? null,
+          route: undefined,
+          status: response.status,
+          response: undefined,
+        });
+      }
+      return response;
+    })
+    .onRequest(({ request, server }) => {
+      servers.set(request, server);
+    })
+    .onTransform({ as: 'global' }, ({ request }) => {
+      routed.add(request);
+    })
+    .onAfterResponse({ as: 'global' }, ({ request, server, route, set, response }) => {
+      const status = typeof set.status === 'number' ? set.status : 200;
+      complete({ request, server, route, status, response });
+    })
+    .onError({ as: 'global' }, ({ request, route }) => {
+      // Parse errors fail a matched route before its transform runs
+      if (route) routed.add(request);
+    });
+}
+
+/**
+ * Elysia plugin exposing `requestId` and `log` on every route context
+ * It also runs each request inside an async context (see async-context.ts)
+ */
+export const requestContext = new Elysia({ name: 'request-context' })
+  .wrap(
+    (handle, request) =>
+      (...args: unknown[]) =>
+        runWithContext({ requestId: getRequestContext(request).requestId }, () => handle(...args))
+  )
+  .derive({ as: 'global' }, ({ request }) => {
+    const { requestId, log } = getRequestContext(request);
+    return { requestId, log };
+  });
@@ -0,0 +1,22 @@
+/**
+ * OpenTelemetry Resource shared by traces, metrics and logs
+ *
+ * Every signal must describe the service identically so backends can correlate them.
+ * OTEL_RESOURCE_ATTRIBUTES adds attributes, but never overrides the service identity.
+ */
+
+import { Resource } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import type { AppConfig } from './config.js';
+
+/**
+ * Create the resource describing this service instance
+ */
+export function createServiceResource(config: Pick<AppConfig, 'app' | 'service'>): Resource {
+  return new Resource({
+    ...config.service.resourceAttributes,
+    [ATTR_SERVICE_NAME]: config.service.name,
+    [ATTR_SERVICE_VERSION]: config.service.version,
+    'service.environment': config.app.environment,
+  });
+}
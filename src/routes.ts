@@ -0,0 +1,28 @@
+/**
+ * API Routes
+ *
+ * The versioned API, mounted by createApp under /v1 (see versioning.ts).
+ * Operational routes (the service root, probes, metrics, docs and admin)
+ * stay unversioned; application endpoints are added to this router.
+ */
+
+import { t } from 'elysia';
+import { apiVersion } from './versioning.js';
+
+/**
+ * Router for version 1 of the API
+ */
+export function apiRoutes() {
+  return apiVersion(1).get(
+    '',
+    () => ({ version: 1, documentation: '/docs', openapi: '/openapi.json' }),
+    {
+      response: t.Object({
+        version: t.Integer(),
+        documentation: t.String(),
+        openapi: t.String(),
+      }),
+      detail: { summary: 'API version index', tags: ['API'] },
+    }
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Graceful Shutdown
+ *
+ * Ordered shutdown driven by SIGTERM/SIGINT:
+ * 1. Flip the lifecycle to draining so readiness probes fail
+ * 2. Stop the listener so no new connections are accepted
+ * 3. Wait for in-flight requests, up to the drain timeout
+ * 4. Run cleanup hooks (DB, queues, telemetry flush) in reverse registration
+ *    order, each with its own timeout
+ *
+ * The whole sequence is bounded by a deadline; exceeding it, a drain timeout
+ * or a failing hook makes the process exit non-zero. A second signal while
+ * shutting down forces an immediate exit.
+ */
+
+import { Elysia } from 'elysia';
+import { getConfig, type AppConfig } from './config.js';
+import { getLifecycle, type Lifecycle } from './lifecycle.js';
+import { logger } from './logger.js';
+import { onRequestCompleted } from './request-context.js';
+import { runWithTimeout } from './timeout.js';
+
+export type ShutdownHook = () => Promise<unknown> | unknown;
+
+export type ShutdownOptions = AppConfig['shutdown'];
+
+/**
+ * Minimal view of the HTTP server needed to stop accepting connections
+ */
+export interface StoppableServer {
+  stop(closeActiveConnections?: boolean): unknown;
+}
+
+interface RegisteredHook {
+  name: string;
+  hook: ShutdownHook;
+  timeoutMs: number;
+}
+
+/**
+ * Coordinates listener shutdown, request draining and cleanup hooks
+ */
+export class ShutdownManager {
+  private readonly hooks: RegisteredHook[] = [];
+  private server: StoppableServer | undefined;
+  private inFlightCount = 0;
+  private drained: (() => void) | undefined;
+  private running: Promise<number> | undefined;
+
+  constructor(
+    private readonly options: ShutdownOptions,
+    private readonly lifecycle: Lifecycle = getLifecycle()
+  ) {}
+
+  /**
+   * Register a cleanup hook; hooks run in reverse registration order
+   */
+  register(name: string, hook: ShutdownHook, options: { timeoutMs?: number } = {}): void {
+    this.hooks.push({ name, hook, timeoutMs: options.timeoutMs ?? this.options.hookTimeoutMs });
+  }
+
+  /**
+   * Set the server whose listener is stopped when shutdown begins
+   */
+  attachServer(server: StoppableServer): void {
+    this.server = server;
+  }
+
+  /** Number of requests currently being handled */
+  get inFlight(): number {
+    return this.inFlightCount;
+  }
+
+  /** Whether shutdown has begun */
+  get isShuttingDown(): boolean {
+    return this.running !== undefined;
+  }
+
+  /**
+   * Elysia plugin counting in-flight requests so shutdown can wait for them
+   */
+  requestTracker() {
+    return new Elysia({ name: 'shutdown-request-tracker' })
+      .onRequest(() => {
+        this.inFlightCount++;
+      })
+      .use(
+        onRequestCompleted('shutdown-request-completed', () => {
+          this.inFlightCount = Math.max(0, this.inFlightCount - 1);
+          if (this.inFlightCount === 0) this.drained?.();
+        })
+      );
+  }
+
+  /**
+   * Run the shutdown sequence once; later calls return the same result
+   * Resolves with the exit code: 0 when everything completed in time, 1 otherwise
+   */
+  shutdown(signal: string): Promise<number> {
+    this.running ??= this.run(signal);
+    return this.running;
+  }
+
+  private async run(signal: string): Promise<number> {
+    const { timeoutMs } = this.options;
+    logger.info({ signal, timeout_ms: timeoutMs }, 'Graceful shutdown started');
+
+    try {
+      const clean = await runWithTimeout(
+        () => this.runSteps(),
+        timeoutMs,
+        `Shutdown deadline of ${timeoutMs}ms exceeded`
+      );
+      logger.info({ clean }, 'Graceful shutdown completed');
+      return clean ? 0 : 1;
+    } catch (error) {
+      logger.error({ error: (error as Error).message }, 'Graceful shutdown did not complete');
+      return 1;
+    } finally {
+      this.lifecycle.markStopped();
+    }
+  }
+
+  private async runSteps(): Promise<boolean> {
+    // Fail readiness first so load balancers stop sending new traffic
+    this.lifecycle.beginDraining();
+
+    this.server?.stop(false);
+    const drained = await this.waitForDrain();
+
+    let hooksSucceeded = true;
+    for (const { name, hook, timeoutMs } of [...this.hooks].reverse()) {
+      try {
+        await runWithTimeout(() => hook(), timeoutMs, `Hook timed out after ${timeoutMs}ms`);
+        logger.debug({ hook: name }, 'Shutdown hook completed');
+      } catch (error) {
+        hooksSucceeded = false;
+        logger.error({ hook: name, error: (error as Error).message }, 'Shutdown hook failed');
+      }
+    }
+
+    return drained && hooksSucceeded;
+  }
+
+  private async waitForDrain(): Promise<boolean> {
+    if (this.inFlightCount === 0) return true;
+
+    const { drainTimeoutMs } = this.options;
+    logger.info(
+      { in_flight: this.inFlightCount, drain_timeout_ms: drainTimeoutMs },
+      'Waiting for in-flight requests'
+    );
+
+    try {
+      await runWithTimeout(
+        () =>
+          new Promise<void>((resolve) => {
+            this.drained = resolve;
+          }),
+        drainTimeoutMs
+      );
+      return true;
+    } catch {
+      logger.warn(
+        { in_flight: this.inFlightCount },
+        'Drain timeout elapsed with requests in flight'
+      );
+      return false;
+    } finally {
+      this.drained = undefined;
+    }
+  }
+}
+
+/**
+ * Install SIGTERM/SIGINT handlers running the shutdown sequence, then exiting
+ * A repeated signal exits immediately with a non-zero code
+ */
+export function handleShutdownSignals(
+  manager: ShutdownManager,
+  exit: (code: number) => void,
+  signals: readonly string[] = ['SIGTERM', 'SIGINT']
+): () => void {
+  const onSignal = (signal: string) => {
+    if (manager.isShuttingDown) {
+      logger.warn({ signal }, 'Repeated signal received, forcing exit');
+      exit(1);
+      return;
+    }
+    manager.shutdown(signal).then(exit, () => exit(1));
+  };
+
+  for (const signal of signals) {
+    process.on(signal, onSignal);
+  }
+  return () => {
+    for (const signal of signals) {
+      process.off(signal, onSignal);
+    }
+  };
+}
+
+let manager: ShutdownManager | undefined;
+
+/**
+ * Get the process-wide shutdown manager that modules register cleanup hooks with
+ */
+export function getShutdownManager(
+  options: ShutdownOptions = getConfig().shutdown
+): ShutdownManager {
+  manager ??= new ShutdownManager(options);
+  return manager;
+}
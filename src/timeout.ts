@@ -0,0 +1,44 @@
+/**
+ * Timeout Helpers
+ *
+ * Bound async work that may hang on a downstream (readiness checks,
+ * shutdown hooks) without leaking timers.
+ */
+
+/**
+ * Thrown when a task does not settle within its timeout
+ */
+export class TimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number
+  ) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Run `task`, rejecting with TimeoutError once `timeoutMs` has elapsed
+ * The signal passed to the task is aborted on timeout so it can cancel its own work
+ */
+export async function runWithTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T> | T,
+  timeoutMs: number,
+  message = `Timed out after ${timeoutMs}ms`
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(message, timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Request Tracing
+ *
+ * Creates server spans from Elysia's own lifecycle, since Node's HTTP
+ * auto-instrumentation never sees requests served by Bun:
+ * - Parent context (traceparent/tracestate) and baggage extracted from W3C headers
+ * - One SERVER span per request, named `{method} {route template}`
+ * - Child spans for the parse, validation and handler phases
+ * - Semantic-convention request/response attributes
+ *
+ * Spans are kept per request and retrieved with `getRequestSpan(request)`.
+ */
+
+import { Elysia } from 'elysia';
+import {
+  context as otelContext,
+  isSpanContextValid,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Context,
+  type Span,
+  type TextMapGetter,
+  type TextMapPropagator,
+  type Tracer,
+} from '@opentelemetry/api';
+import {
+  CompositePropagator,
+  W3CBaggagePropagator,
+  W3CTraceContextPropagator,
+} from '@opentelemetry/core';
+import {
+  ATTR_CLIENT_ADDRESS,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_SERVER_ADDRESS,
+  ATTR_SERVER_PORT,
+  ATTR_URL_PATH,
+  ATTR_URL_SCHEME,
+  ATTR_USER_AGENT_ORIGINAL,
+} from '@opentelemetry/semantic-conventions';
+import { setSpanHttpResponse } from './observability.js';
+import { updateAsyncContext } from './async-context.js';
+import { getClientIp, getRequestContext, onRequestCompleted } from './request-context.js';
+
+type Phase = 'parse' | 'validation' | 'handler';
+
+interface RequestTrace {
+  span: Span;
+  /** Context carrying the server span and any inbound baggage */
+  context: Context;
+  /** Phase currently running, closed into a child span when the next begins */
+  phase: Phase | undefined;
+  phaseStartedAt: number;
+  /** Set once the error handler has run, which records the failure itself */
+  failed: boolean;
+}
+
+export interface TracingOptions {
+  /** Defaults to the global tracer provider */
+  tracer?: Tracer;
+  /** Defaults to W3C trace context plus baggage */
+  propagator?: TextMapPropagator;
+  trustProxy: boolean;
+}
+
+const traces = new WeakMap<Request, RequestTrace>();
+
+const headerGetter: TextMapGetter<Headers> = {
+  keys: (headers) => [...headers.keys()],
+  get: (headers, key) => headers.get(key) ?? undefined,
+};
+
+// Only requests that carry a body go through a meaningful parse phase
+function hasBody(request: Request): boolean {
+  return request.body !== null;
+}
+
+/**
+ * Get the server span for a request, if it is being traced
+ */
+export function getRequestSpan(request: Request): Span | undefined {
+  return traces.get(request)?.span;
+}
+
+/**
+ * Get the trace context (server span plus inbound baggage) for a request
+ * Use with `context.with(...)` to parent spans created by handlers
+ */
+export function getRequestTraceContext(request: Request): Context | undefined {
+  return traces.get(request)?.context;
+}
+
+/**
+ * Trace ID of a request's server span, when it belongs to a valid trace
+ */
+export function getRequestTraceId(request: Request): string | undefined {
+  const spanContext = getRequestSpan(request)?.spanContext();
+  return spanContext && isSpanContextValid(spanContext) ? spanContext.traceId : undefined;
+}
+
+/**
+ * Elysia plugin creating a server span per request with child spans per lifecycle phase
+ */
+export function tracing(options: TracingOptions) {
+  const tracer = options.tracer ?? trace.getTracer('http-server');
+  const propagator =
+    options.propagator ??
+    new CompositePropagator({
+      propagators: [new W3CTraceContextPropagator(), new W3CBaggagePropagator()],
+    });
+
+  // Close the running phase into a child span and start the next one
+  const advance = (request: Request, next: Phase | undefined, error?: unknown) => {
+    const state = traces.get(request);
+    if (!state) return;
+
+    const now = performance.now();
+    if (state.phase) {
+      const child = tracer.startSpan(
+        state.phase,
+        { startTime: state.phaseStartedAt },
+        state.context
+      );
+      if (error !== undefined) {
+        child.recordException(error instanceof Error ? error : String(error));
+        child.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      child.end(now);
+    }
+    state.phase = next;
+    state.phaseStartedAt = now;
+  };
+
+  return (
+    new Elysia({ name: 'tracing' })
+      .onRequest(({ request, server }) => {
+        const url = new URL(request.url);
+        const parent = propagator.extract(ROOT_CONTEXT, request.headers, headerGetter);
+        const clientAddress = getClientIp(request, server, options.trustProxy);
+
+        const span = tracer.startSpan(
+          request.method,
+          {
+            kind: SpanKind.SERVER,
+            attributes: {
+              [ATTR_HTTP_REQUEST_METHOD]: request.method,
+              [ATTR_URL_PATH]: url.pathname,
+              [ATTR_URL_SCHEME]: url.protocol.replace(':', ''),
+              [ATTR_SERVER_ADDRESS]: url.hostname,
+              ...(url.port && { [ATTR_SERVER_PORT]: Number(url.port) }),
+              ...(clientAddress && { [ATTR_CLIENT_ADDRESS]: clientAddress }),
+              ...(request.headers.has('user-agent') && {
+                [ATTR_USER_AGENT_ORIGINAL]: request.headers.get('user-agent') ?? '',
+              }),
+            },
+          },
+          parent
+        );
+
+        const traceContext = trace.setSpan(parent, span);
+        traces.set(request, {
+          span,
+          context: traceContext,
+          phase: hasBody(request) ? 'parse' : 'validation',
+          phaseStartedAt: performance.now(),
+          failed: false,
+        });
+
+        // Background work spawned by the request continues its trace
+        updateAsyncContext({ traceContext });
+
+        // Correlate the request's log lines with its trace
+        const spanContext = span.spanContext();
+        if (isSpanContextValid(spanContext)) {
+          getRequestContext(request).log.setBindings({
+            trace_id: spanContext.traceId,
+            span_id: spanContext.spanId,
+          });
+        }
+      })
+      // Transform runs after parsing and before schema validation
+      .onTransform({ as: 'global' }, ({ request }) => {
+        if (traces.get(request)?.phase === 'parse') advance(request, 'validation');
+      })
+      .onBeforeHandle({ as: 'global' }, ({ request }) => advance(request, 'handler'))
+      .onAfterHandle({ as: 'global' }, ({ request }) => advance(request, undefined))
+      .onError({ as: 'global' }, ({ request, error }) => {
+        const state = traces.get(request);
+        if (state) state.failed = true;
+        advance(request, undefined, error);
+      })
+      .use(
+        onRequestCompleted('tracing-completed', ({ request, route, status }) => {
+          const state = traces.get(request);
+          if (!state) return;
+
+          advance(request, undefined);
+          if (route) {
+            state.span.updateName(`${request.method} ${route}`);
+          }
+          setSpanHttpResponse(state.span, { route, status });
+          // 5xx responses set without throwing still fail the span
+          if (status >= 500 && !state.failed) {
+            state.span.setStatus({ code: SpanStatusCode.ERROR, message: `HTTP ${status}` });
+          }
+          state.span.end();
+        })
+      )
+  );
+}
+
+/**
+ * Run `fn` with the request's trace context active, so spans it starts are children of the server span
+ */
+export function withRequestTrace<T>(request: Request, fn: () => T): T {
+  const context = getRequestTraceContext(request);
+  return context ? otelContext.with(context, fn) : fn();
+}
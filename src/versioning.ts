@@ -0,0 +1,136 @@
+/**
+ * API Versioning
+ *
+ * Versioned routers mounted under /v1, /v2, ... whose routes, or whole
+ * versions, can be marked deprecated:
+ * - Deprecated responses carry `Deprecation` (RFC 9745), `Sunset` (RFC 8594)
+ *   and a `Link` to the successor, and are flagged `deprecated` in the
+ *   OpenAPI document
+ * - Every request to a deprecated route is counted in metrics and logged, so
+ *   it is visible when a route has stopped being used and can be removed
+ *
+ * Usage:
+ *   const v1 = apiVersion(1, { deprecated: { since: '2026-01-01', successor: '/v2' } })
+ *   const v2 = apiVersion(2)
+ *     .get('/items', listItems)
+ *     .get('/items/legacy', legacyItems, { deprecated: { since: '2026-03-01', successor: '/v2/items' } })
+ */
+
+import { Elysia } from 'elysia';
+import type { AppMetrics } from './metrics.js';
+import { getRequestContext, onRequestCompleted } from './request-context.js';
+
+export interface DeprecationOptions {
+  /** When the route was deprecated (ISO 8601 date) */
+  since: string;
+  /** When the route is expected to stop responding (ISO 8601 date) */
+  sunset?: string;
+  /** Path or URL of the replacement */
+  successor?: string;
+}
+
+export interface ApiVersionOptions {
+  /** Deprecate every route of this version */
+  deprecated?: DeprecationOptions;
+}
+
+/**
+ * Deprecation of the route that handled a request
+ */
+export interface RequestDeprecation extends DeprecationOptions {
+  version: number;
+}
+
+const deprecations = new WeakMap<Request, RequestDeprecation>();
+
+function parseDate(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid deprecation ${field} date "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Response headers announcing a deprecation
+ * Exported for testing
+ */
+export function deprecationHeaders(deprecation: DeprecationOptions): Record<string, string> {
+  const since = parseDate(deprecation.since, 'since');
+  const sunset =
+    deprecation.sunset === undefined ? undefined : parseDate(deprecation.sunset, 'sunset');
+  if (sunset && sunset < since) {
+    throw new Error(`Deprecation sunset ${deprecation.sunset} is before ${deprecation.since}`);
+  }
+
+  return {
+    // Structured field date: seconds since the epoch
+    deprecation: `@${Math.floor(since.getTime() / 1000)}`,
+    ...(sunset && { sunset: sunset.toUTCString() }),
+    ...(deprecation.successor && { link: `<${deprecation.successor}>; rel="successor-version"` }),
+  };
+}
+
+/**
+ * Deprecation of the route that handled `request`, if it was deprecated
+ */
+export function getRequestDeprecation(request: Request): RequestDeprecation | undefined {
+  return deprecations.get(request);
+}
+
+// Runs before validation so rejected requests are announced and counted too
+function deprecate(version: number, deprecation: DeprecationOptions) {
+  const headers = deprecationHeaders(deprecation);
+  return ({ request, set }: { request: Request; set: { headers: Record<string, unknown> } }) => {
+    Object.assign(set.headers, headers);
+    deprecations.set(request, { ...deprecation, version });
+  };
+}
+
+/**
+ * Router for one API version, mounted under `/v{version}`
+ * Routes accept a `deprecated` option to deprecate them individually.
+ */
+export function apiVersion(version: number, options: ApiVersionOptions = {}) {
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`API version must be a positive integer, got ${version}`);
+  }
+
+  const router = new Elysia({
+    name: `api-v${version}`,
+    prefix: `/v${version}`,
+    ...(options.deprecated && { detail: { deprecated: true } }),
+  }).macro(({ onTransform, events }) => ({
+    deprecated(deprecation: DeprecationOptions) {
+      onTransform(deprecate(version, deprecation));
+      // Macros cannot declare `detail`; mark the route in the OpenAPI document directly
+      const route = events.local as { detail?: Record<string, unknown> };
+      route.detail = { ...route.detail, deprecated: true };
+    },
+  }));
+
+  return options.deprecated ? router.onTransform(deprecate(version, options.deprecated)) : router;
+}
+
+/**
+ * Elysia plugin counting and logging requests served by deprecated routes
+ */
+export function deprecationTracking(appMetrics?: Pick<AppMetrics, 'recordDeprecatedRequest'>) {
+  return onRequestCompleted('deprecation-tracking', ({ request, route, status }) => {
+    const deprecation = getRequestDeprecation(request);
+    if (!deprecation) return;
+
+    appMetrics?.recordDeprecatedRequest({ request, route, version: deprecation.version });
+    getRequestContext(request).log.warn(
+      {
+        route,
+        status,
+        api_version: deprecation.version,
+        deprecated_since: deprecation.since,
+        sunset: deprecation.sunset,
+        successor: deprecation.successor,
+      },
+      'Deprecated route used'
+    );
+  });
+}
@@ -1,25 +1,178 @@
+/**
+ * API Contract Tests
+ * Testing Trophy: 10-15% of test suite
+ *
+ * Driven by the generated OpenAPI document: every documented operation is
+ * called and its status, content type and body are validated against the
+ * spec, so a response drifting from its declared schema fails the build.
+ */
+
 import { describe, test, expect } from 'bun:test';
-import { makeRequest, createTestApp } from '../test-utils';
+import pino from 'pino';
+import { Ajv2020 } from 'ajv/dist/2020.js';
+import addFormats from 'ajv-formats';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { Lifecycle } from '../../src/lifecycle.js';
+import { LogLevelController } from '../../src/log-levels.js';
+import { ReadinessRegistry } from '../../src/readiness.js';
+import { ApiKeyManager } from '../../src/api-keys.js';
+
+const TOKEN = 'contract-admin-token';
+
+interface Fixture {
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+const apiKeys = new ApiKeyManager({ prefix: 'sk', rotationOverlapSeconds: 60 });
+const revokedKey = await apiKeys.create({ name: 'revoked' });
+const rotatedKey = await apiKeys.create({ name: 'rotated' });
+
+// How to call each documented operation; operations run in document order
+const FIXTURES = new Map<string, Fixture>([
+  ['GET /', {}],
+  ['GET /admin/api-keys', {}],
+  ['POST /admin/api-keys', { body: { name: 'contract', scopes: ['items:read'] } }],
+  ['DELETE /admin/api-keys/{id}', { params: { id: revokedKey.record.id } }],
+  ['POST /admin/api-keys/{id}/rotate', { params: { id: rotatedKey.record.id }, body: {} }],
+  ['GET /admin/audit', {}],
+  ['GET /admin/audit/export', {}],
+  ['GET /admin/audit/verify', {}],
+  ['GET /admin/log-levels', {}],
+  ['PUT /admin/log-levels/{module}', { params: { module: 'http' }, body: { level: 'debug' } }],
+  ['DELETE /admin/log-levels/{module}', { params: { module: 'http' } }],
+  ['GET /health', {}],
+  ['GET /livez', {}],
+  ['GET /metrics', {}],
+  ['GET /ready', {}],
+  ['GET /readyz', {}],
+  ['GET /startupz', {}],
+  ['GET /v1', {}],
+]);
+
+const lifecycle = new Lifecycle();
+lifecycle.markReady();
+
+const readiness = new ReadinessRegistry({ checkTimeoutMs: 1_000, cacheTtlMs: 0 });
+readiness.register('database', async () => undefined);
+readiness.register('cache', () => Promise.reject(new Error('connection refused')), {
+  critical: false,
+});
+
+const logLevels = new LogLevelController({ level: 'info', modules: {} });
+logLevels.register('http', pino({ level: 'info' }, { write: () => undefined }));
+
+const app = createApp(
+  loadConfig({ env: { NODE_ENV: 'test', ADMIN_TOKEN: TOKEN }, envFiles: false }),
+  { lifecycle, readiness, logLevels, apiKeys }
+);
+
+const request = (method: string, path: string, body?: unknown) =>
+  app.handle(
+    new Request(`http://localhost${path}`, {
+      method,
+      headers: { authorization: `Bearer ${TOKEN}`, 'content-type': 'application/json' },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    })
+  );
+
+const spec = (await (await request('GET', '/openapi.json')).json()) as OpenAPIV3_1.Document;
+
+// The document is registered whole so schemas can $ref its components
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+addFormats(ajv);
+// Elysia's t.Integer also accepts numeric strings, marked with this format
+ajv.addFormat('integer', /^-?\d+$/);
+ajv.addSchema(spec, 'openapi.json');
+
+// Validator for the schema at a JSON pointer into the document
+const schemaAt = (...segments: string[]) =>
+  ajv.getSchema(
+    `openapi.json#/${segments.map((segment) => segment.replace(/~/g, '~0').replace(/\//g, '~1')).join('/')}`
+  );
+
+const operations = Object.entries(spec.paths ?? {}).flatMap(([path, item]) =>
+  Object.entries(item ?? {}).map(([method, operation]) => ({
+    method: method.toUpperCase(),
+    path,
+    responses: new Map(Object.entries((operation as OpenAPIV3_1.OperationObject).responses ?? {})),
+  }))
+);
+
+const sharedResponses = new Map(Object.entries(spec.components?.responses ?? {}));
 
 /**
- * Contract Test Example
- * Testing Trophy: 10-15% of test suite
+ * Resolve the documented response for a status, falling back to `default`
  */
+function documentedResponse(operation: (typeof operations)[number], status: number) {
+  const key = operation.responses.has(String(status)) ? String(status) : 'default';
+  const response = operation.responses.get(key);
+  if (response && '$ref' in response) {
+    const name = response.$ref.split('/').pop() ?? '';
+    return {
+      key,
+      response: sharedResponses.get(name) as OpenAPIV3_1.ResponseObject | undefined,
+      base: ['components', 'responses', name],
+    };
+  }
+  return {
+    key,
+    response,
+    base: ['paths', operation.path, operation.method.toLowerCase(), 'responses', key],
+  };
+}
 
 describe('API Contract Test', () => {
-  test('should conform to health endpoint contract', async () => {
-    const app = await createTestApp();
-    const response = await makeRequest(app, 'GET', '/health');
-    const data = await response.json();
-
-    // Verify API contract compliance
-    expect(response.status).toBe(200);
-    expect(response.headers.get('content-type')).toContain('application/json');
-
-    // Verify required fields and types
-    expect(data.status).toBe('ok');
-    expect(typeof data.timestamp).toBe('string');
-    expect(typeof data.uptime).toBe('number');
-    expect(typeof data.environment).toBe('string');
+  test('should publish an OpenAPI 3.1 document', () => {
+    expect(spec.openapi).toBe('3.1.0');
+    expect(spec.info.title).toBeDefined();
+    expect(spec.paths?.['/openapi.json']).toBeUndefined();
+  });
+
+  test('should have a fixture for every documented operation and nothing else', () => {
+    expect(operations.map(({ method, path }) => `${method} ${path}`).sort()).toEqual(
+      [...FIXTURES.keys()].sort()
+    );
+  });
+
+  for (const operation of operations) {
+    const { method, path } = operation;
+    test(`${method} ${path} should conform to the document`, async () => {
+      const fixture = FIXTURES.get(`${method} ${path}`) ?? {};
+      const params = new Map(Object.entries(fixture.params ?? {}));
+      const url = path.replace(/\{(\w+)\}/g, (_, name: string) => params.get(name) ?? name);
+      const response = await request(method, url, fixture.body);
+
+      const { key, response: documented, base } = documentedResponse(operation, response.status);
+      // Only documented statuses, not the catch-all error response, count as success
+      expect(key).not.toBe('default');
+      expect(documented).toBeDefined();
+
+      const [mediaType] = Object.keys(documented?.content ?? {});
+      if (!mediaType) {
+        expect(await response.text()).toBe('');
+        return;
+      }
+      expect(response.headers.get('content-type')).toContain(mediaType);
+
+      // application/json and +json types, not line-delimited JSON
+      const body = /[/+]json$/.test(mediaType) ? await response.json() : await response.text();
+      const validate = schemaAt(...base, 'content', mediaType, 'schema');
+      expect(validate).toBeDefined();
+      expect(validate?.(body) ? [] : validate?.errors).toEqual([]);
+    });
+  }
+
+  test('should describe error responses as problem details', async () => {
+    const response = await request('GET', '/admin/log-levels/unknown');
+    const problem = sharedResponses.get('Problem') as OpenAPIV3_1.ResponseObject | undefined;
+    const [mediaType = ''] = Object.keys(problem?.content ?? {});
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('content-type')).toBe(mediaType);
+    const validate = schemaAt('components', 'responses', 'Problem', 'content', mediaType, 'schema');
+    expect(validate?.(await response.json())).toBe(true);
   });
 });
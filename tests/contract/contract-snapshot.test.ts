@@ -0,0 +1,27 @@
+/**
+ * Contract Snapshot Test
+ *
+ * Diffs the OpenAPI document the code generates against the checked-in
+ * snapshot of the previous contract. Breaking changes fail until they are
+ * acknowledged with `bun run contract:snapshot --accept-breaking`; other
+ * changes only need the snapshot refreshed with `bun run contract:snapshot`.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import { diffContracts, formatContractChanges } from '../../src/contract-diff.js';
+import { contractDocument, CONTRACT_SNAPSHOT_URL } from './contract.js';
+
+const snapshot = (await Bun.file(CONTRACT_SNAPSHOT_URL).json()) as OpenAPIV3_1.Document;
+const changes = diffContracts(snapshot, await contractDocument());
+
+describe('API Contract Snapshot', () => {
+  test('should have no unacknowledged breaking changes', () => {
+    const breaking = changes.filter((change) => change.severity === 'breaking');
+    expect(formatContractChanges(breaking)).toBe('');
+  });
+
+  test('should have an up to date snapshot', () => {
+    expect(formatContractChanges(changes)).toBe('');
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * The API contract: the OpenAPI document of the app with every optional route
+ * group mounted. Shared by contract-snapshot.test.ts and scripts/contract-snapshot.ts
+ */
+
+import type { OpenAPIV3_1 } from 'openapi-types';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+
+export const CONTRACT_SNAPSHOT_URL = new URL('./openapi.snapshot.json', import.meta.url);
+
+export async function contractDocument(): Promise<OpenAPIV3_1.Document> {
+  const app = createApp(
+    loadConfig({
+      env: { NODE_ENV: 'test', ADMIN_TOKEN: 'contract-snapshot', OPENAPI_ENABLED: 'true' },
+      envFiles: false,
+    })
+  );
+  const response = await app.handle(new Request('http://localhost/openapi.json'));
+  return (await response.json()) as OpenAPIV3_1.Document;
+}
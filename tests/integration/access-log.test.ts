@@ -0,0 +1,138 @@
+/**
+ * Integration tests for the access log plugin
+ *
+ * Verifies one line per request for successes, handler errors and unrouted 404s
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { Elysia } from 'elysia';
+import { accessLog } from '../../src/access-log.js';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { requestContext } from '../../src/request-context.js';
+import { captureChildLogs } from '../test-utils';
+
+const baseOptions = {
+  format: 'json' as const,
+  sampleRate: 1,
+  excludePaths: ['/health'],
+  trustProxy: true,
+};
+
+// Small app mirroring how createApp wires the plugin, with routes that exercise every outcome
+const buildApp = (options: Parameters<typeof accessLog>[0]) =>
+  new Elysia()
+    .use(requestContext)
+    .use(accessLog(options))
+    .onError(({ code, set }) => {
+      set.status = code === 'NOT_FOUND' ? 404 : 500;
+      return { error: String(code) };
+    })
+    .get('/items/:id', ({ params }) => ({ id: params.id }))
+    .get('/health', () => 'ok')
+    .get('/slow', () => Bun.sleep(1100).then(() => 'done'))
+    .get('/boom', () => {
+      throw new Error('boom');
+    });
+
+describe('Access Log Integration', () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+    restore = undefined;
+  });
+
+  it('should write one structured line per request including errors and 404s', async () => {
+    const capture = captureChildLogs();
+    restore = capture.restore;
+    const app = buildApp(baseOptions);
+
+    await app.handle(
+      new Request('http://localhost/items/7', { headers: { 'x-forwarded-for': '203.0.113.9' } })
+    );
+    await app.handle(new Request('http://localhost/boom'));
+    await app.handle(new Request('http://localhost/missing'));
+
+    const lines = capture.logs.filter((log) => log.message === 'Request completed');
+    expect(lines.map((line) => [line.level, line.data?.status, line.data?.route])).toEqual([
+      ['info', 200, '/items/:id'],
+      ['error', 500, '/boom'],
+      ['warn', 404, undefined],
+    ]);
+
+    const [ok] = lines;
+    expect(ok?.bindings.request_id).toBeString();
+    expect(ok?.data?.bytes_out).toBe(JSON.stringify({ id: '7' }).length);
+    expect(ok?.data?.client_ip).toBe('203.0.113.9');
+    expect(ok?.data?.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should skip excluded paths and sampled-out successes', async () => {
+    const capture = captureChildLogs();
+    restore = capture.restore;
+    const app = buildApp({ ...baseOptions, sampleRate: 0 });
+
+    await app.handle(new Request('http://localhost/health'));
+    await app.handle(new Request('http://localhost/items/1'));
+    await app.handle(new Request('http://localhost/boom'));
+
+    const lines = capture.logs.filter((log) => log.message === 'Request completed');
+    expect(lines.map((line) => line.data?.status)).toEqual([500]);
+  });
+
+  it('should write Combined Log Format lines to the configured sink', async () => {
+    const written: string[] = [];
+    const app = buildApp({
+      ...baseOptions,
+      format: 'combined',
+      write: (line) => written.push(line),
+    });
+
+    await app.handle(
+      new Request('http://localhost/items/9', {
+        headers: { 'x-forwarded-for': '198.51.100.4', 'user-agent': 'test-agent' },
+      })
+    );
+
+    expect(written).toHaveLength(1);
+    expect(written[0]).toMatch(
+      /^198\.51\.100\.4 - - \[[^\]]+\] "GET \/items\/9 HTTP\/1\.1" 200 10 "-" "test-agent"$/
+    );
+  });
+
+  it('should stamp Combined Log Format lines with the time the request was received', async () => {
+    const written: string[] = [];
+    const app = buildApp({
+      ...baseOptions,
+      format: 'combined',
+      write: (line) => written.push(line),
+    });
+
+    const receivedAt = Date.now();
+    await app.handle(new Request('http://localhost/slow'));
+
+    const stamp = written[0]?.match(/\[(\d+)\/(\w+)\/(\d+):(\d+):(\d+):(\d+) \+0000\]/);
+    expect(stamp).not.toBeNull();
+    const [, day, month, year, hours, minutes, seconds] = stamp ?? [];
+    const logged = Date.parse(`${day} ${month} ${year} ${hours}:${minutes}:${seconds} UTC`);
+    // Seconds resolution: the completion time would be at least a second after receivedAt
+    expect(logged).toBeLessThanOrEqual(receivedAt + 50);
+  });
+
+  it('should be wired into the main app and respect ACCESS_LOG_ENABLED', async () => {
+    const capture = captureChildLogs();
+    restore = capture.restore;
+
+    await createApp(loadConfig({ env: {}, envFiles: false })).handle(
+      new Request('http://localhost/')
+    );
+    await createApp(loadConfig({ env: { ACCESS_LOG_ENABLED: 'false' }, envFiles: false })).handle(
+      new Request('http://localhost/')
+    );
+
+    const lines = capture.logs.filter((log) => log.message === 'Request completed');
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.data?.route).toBe('/');
+  });
+});
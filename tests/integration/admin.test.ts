@@ -0,0 +1,107 @@
+/**
+ * Integration tests for the admin endpoints
+ *
+ * Verifies bearer token authentication and runtime log level changes over HTTP
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import pino from 'pino';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { PROBLEM_CONTENT_TYPE } from '../../src/errors.js';
+import { LogLevelController } from '../../src/log-levels.js';
+import { isAuthorized } from '../../src/admin.js';
+
+const TOKEN = 'test-admin-token';
+
+describe('Admin Endpoints Integration', () => {
+  let logLevels: LogLevelController;
+  let http: pino.Logger;
+
+  const buildApp = (env: Record<string, string> = { ADMIN_TOKEN: TOKEN }) =>
+    createApp(loadConfig({ env: { NODE_ENV: 'test', ...env }, envFiles: false }), { logLevels });
+
+  const admin = (path: string, init: { method?: string; body?: string } = {}, token = TOKEN) =>
+    buildApp().handle(
+      new Request(`http://localhost/admin${path}`, {
+        ...init,
+        headers: {
+          authorization: `Bearer ${token}`,
+          'content-type': 'application/json',
+        },
+      })
+    );
+
+  beforeEach(() => {
+    logLevels = new LogLevelController({ level: 'info', modules: {} });
+    http = pino({ level: 'info' }, { write: () => undefined });
+    logLevels.register('http', http);
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const missing = await buildApp().handle(new Request('http://localhost/admin/log-levels'));
+    const wrong = await admin('/log-levels', {}, 'not-the-token');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer realm="admin"');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should expose the current level map', async () => {
+    const response = await admin('/log-levels');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      default: 'info',
+      modules: { http: { level: 'info', base: 'info' } },
+    });
+  });
+
+  it('should change and reset a module level at runtime', async () => {
+    const updated = await admin('/log-levels/http', {
+      method: 'PUT',
+      body: JSON.stringify({ level: 'debug', ttl_seconds: 60 }),
+    });
+    const body = (await updated.json()) as { level: string; override: { expires_at: string } };
+
+    expect(updated.status).toBe(200);
+    expect(body.level).toBe('debug');
+    expect(Date.parse(body.override.expires_at)).toBeGreaterThan(Date.now());
+    expect(http.level).toBe('debug');
+
+    const reset = await admin('/log-levels/http', { method: 'DELETE' });
+    expect(reset.status).toBe(204);
+    expect(http.level).toBe('info');
+
+    const again = await admin('/log-levels/http', { method: 'DELETE' });
+    expect(again.status).toBe(404);
+  });
+
+  it('should validate the requested level and module name', async () => {
+    const badLevel = await admin('/log-levels/http', {
+      method: 'PUT',
+      body: JSON.stringify({ level: 'verbose' }),
+    });
+    const badName = await admin('/log-levels/a%20b', {
+      method: 'PUT',
+      body: JSON.stringify({ level: 'debug' }),
+    });
+
+    expect(badLevel.status).toBe(422);
+    expect(badName.status).toBe(400);
+  });
+
+  it('should not mount the admin routes without a token', async () => {
+    const response = await buildApp({}).handle(new Request('http://localhost/admin/log-levels'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should only accept the exact bearer token', () => {
+    expect(isAuthorized(`Bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized(`bearer ${TOKEN}`, TOKEN)).toBe(true);
+    expect(isAuthorized(`Basic ${TOKEN}`, TOKEN)).toBe(false);
+    expect(isAuthorized(null, TOKEN)).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Integration tests for API keys
+ *
+ * Verifies the admin routes that issue, list, rotate and revoke keys, and
+ * that issued keys authenticate requests with their identity on the logs
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'bun:test';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { ApiKeyManager } from '../../src/api-keys.js';
+import { captureChildLogs } from '../test-utils.js';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+interface IssuedKey {
+  id: string;
+  key: string;
+  prefix: string;
+  status: string;
+  scopes: string[];
+  expires_at: string | null;
+  replaced_by: string | null;
+}
+
+describe('API Keys Integration', () => {
+  const capture = captureChildLogs();
+  let app: ReturnType<typeof buildApp>;
+
+  const buildApp = (env: Record<string, string> = {}) =>
+    createApp(
+      loadConfig({
+        env: { NODE_ENV: 'test', ACCESS_LOG_ENABLED: 'false', ADMIN_TOKEN, ...env },
+        envFiles: false,
+      }),
+      { apiKeys: new ApiKeyManager({ prefix: 'sk', rotationOverlapSeconds: 3600 }) }
+    ).get('/whoami', ({ principal }) => principal, { authenticated: true });
+
+  const admin = (method: string, path: string, body?: unknown) =>
+    app.handle(
+      new Request(`http://localhost/admin/api-keys${path}`, {
+        method,
+        headers: { authorization: `Bearer ${ADMIN_TOKEN}`, 'content-type': 'application/json' },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      })
+    );
+
+  const issue = async (body: unknown = { name: 'billing', scopes: ['invoices:read'] }) =>
+    (await (await admin('POST', '', body)).json()) as IssuedKey;
+
+  const whoami = (headers: Record<string, string>) =>
+    app.handle(new Request('http://localhost/whoami', { headers }));
+
+  beforeEach(() => {
+    app = buildApp();
+    capture.logs.length = 0;
+  });
+
+  afterAll(() => {
+    capture.restore();
+  });
+
+  it('should issue a key that authenticates requests', async () => {
+    const issued = await issue();
+
+    expect(issued).toMatchObject({ status: 'active', scopes: ['invoices:read'], expires_at: null });
+    expect(issued.key.startsWith(`${issued.prefix}_`)).toBe(true);
+
+    const response = await whoami({ 'x-api-key': issued.key });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      type: 'api-key',
+      subject: issued.id,
+      scopes: ['invoices:read'],
+    });
+  });
+
+  it('should attach the key identity to the request logs', async () => {
+    const issued = await issue();
+    capture.logs.length = 0;
+
+    await whoami({ authorization: `Bearer ${issued.key}` });
+
+    expect(capture.logs.at(-1)?.bindings).toMatchObject({
+      auth_type: 'api-key',
+      api_key_id: issued.id,
+    });
+  });
+
+  it('should list keys without their secrets', async () => {
+    const issued = await issue();
+    await whoami({ 'x-api-key': issued.key });
+
+    const listed = await (await admin('GET', '')).json();
+
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({ id: issued.id, prefix: issued.prefix, name: 'billing' });
+    expect(listed[0].key).toBeUndefined();
+    expect(listed[0].last_used_at).not.toBeNull();
+  });
+
+  it('should rotate a key with an overlap window', async () => {
+    const issued = await issue();
+
+    const response = await admin('POST', `/${issued.id}/rotate`, { overlap_seconds: 60 });
+    const successor = (await response.json()) as IssuedKey;
+
+    expect(response.status).toBe(201);
+    expect(successor.scopes).toEqual(['invoices:read']);
+    expect((await whoami({ 'x-api-key': issued.key })).status).toBe(200);
+    expect((await whoami({ 'x-api-key': successor.key })).status).toBe(200);
+
+    const [old] = (await (await admin('GET', '')).json()) as IssuedKey[];
+    expect(old?.replaced_by).toBe(successor.id);
+    expect(old?.expires_at).not.toBeNull();
+  });
+
+  it('should rotate with the configured overlap when no body is sent', async () => {
+    const issued = await issue();
+
+    expect((await admin('POST', `/${issued.id}/rotate`)).status).toBe(201);
+  });
+
+  it('should reject revoked keys', async () => {
+    const issued = await issue();
+
+    expect((await admin('DELETE', `/${issued.id}`)).status).toBe(204);
+
+    const response = await whoami({ 'x-api-key': issued.key });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('error="invalid_token"');
+    expect((await response.json()).detail).toBe('The API key is revoked');
+    expect((await admin('POST', `/${issued.id}/rotate`, {})).status).toBe(409);
+  });
+
+  it('should report unknown keys and invalid requests', async () => {
+    expect((await admin('DELETE', '/missing')).status).toBe(404);
+    expect((await admin('POST', '/missing/rotate', {})).status).toBe(404);
+    expect((await admin('POST', '', { name: '' })).status).toBe(422);
+  });
+
+  it('should require the admin token', async () => {
+    const response = await app.handle(new Request('http://localhost/admin/api-keys'));
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should neither serve nor accept keys when disabled', async () => {
+    const issued = await issue();
+    app = buildApp({ API_KEYS_ENABLED: 'false' });
+
+    expect((await admin('GET', '')).status).toBe(404);
+    expect((await whoami({ 'x-api-key': issued.key })).status).toBe(401);
+  });
+});
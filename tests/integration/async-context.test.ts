@@ -0,0 +1,126 @@
+/**
+ * Integration tests for async request context propagation
+ *
+ * Verifies that timers, detached promises and bound callbacks spawned by a
+ * request keep its request ID, user and trace in their log lines
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import pino from 'pino';
+import { SpanKind } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { createLoggerConfig } from '../../src/logger.js';
+import { bindContext, getAsyncContext, updateAsyncContext } from '../../src/async-context.js';
+
+const exporter = new InMemorySpanExporter();
+const tracer = new BasicTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+}).getTracer('test');
+
+const config = loadConfig({
+  env: { NODE_ENV: 'production', LOG_INCLUDE_LOCATION: 'false' },
+  envFiles: false,
+});
+
+// Deferred work queued by handlers and run later, outside any request
+const queue: (() => void)[] = [];
+
+describe('Async Context Integration', () => {
+  const lines: Record<string, unknown>[] = [];
+  const log = pino(createLoggerConfig(config), {
+    write: (line: string) => lines.push(JSON.parse(line) as Record<string, unknown>),
+  });
+
+  afterEach(() => {
+    lines.length = 0;
+    queue.length = 0;
+    exporter.reset();
+  });
+
+  const buildApp = () =>
+    createApp(config, { tracer })
+      .get('/timer', async () => {
+        updateAsyncContext({ userId: 'user-7', tenantId: 'acme' });
+        await new Promise<void>((resolve) => {
+          setTimeout(() => {
+            log.info('timer fired');
+            resolve();
+          }, 1);
+        });
+        return 'ok';
+      })
+      .get('/detached', () => {
+        // Deliberately not awaited: finishes after the response is sent
+        Promise.resolve()
+          .then(() => log.info('detached work'))
+          .catch(() => undefined);
+        return 'ok';
+      })
+      .get('/queue', () => {
+        queue.push(bindContext(() => log.info('bound job')));
+        queue.push(() => log.info('unbound job'));
+        return 'ok';
+      });
+
+  const serverSpan = () =>
+    exporter.getFinishedSpans().find((span) => span.kind === SpanKind.SERVER);
+
+  it('should correlate timer log lines with the request, user and trace', async () => {
+    const response = await buildApp().handle(new Request('http://localhost/timer'));
+
+    const line = lines.find((entry) => entry.msg === 'timer fired');
+    expect(line).toMatchObject({
+      request_id: response.headers.get('x-request-id'),
+      user_id: 'user-7',
+      tenant_id: 'acme',
+      trace_id: serverSpan()?.spanContext().traceId,
+      span_id: serverSpan()?.spanContext().spanId,
+    });
+  });
+
+  it('should correlate work finishing after the response', async () => {
+    const response = await buildApp().handle(new Request('http://localhost/detached'));
+    await Bun.sleep(5);
+
+    const line = lines.find((entry) => entry.msg === 'detached work');
+    expect(line?.request_id).toBe(response.headers.get('x-request-id'));
+  });
+
+  it('should run bound callbacks in the request context wherever they are called', async () => {
+    const response = await buildApp().handle(new Request('http://localhost/queue'));
+    for (const job of queue) job();
+
+    const bound = lines.find((entry) => entry.msg === 'bound job');
+    const unbound = lines.find((entry) => entry.msg === 'unbound job');
+    expect(bound?.request_id).toBe(response.headers.get('x-request-id'));
+    expect(bound?.trace_id).toBe(serverSpan()?.spanContext().traceId);
+    expect(unbound?.request_id).toBeUndefined();
+  });
+
+  it('should keep each concurrent request in its own context', async () => {
+    const app = buildApp();
+    const responses = await Promise.all(
+      ['a', 'b', 'c'].map((id) =>
+        app.handle(new Request('http://localhost/timer', { headers: { 'x-request-id': id } }))
+      )
+    );
+
+    expect(responses.map((response) => response.headers.get('x-request-id'))).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(lines.map((entry) => entry.request_id).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not leak the context to the caller', async () => {
+    await buildApp().handle(new Request('http://localhost/timer'));
+    expect(getAsyncContext()).toBeUndefined();
+  });
+});
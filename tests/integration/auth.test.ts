@@ -0,0 +1,113 @@
+/**
+ * Integration tests for bearer JWT authentication
+ *
+ * Verifies the principal on the context, 401 problem responses with bearer
+ * challenges, coexistence with the admin token and the OpenAPI security
+ * requirement of authenticated routes
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { SignJWT, type JWTPayload } from 'jose';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { PROBLEM_CONTENT_TYPE } from '../../src/errors.js';
+import { getAsyncContext } from '../../src/async-context.js';
+
+const SECRET = 'integration-secret-that-is-at-least-32-bytes';
+const ADMIN_TOKEN = 'test-admin-token';
+
+const buildApp = (env: Record<string, string> = {}) =>
+  createApp(
+    loadConfig({
+      env: {
+        NODE_ENV: 'test',
+        ACCESS_LOG_ENABLED: 'false',
+        ADMIN_TOKEN,
+        JWT_SECRET: SECRET,
+        JWT_ISSUER: 'https://issuer.test',
+        ...env,
+      },
+      envFiles: false,
+    })
+  )
+    .get('/me', ({ principal }) => ({ principal, userId: getAsyncContext()?.userId }), {
+      authenticated: true,
+    })
+    .get('/public', ({ principal }) => ({ subject: principal?.subject ?? null }));
+
+const token = (claims: JWTPayload = {}) =>
+  new SignJWT({ sub: 'user-1', iss: 'https://issuer.test', scope: 'items:read', ...claims })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setExpirationTime('5m')
+    .sign(Buffer.from(SECRET));
+
+const get = (path: string, authorization?: string, app = buildApp()) =>
+  app.handle(
+    new Request(`http://localhost${path}`, authorization ? { headers: { authorization } } : {})
+  );
+
+describe('Authentication Integration', () => {
+  it('should expose the principal of a valid token', async () => {
+    const response = await get('/me', `Bearer ${await token()}`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      principal: { type: 'jwt', subject: 'user-1', scopes: ['items:read'], roles: [] },
+      userId: 'user-1',
+    });
+  });
+
+  it('should challenge anonymous requests to authenticated routes', async () => {
+    const response = await get('/me');
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('content-type')).toContain(PROBLEM_CONTENT_TYPE);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer realm="api"');
+    expect(await response.json()).toMatchObject({ status: 401, code: 'UNAUTHORIZED' });
+  });
+
+  it('should reject invalid tokens on any route', async () => {
+    for (const path of ['/me', '/public']) {
+      const response = await get(path, `Bearer ${await token({ iss: 'https://other.test' })}`);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toContain('error="invalid_token"');
+      expect((await response.json()).detail).toBe('The token "iss" claim is invalid');
+    }
+  });
+
+  it('should leave public routes open to anonymous requests', async () => {
+    const anonymous = await get('/public');
+    const authenticated = await get('/public', `Bearer ${await token()}`);
+
+    expect(await anonymous.json()).toEqual({ subject: null });
+    expect(await authenticated.json()).toEqual({ subject: 'user-1' });
+  });
+
+  it('should keep accepting the admin token on admin routes', async () => {
+    const response = await get('/admin/log-levels', `Bearer ${ADMIN_TOKEN}`);
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should not authenticate anyone when no keys are configured', async () => {
+    const app = buildApp({ JWT_SECRET: '' });
+
+    expect((await get('/me', `Bearer ${await token()}`, app)).status).toBe(401);
+    expect(await (await get('/public', `Bearer ${await token()}`, app)).json()).toEqual({
+      subject: null,
+    });
+  });
+
+  it('should document the bearer requirement of authenticated routes', async () => {
+    const spec = await (await get('/openapi.json')).json();
+
+    expect(spec.components.securitySchemes.bearerAuth).toEqual({
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+    });
+    expect(spec.paths['/me'].get.security).toEqual([{ bearerAuth: [] }, { apiKey: [] }]);
+    expect(spec.paths['/public'].get.security).toBeUndefined();
+  });
+});
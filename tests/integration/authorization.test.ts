@@ -0,0 +1,135 @@
+/**
+ * Integration tests for route authorization
+ *
+ * Verifies policy decisions over HTTP, 403 problem responses, audit entries
+ * for denials and the OpenAPI documentation of authorized routes
+ */
+
+import { describe, it, expect, spyOn } from 'bun:test';
+import { SignJWT } from 'jose';
+import { t } from 'elysia';
+import { createApp, type AppDependencies } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { PROBLEM_CONTENT_TYPE } from '../../src/errors.js';
+import { getLogger } from '../../src/logger.js';
+import { anyOf, requireOwnership, requireRole, requireScopes } from '../../src/authorization.js';
+import { routePolicyOutcomes, testAuthenticator } from '../test-utils.js';
+
+const SECRET = 'integration-secret-that-is-at-least-32-bytes';
+
+const owners = new Map([['7', 'alice']]);
+
+const buildApp = (
+  env: Record<string, string> = {},
+  dependencies: AppDependencies = { authenticators: [testAuthenticator] }
+) =>
+  createApp(
+    loadConfig({ env: { NODE_ENV: 'test', ACCESS_LOG_ENABLED: 'false', ...env }, envFiles: false }),
+    dependencies
+  )
+    .get('/items', () => ['item'], { authorize: requireScopes('items:read') })
+    .delete('/orders/:id', ({ params }) => ({ deleted: params.id }), {
+      params: t.Object({ id: t.String() }),
+      authorize: [
+        requireScopes('orders:write'),
+        anyOf(
+          requireRole('admin'),
+          requireOwnership(({ params }) => owners.get(String(params.id)), 'the order')
+        ),
+      ],
+    });
+
+describe('Authorization Integration', () => {
+  it('should decide each route by its policies', async () => {
+    const app = buildApp();
+    const writer = { subject: 'bob', scopes: ['orders:write'] };
+
+    expect(
+      await routePolicyOutcomes(app, 'GET', '/items', [undefined, {}, { scopes: ['items:read'] }])
+    ).toEqual(['unauthenticated', 'denied', 'allowed']);
+    expect(
+      await routePolicyOutcomes(app, 'DELETE', '/orders/7', [
+        { subject: 'alice' },
+        writer,
+        { ...writer, roles: ['admin'] },
+        { ...writer, subject: 'alice' },
+      ])
+    ).toEqual(['denied', 'denied', 'allowed', 'allowed']);
+  });
+
+  it('should not mistake a broken route for an allowed one', async () => {
+    await expect(routePolicyOutcomes(buildApp(), 'GET', '/missing', [{}])).rejects.toThrow(
+      'GET /missing answered 404, not a policy decision'
+    );
+  });
+
+  it('should answer denials with a 403 problem naming the requirement', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/orders/7', {
+        method: 'DELETE',
+        headers: { 'x-test-principal': JSON.stringify({ scopes: ['orders:write'] }) },
+      })
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('content-type')).toContain(PROBLEM_CONTENT_TYPE);
+    expect(await response.json()).toMatchObject({
+      status: 403,
+      code: 'FORBIDDEN',
+      detail: 'Requires role admin or ownership of the order',
+    });
+  });
+
+  it('should write an audit entry for every denial', async () => {
+    const warn = spyOn(getLogger('audit'), 'warn');
+    const app = buildApp();
+
+    await routePolicyOutcomes(app, 'GET', '/items', [
+      { subject: 'bob', type: 'api-key' },
+      { scopes: ['items:read'] },
+    ]);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]).toEqual([
+      {
+        event: 'authorization.denied',
+        auth_type: 'api-key',
+        subject: 'bob',
+        method: 'GET',
+        route: '/items',
+        requirement: 'scope items:read',
+      },
+      'Authorization denied',
+    ]);
+    warn.mockRestore();
+  });
+
+  it('should authorize scopes carried by real tokens', async () => {
+    const app = buildApp({ JWT_SECRET: SECRET }, {});
+    const token = await new SignJWT({ sub: 'carol', scope: 'items:read' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setExpirationTime('5m')
+      .sign(Buffer.from(SECRET));
+
+    const response = await app.handle(
+      new Request('http://localhost/items', { headers: { authorization: `Bearer ${token}` } })
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should document the security and 403 response of authorized routes', async () => {
+    const spec = await (
+      await buildApp({ JWT_SECRET: SECRET }, {}).handle(
+        new Request('http://localhost/openapi.json')
+      )
+    ).json();
+    const operation = spec.paths['/orders/{id}'].delete;
+
+    expect(operation.security).toEqual([{ bearerAuth: [] }, { apiKey: [] }]);
+    expect(operation.responses['403'].description).toBe(
+      'Requires scope orders:write and role admin or ownership of the order'
+    );
+    expect(spec.paths['/items'].get.responses['403']).toBeDefined();
+  });
+});
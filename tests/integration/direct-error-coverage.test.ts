@@ -37,8 +37,11 @@ describe('Direct Error Handler Coverage', () => {
 
     // This triggers the NOT_FOUND branch of the error handler
     expect(body).toMatchObject({
-      error: 'Not Found',
-      message: 'The requested endpoint does not exist',
+      type: '/problems/not-found',
+      title: 'Not Found',
+      status: 404,
+      detail: 'The requested endpoint does not exist',
+      code: 'NOT_FOUND',
       timestamp: expect.any(String),
     });
   });
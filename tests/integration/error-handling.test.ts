@@ -5,7 +5,8 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
-import { app } from '../../src/app.js';
+import { app, createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
 import { Elysia } from 'elysia';
 
 describe('Error Handling Integration', () => {
@@ -31,8 +32,11 @@ describe('Error Handling Integration', () => {
       const body = await response.json();
 
       expect(body).toMatchObject({
-        error: 'Not Found',
-        message: 'The requested endpoint does not exist',
+        type: '/problems/not-found',
+        title: 'Not Found',
+        status: 404,
+        detail: 'The requested endpoint does not exist',
+        code: 'NOT_FOUND',
         timestamp: expect.any(String),
       });
 
@@ -192,15 +196,10 @@ describe('Error Handling Integration', () => {
 
   describe('Environment Variable Edge Cases', () => {
     it('should handle missing environment variables gracefully', async () => {
-      const originalVars = {
-        NODE_ENV: process.env.NODE_ENV,
-        npm_package_version: process.env.npm_package_version,
-      };
+      // Configuration is frozen at boot, so build an app from an empty environment
+      const bareApp = createApp(loadConfig({ env: {}, envFiles: false }));
 
-      delete process.env.NODE_ENV;
-      delete process.env.npm_package_version;
-
-      const response = await app.handle(new Request('http://localhost/health'));
+      const response = await bareApp.handle(new Request('http://localhost/health'));
 
       expect(response.status).toBe(200);
       const body = await response.json();
@@ -210,11 +209,6 @@ describe('Error Handling Integration', () => {
         environment: 'development', // Default fallback
         version: '1.0.0', // Default fallback
       });
-
-      // Restore environment variables
-      if (originalVars.NODE_ENV) process.env.NODE_ENV = originalVars.NODE_ENV;
-      if (originalVars.npm_package_version)
-        process.env.npm_package_version = originalVars.npm_package_version;
     });
   });
 });
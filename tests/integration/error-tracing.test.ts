@@ -0,0 +1,85 @@
+/**
+ * Integration tests for span annotation by the global handlers
+ *
+ * Uses an in-memory exporter to inspect the server span of each request
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { ConflictError } from '../../src/errors.js';
+
+const exporter = new InMemorySpanExporter();
+const tracer = new BasicTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+}).getTracer('test');
+
+const buildApp = () =>
+  createApp(loadConfig({ env: { NODE_ENV: 'test' }, envFiles: false }), { tracer })
+    .get('/orders/:id', ({ params }) => ({ id: params.id }))
+    .post('/orders', () => {
+      throw new ConflictError('Order already exists');
+    })
+    .get('/crash', () => {
+      throw new RangeError('index out of range');
+    });
+
+// Handle a request and return its finished server span
+const handleWithSpan = async (request: Request) => {
+  const response = await buildApp().handle(request);
+  const span = exporter.getFinishedSpans().find((finished) => finished.kind === SpanKind.SERVER);
+  return { response, span };
+};
+
+describe('Error Tracing Integration', () => {
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  it('should add the route and status to successful request spans', async () => {
+    const { response, span } = await handleWithSpan(new Request('http://localhost/orders/7'));
+
+    expect(response.status).toBe(200);
+    expect(span?.attributes).toMatchObject({
+      'http.route': '/orders/:id',
+      'http.response.status_code': 200,
+    });
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should record unexpected errors and fail the span', async () => {
+    const { response, span } = await handleWithSpan(new Request('http://localhost/crash'));
+
+    expect(response.status).toBe(500);
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span?.attributes).toMatchObject({
+      'error.type': 'RangeError',
+      'http.route': '/crash',
+      'http.response.status_code': 500,
+    });
+    expect(span?.events.map((event) => event.name)).toEqual(['exception']);
+  });
+
+  it('should record client errors by code without failing the span', async () => {
+    const { response, span } = await handleWithSpan(
+      new Request('http://localhost/orders', { method: 'POST' })
+    );
+
+    expect(response.status).toBe(409);
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+    expect(span?.attributes['error.type']).toBe('CONFLICT');
+  });
+
+  it('should echo the trace ID in responses, including errors', async () => {
+    const { response, span } = await handleWithSpan(new Request('http://localhost/crash'));
+
+    expect(response.headers.get('x-trace-id')).toBe(span?.spanContext().traceId);
+    expect((await response.json()).trace_id).toBe(span?.spanContext().traceId);
+  });
+});
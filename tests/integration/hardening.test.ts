@@ -0,0 +1,230 @@
+/**
+ * Integration tests for HTTP hardening
+ *
+ * Verifies CORS preflight and actual responses, security headers on success
+ * and error responses, the docs page policy, 413/431/408 request limits, and
+ * that requests answered before routing still complete (access log, draining)
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { t } from 'elysia';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { PROBLEM_CONTENT_TYPE } from '../../src/errors.js';
+import { Lifecycle } from '../../src/lifecycle.js';
+import { DOCS_CONTENT_SECURITY_POLICY } from '../../src/openapi.js';
+import { ShutdownManager } from '../../src/shutdown.js';
+import { captureChildLogs } from '../test-utils.js';
+
+const ORIGIN = 'https://app.example.com';
+
+const buildApp = (
+  env: Record<string, string> = {},
+  dependencies: Parameters<typeof createApp>[1] = {}
+) =>
+  createApp(
+    loadConfig({
+      env: {
+        NODE_ENV: 'test',
+        ACCESS_LOG_ENABLED: 'false',
+        CORS_ORIGINS: ORIGIN,
+        CORS_CREDENTIALS: 'true',
+        MAX_BODY_BYTES: '64',
+        MAX_HEADER_COUNT: '20',
+        REQUEST_BODY_TIMEOUT_MS: '200',
+        ...env,
+      },
+      envFiles: false,
+    }),
+    dependencies
+  ).post('/notes', ({ body }) => body, { body: t.Object({ text: t.String() }) });
+
+// Body sent in chunks, without Content-Length, pausing before each chunk
+const streamed = (chunks: string[], delayMs = 0) =>
+  new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const chunk of chunks) {
+        await Bun.sleep(delayMs);
+        controller.enqueue(Buffer.from(chunk));
+      }
+      controller.close();
+    },
+  });
+
+const postNote = (app: ReturnType<typeof buildApp>, body: ReadableStream<Uint8Array>) =>
+  app.handle(
+    new Request('http://localhost/notes', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body,
+    })
+  );
+
+const preflight = () =>
+  new Request('http://localhost/notes', {
+    method: 'OPTIONS',
+    headers: {
+      origin: ORIGIN,
+      'access-control-request-method': 'POST',
+      'access-control-request-headers': 'content-type',
+    },
+  });
+
+describe('HTTP Hardening Integration', () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+    restore = undefined;
+  });
+
+  it('should answer preflight requests from allowed origins', async () => {
+    const response = await buildApp().handle(preflight());
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(response.headers.get('access-control-allow-headers')).toBe('content-type');
+    expect(response.headers.get('access-control-max-age')).toBe('600');
+    expect(response.headers.get('vary')).toBe('Origin');
+  });
+
+  it('should expose response headers to allowed origins only', async () => {
+    const app = buildApp();
+    const from = (origin: string) =>
+      app.handle(new Request('http://localhost/', { headers: { origin } }));
+
+    const allowed = await from(ORIGIN);
+    expect(allowed.headers.get('access-control-allow-origin')).toBe(ORIGIN);
+    expect(allowed.headers.get('access-control-expose-headers')).toContain('x-request-id');
+    expect(allowed.headers.get('access-control-expose-headers')).toContain('ratelimit-remaining');
+
+    const denied = await from('https://evil.example.com');
+    expect(denied.status).toBe(200);
+    expect(denied.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should leave OPTIONS alone when CORS is not configured', async () => {
+    const response = await buildApp({ CORS_ORIGINS: '', CORS_CREDENTIALS: 'false' }).handle(
+      new Request('http://localhost/notes', {
+        method: 'OPTIONS',
+        headers: { origin: ORIGIN, 'access-control-request-method': 'POST' },
+      })
+    );
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should send security headers on success and error responses', async () => {
+    const app = buildApp();
+
+    for (const path of ['/', '/missing']) {
+      const response = await app.handle(new Request(`http://localhost${path}`));
+      expect(response.headers.get('strict-transport-security')).toBe(
+        'max-age=31536000; includeSubDomains'
+      );
+      expect(response.headers.get('content-security-policy')).toBe(
+        "default-src 'none'; frame-ancestors 'none'"
+      );
+      expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+      expect(response.headers.get('referrer-policy')).toBe('no-referrer');
+      expect(response.headers.get('x-frame-options')).toBe('DENY');
+    }
+  });
+
+  it('should let the docs page load the API reference', async () => {
+    const response = await buildApp().handle(new Request('http://localhost/docs'));
+
+    expect(response.headers.get('content-security-policy')).toBe(DOCS_CONTENT_SECURITY_POLICY);
+    expect(DOCS_CONTENT_SECURITY_POLICY).toContain('script-src https://cdn.jsdelivr.net');
+  });
+
+  it('should send no security headers when disabled', async () => {
+    const response = await buildApp({ SECURITY_HEADERS_ENABLED: 'false' }).handle(
+      new Request('http://localhost/docs')
+    );
+
+    expect(response.headers.get('content-security-policy')).toBeNull();
+    expect(response.headers.get('x-frame-options')).toBeNull();
+  });
+
+  it('should reject bodies over the size limit with 413', async () => {
+    const app = buildApp();
+    const note = JSON.stringify({ text: 'x'.repeat(100) });
+
+    const announced = await app.handle(
+      new Request('http://localhost/notes', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'content-length': String(note.length) },
+        body: note,
+      })
+    );
+    expect(announced.status).toBe(413);
+    expect(announced.headers.get('content-type')).toContain(PROBLEM_CONTENT_TYPE);
+    expect(await announced.json()).toMatchObject({
+      code: 'CONTENT_TOO_LARGE',
+      detail: 'Request bodies may be at most 64 bytes',
+    });
+
+    const chunked = await postNote(app, streamed([note.slice(0, 50), note.slice(50)]));
+    expect(chunked.status).toBe(413);
+  });
+
+  it('should accept streamed bodies within the limits', async () => {
+    const response = await postNote(buildApp(), streamed(['{"text":', '"hello"}'], 10));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: 'hello' });
+  });
+
+  it('should reject requests with too many headers with 431', async () => {
+    const headers = Object.fromEntries(
+      Array.from({ length: 25 }, (_, i) => [`x-extra-${i}`, 'value'])
+    );
+
+    const response = await buildApp().handle(new Request('http://localhost/', { headers }));
+
+    expect(response.status).toBe(431);
+    expect((await response.json()).code).toBe('HEADER_FIELDS_TOO_LARGE');
+  });
+
+  it('should time out slow bodies with 408', async () => {
+    const response = await postNote(buildApp(), streamed(['{"text":', '"a"', '}'], 150));
+
+    expect(response.status).toBe(408);
+    expect(await response.json()).toMatchObject({
+      code: 'REQUEST_TIMEOUT',
+      detail: 'The request body was not received within 200ms',
+    });
+  });
+
+  it('should complete requests answered before routing', async () => {
+    const capture = captureChildLogs();
+    restore = capture.restore;
+    const shutdown = new ShutdownManager(
+      { timeoutMs: 1000, drainTimeoutMs: 500, hookTimeoutMs: 100 },
+      new Lifecycle()
+    );
+    const app = buildApp({ ACCESS_LOG_ENABLED: 'true' }, { shutdown });
+    const headers = Object.fromEntries(
+      Array.from({ length: 25 }, (_, i) => [`x-extra-${i}`, 'value'])
+    );
+
+    await app.handle(
+      new Request('http://localhost/notes', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'content-length': '100' },
+        body: 'x'.repeat(100),
+      })
+    );
+    await postNote(app, streamed(['{"text":', '"a"', '}'], 150));
+    await app.handle(new Request('http://localhost/', { headers }));
+    await app.handle(preflight());
+
+    const lines = capture.logs.filter((log) => log.message === 'Request completed');
+    expect(lines.map((line) => line.data?.status)).toEqual([413, 408, 431, 204]);
+    expect(shutdown.inFlight).toBe(0);
+    expect(await shutdown.shutdown('SIGTERM')).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Integration tests for the lifecycle-driven health probes
+ *
+ * Walks an app through starting → ready → draining → stopped and checks
+ * every probe, including the legacy /health and /ready endpoints
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { Lifecycle } from '../../src/lifecycle.js';
+import { ReadinessRegistry } from '../../src/readiness.js';
+
+const config = loadConfig({ env: { READINESS_CACHE_TTL_MS: '0' }, envFiles: false });
+const PROBES = ['/livez', '/startupz', '/readyz', '/health', '/ready'];
+
+const setup = () => {
+  const lifecycle = new Lifecycle();
+  const readiness = new ReadinessRegistry(config.readiness);
+  const app = createApp(config, { lifecycle, readiness });
+  const statuses = async () =>
+    Promise.all(
+      PROBES.map(async (path) => (await app.handle(new Request(`http://localhost${path}`))).status)
+    );
+  return { app, lifecycle, readiness, statuses };
+};
+
+describe('Health Probes Integration', () => {
+  it('should answer each probe from the lifecycle state', async () => {
+    const { lifecycle, statuses } = setup();
+
+    expect(await statuses()).toEqual([200, 503, 503, 200, 503]);
+
+    lifecycle.markReady();
+    expect(await statuses()).toEqual([200, 200, 200, 200, 200]);
+
+    lifecycle.beginDraining();
+    expect(await statuses()).toEqual([200, 200, 503, 200, 503]);
+
+    lifecycle.markStopped();
+    expect(await statuses()).toEqual([503, 200, 503, 503, 503]);
+  });
+
+  it('should report the state in probe bodies', async () => {
+    const { app, lifecycle } = setup();
+    lifecycle.markReady();
+    lifecycle.beginDraining();
+
+    const ready = await app
+      .handle(new Request('http://localhost/readyz'))
+      .then((res) => res.json());
+    const health = await app
+      .handle(new Request('http://localhost/health'))
+      .then((res) => res.json());
+
+    expect(ready).toMatchObject({ status: 'not_ready', state: 'draining', dependencies: {} });
+    expect(health).toMatchObject({ status: 'ok', state: 'draining' });
+  });
+
+  it('should not run dependency checks while draining', async () => {
+    const { app, lifecycle, readiness } = setup();
+    let calls = 0;
+    readiness.register('database', () => {
+      calls++;
+      return Promise.resolve();
+    });
+
+    lifecycle.markReady();
+    await app.handle(new Request('http://localhost/readyz'));
+    lifecycle.beginDraining();
+    await app.handle(new Request('http://localhost/readyz'));
+
+    expect(calls).toBe(1);
+  });
+});
@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { loadConfig } from '../../src/config.js';
 
 describe('Application Initialization', () => {
   let originalEnv: Record<string, string | undefined>;
@@ -41,7 +42,7 @@ describe('Application Initialization', () => {
 
       // Import and initialize
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
 
@@ -58,7 +59,7 @@ describe('Application Initialization', () => {
       process.env.OTEL_CONSOLE_EXPORTER = 'false';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
 
@@ -76,7 +77,7 @@ describe('Application Initialization', () => {
       delete process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
 
@@ -91,7 +92,7 @@ describe('Application Initialization', () => {
       process.env.OTEL_TRACING_ENABLED = 'true';
 
       const { initializeOTel, getTraceContext } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       // Test when no active span
       const context = getTraceContext();
@@ -0,0 +1,95 @@
+/**
+ * Integration tests for shipping logs over OTLP
+ *
+ * Logs through a real pino logger and checks the batch that reaches a local
+ * stand-in collector
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { loadConfig } from '../../src/config.js';
+import { createLogger } from '../../src/logger.js';
+import { shutdownLogExport } from '../../src/log-export.js';
+
+interface OtlpLogsBody {
+  resourceLogs: {
+    resource: { attributes: { key: string; value: { stringValue?: string } }[] };
+    scopeLogs: {
+      logRecords: {
+        severityNumber: number;
+        severityText: string;
+        body: { stringValue: string };
+        traceId: string;
+        spanId: string;
+        attributes: { key: string }[];
+      }[];
+    }[];
+  }[];
+}
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('OTLP Log Export', () => {
+  let collector: Server;
+  const received: { headers: Headers; body: OtlpLogsBody }[] = [];
+
+  beforeAll(() => {
+    collector = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({ headers: request.headers, body: (await request.json()) as OtlpLogsBody });
+        return new Response('{}', { headers: { 'content-type': 'application/json' } });
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await shutdownLogExport();
+    await collector.stop(true);
+  });
+
+  it('should export batched, trace-correlated records with the service resource', async () => {
+    const config = loadConfig({
+      env: {
+        NODE_ENV: 'test',
+        OTEL_SERVICE_NAME: 'orders',
+        OTEL_EXPORTER_OTLP_LOGS_ENDPOINT: `http://localhost:${collector.port}/v1/logs`,
+        OTEL_EXPORTER_OTLP_PROTOCOL: 'http/json',
+        OTEL_EXPORTER_OTLP_HEADERS: 'authorization=secret',
+      },
+      envFiles: false,
+    });
+    const log = createLogger(
+      { level: 'info', formatters: { level: (label) => ({ level: label }) } },
+      config
+    );
+
+    log.info({ trace_id: TRACE_ID, span_id: SPAN_ID, order_id: 7 }, 'Order created');
+    log.warn('Inventory low');
+    await shutdownLogExport();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.headers.get('authorization')).toBe('secret');
+
+    const [resourceLogs] = received[0]?.body.resourceLogs ?? [];
+    expect(resourceLogs?.resource.attributes).toContainEqual({
+      key: 'service.name',
+      value: { stringValue: 'orders' },
+    });
+
+    const records = resourceLogs?.scopeLogs[0]?.logRecords ?? [];
+    expect(records.map((record) => record.body.stringValue)).toEqual([
+      'Order created',
+      'Inventory low',
+    ]);
+    expect(records[0]).toMatchObject({
+      severityNumber: 9,
+      severityText: 'INFO',
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+    });
+    expect(records[0]?.attributes.map((attribute) => attribute.key)).toEqual(['order_id']);
+    expect(records[1]?.severityNumber).toBe(13);
+  });
+});
@@ -54,8 +54,9 @@ describe('Main App Error Trigger Coverage', () => {
       const body = await response.json();
 
       expect(body).toMatchObject({
-        error: 'Internal Server Error',
-        message: 'Something went wrong', // Production should hide error details
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'Something went wrong', // Production should hide error details
         timestamp: expect.any(String),
       });
     } catch (error) {
@@ -89,8 +90,9 @@ describe('Main App Error Trigger Coverage', () => {
       const body = await response.json();
 
       expect(body).toMatchObject({
-        error: 'Internal Server Error',
-        message: 'URL access error for development testing', // Development should show error
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'URL access error for development testing', // Development should show error
         timestamp: expect.any(String),
       });
     } catch (error) {
@@ -124,8 +126,9 @@ describe('Main App Error Trigger Coverage', () => {
       const body = await response.json();
 
       expect(body).toMatchObject({
-        error: 'Internal Server Error',
-        message: 'String error instead of Error object', // Now throws Error object due to lint fix
+        title: 'Internal Server Error',
+        status: 500,
+        detail: 'String error instead of Error object', // Now throws Error object due to lint fix
         timestamp: expect.any(String),
       });
     } catch (error) {
@@ -0,0 +1,50 @@
+/**
+ * Integration tests for the metrics endpoint
+ *
+ * Verifies requests served by the app show up in the Prometheus exposition
+ */
+
+import { describe, it, expect, afterAll } from 'bun:test';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { PROMETHEUS_CONTENT_TYPE, shutdownMetrics } from '../../src/metrics.js';
+
+describe('Metrics Endpoint Integration', () => {
+  afterAll(async () => {
+    await shutdownMetrics();
+  });
+
+  it('should serve request metrics in Prometheus text format', async () => {
+    const app = createApp(loadConfig({ env: { ACCESS_LOG_ENABLED: 'false' }, envFiles: false }));
+
+    await app.handle(new Request('http://localhost/health'));
+    await app.handle(new Request('http://localhost/does-not-exist'));
+    const response = await app.handle(new Request('http://localhost/metrics'));
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe(PROMETHEUS_CONTENT_TYPE);
+    expect(text).toMatch(/http_server_requests_total\{[^}]*http_route="\/health"[^}]*"200"\} \d+/);
+    expect(text).toMatch(/http_server_requests_total\{[^}]*http_route="unmatched"[^}]*"404"\} \d+/);
+    expect(text).toContain('# TYPE http_server_request_duration histogram');
+  });
+
+  it('should not expose the endpoint when metrics are disabled', async () => {
+    const app = createApp(loadConfig({ env: { METRICS_ENABLED: 'false' }, envFiles: false }));
+
+    const response = await app.handle(new Request('http://localhost/metrics'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should serve metrics from the configured path', async () => {
+    const app = createApp(
+      loadConfig({ env: { METRICS_PATH: '/internal/metrics' }, envFiles: false })
+    );
+
+    const response = await app.handle(new Request('http://localhost/internal/metrics'));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('process_uptime');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Integration tests for OTLP trace and metric export
+ *
+ * Exports spans and metrics to a local stand-in collector and checks what
+ * arrives on the wire: protocol, headers, compression and resource attributes
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import type { Server } from 'bun';
+import {
+  Server as GrpcServer,
+  ServerCredentials,
+  type Metadata,
+  type sendUnaryData,
+} from '@grpc/grpc-js';
+import { BasicTracerProvider, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-node';
+import { MeterProvider, PeriodicExportingMetricReader } from '@opentelemetry/sdk-metrics';
+import { loadConfig } from '../../src/config.js';
+import { createOtlpMetricExporter, createOtlpTraceExporter } from '../../src/otlp.js';
+import { createServiceResource } from '../../src/resource.js';
+import { createSampler } from '../../src/observability.js';
+
+interface ReceivedExport {
+  headers: Headers;
+  body: Uint8Array;
+}
+
+interface OtlpJsonBody {
+  resourceSpans: {
+    resource: { attributes: { key: string; value: { stringValue?: string } }[] };
+    scopeSpans: { spans: { name: string }[] }[];
+  }[];
+}
+
+let collector: Server;
+let received: ReceivedExport[] = [];
+
+const endpoint = () => `http://localhost:${collector.port}/v1/traces`;
+
+/**
+ * Export one span through the exporter built from `env`, using the configured sampler and resource
+ */
+async function exportSpan(env: Record<string, string>, url = endpoint()): Promise<void> {
+  const config = loadConfig({ env: { NODE_ENV: 'test', ...env }, envFiles: false });
+  const exporter = createOtlpTraceExporter(config.otlp, url);
+  const provider = new BasicTracerProvider({
+    resource: createServiceResource(config),
+    sampler: createSampler(config.otel),
+  });
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+
+  provider.getTracer('otlp-test').startSpan('exported-span').end();
+  await provider.forceFlush();
+  await provider.shutdown();
+}
+
+/**
+ * Export one counter through the exporter built from `env`
+ */
+async function exportMetric(env: Record<string, string>, url = endpoint()): Promise<void> {
+  const config = loadConfig({ env: { NODE_ENV: 'test', ...env }, envFiles: false });
+  const provider = new MeterProvider({
+    resource: createServiceResource(config),
+    readers: [
+      new PeriodicExportingMetricReader({
+        exporter: createOtlpMetricExporter(config.otlp, url),
+        exportIntervalMillis: 60_000,
+      }),
+    ],
+  });
+
+  provider.getMeter('otlp-test').createCounter('exported.counter').add(1);
+  await provider.forceFlush();
+  await provider.shutdown();
+}
+
+/**
+ * Serve one gRPC export method on a local port, recording the metadata of each call
+ */
+async function startGrpcCollector(path: string) {
+  const calls: Metadata[] = [];
+  const server = new GrpcServer();
+  server.addService(
+    {
+      Export: {
+        path,
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: (value: Buffer) => value,
+        requestDeserialize: (value: Buffer) => value,
+        responseSerialize: (value: Buffer) => value,
+        responseDeserialize: (value: Buffer) => value,
+      },
+    },
+    {
+      Export: (call: { metadata: Metadata }, callback: sendUnaryData<Buffer>) => {
+        calls.push(call.metadata);
+        callback(null, Buffer.alloc(0));
+      },
+    }
+  );
+  const port = await new Promise<number>((resolve, reject) =>
+    server.bindAsync('127.0.0.1:0', ServerCredentials.createInsecure(), (error, bound) =>
+      error ? reject(error) : resolve(bound)
+    )
+  );
+  return { url: `http://127.0.0.1:${port}`, calls, stop: () => server.forceShutdown() };
+}
+
+const resourceAttributes = (body: OtlpJsonBody) =>
+  Object.fromEntries(
+    (body.resourceSpans[0]?.resource.attributes ?? []).map(({ key, value }) => [
+      key,
+      value.stringValue,
+    ])
+  );
+
+// One stand-in HTTP collector for every test, recording each export request
+beforeAll(() => {
+  collector = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      received.push({
+        headers: request.headers,
+        body: new Uint8Array(await request.arrayBuffer()),
+      });
+      return new Response('{}', { headers: { 'content-type': 'application/json' } });
+    },
+  });
+});
+
+afterEach(() => {
+  received = [];
+});
+
+afterAll(async () => {
+  await collector.stop(true);
+});
+
+describe('OTLP Trace Export', () => {
+  it('should send http/json with configured headers and resource attributes', async () => {
+    await exportSpan({
+      OTEL_EXPORTER_OTLP_PROTOCOL: 'http/json',
+      OTEL_EXPORTER_OTLP_HEADERS: 'authorization=Bearer%20secret,x-tenant=acme',
+      OTEL_RESOURCE_ATTRIBUTES: 'deployment.region=eu-west-1,service.name=ignored',
+      OTEL_SERVICE_NAME: 'orders',
+    });
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request?.headers.get('content-type')).toBe('application/json');
+    expect(request?.headers.get('authorization')).toBe('Bearer secret');
+    expect(request?.headers.get('x-tenant')).toBe('acme');
+
+    const body = JSON.parse(Buffer.from(request?.body ?? []).toString()) as OtlpJsonBody;
+    expect(resourceAttributes(body)).toMatchObject({
+      'deployment.region': 'eu-west-1',
+      'service.name': 'orders',
+    });
+    expect(body.resourceSpans[0]?.scopeSpans[0]?.spans[0]?.name).toBe('exported-span');
+  });
+
+  it('should send http/protobuf by default', async () => {
+    await exportSpan({});
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.headers.get('content-type')).toBe('application/x-protobuf');
+  });
+
+  it('should gzip payloads when compression is enabled', async () => {
+    await exportSpan({
+      OTEL_EXPORTER_OTLP_PROTOCOL: 'http/json',
+      OTEL_EXPORTER_OTLP_COMPRESSION: 'gzip',
+    });
+
+    const [request] = received;
+    expect(request?.headers.get('content-encoding')).toBe('gzip');
+    const body = JSON.parse(
+      Buffer.from(Bun.gunzipSync(request?.body ?? new Uint8Array())).toString()
+    ) as OtlpJsonBody;
+    expect(body.resourceSpans).toHaveLength(1);
+  });
+
+  it('should not export spans dropped by the sampler', async () => {
+    await exportSpan({ OTEL_TRACES_SAMPLER: 'traceidratio', OTEL_TRACES_SAMPLER_ARG: '0' });
+
+    expect(received).toHaveLength(0);
+  });
+
+  it('should send headers as gRPC metadata', async () => {
+    const grpc = await startGrpcCollector(
+      '/opentelemetry.proto.collector.trace.v1.TraceService/Export'
+    );
+
+    try {
+      await exportSpan(
+        { OTEL_EXPORTER_OTLP_PROTOCOL: 'grpc', OTEL_EXPORTER_OTLP_HEADERS: 'authorization=secret' },
+        grpc.url
+      );
+    } finally {
+      grpc.stop();
+    }
+
+    expect(grpc.calls[0]?.get('authorization')).toEqual(['secret']);
+  });
+});
+
+describe('OTLP Metric Export', () => {
+  it('should send http/protobuf by default', async () => {
+    await exportMetric({});
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.headers.get('content-type')).toBe('application/x-protobuf');
+  });
+
+  it('should send http/json when configured', async () => {
+    await exportMetric({ OTEL_EXPORTER_OTLP_PROTOCOL: 'http/json' });
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.headers.get('content-type')).toBe('application/json');
+    const body = JSON.parse(Buffer.from(received[0]?.body ?? []).toString()) as {
+      resourceMetrics: unknown[];
+    };
+    expect(body.resourceMetrics).toHaveLength(1);
+  });
+
+  it('should send gRPC when configured', async () => {
+    const grpc = await startGrpcCollector(
+      '/opentelemetry.proto.collector.metrics.v1.MetricsService/Export'
+    );
+
+    try {
+      await exportMetric(
+        { OTEL_EXPORTER_OTLP_PROTOCOL: 'grpc', OTEL_EXPORTER_OTLP_HEADERS: 'authorization=secret' },
+        grpc.url
+      );
+    } finally {
+      grpc.stop();
+    }
+
+    expect(grpc.calls).toHaveLength(1);
+    expect(grpc.calls[0]?.get('authorization')).toEqual(['secret']);
+    expect(received).toHaveLength(0);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Integration tests for problem+json error responses
+ *
+ * Verifies typed AppErrors and Elysia's own errors keep their status and
+ * code through the global error handler
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { t } from 'elysia';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { ForbiddenError, PROBLEM_CONTENT_TYPE } from '../../src/errors.js';
+
+const buildApp = (environment = 'production') =>
+  createApp(loadConfig({ env: { NODE_ENV: environment }, envFiles: false }))
+    .get('/forbidden', () => {
+      throw new ForbiddenError('Orders are read-only');
+    })
+    .get('/crash', () => {
+      throw new Error('connection string leaked');
+    })
+    .post('/orders', ({ body }) => body, {
+      body: t.Object({ item: t.String(), quantity: t.Number() }),
+    })
+    .get('/session', ({ cookie: { session } }) => session?.value ?? null, {
+      cookie: t.Cookie(
+        { session: t.Optional(t.String()) },
+        { secrets: 'secret', sign: ['session'] }
+      ),
+    });
+
+const json = (body: string) => ({
+  method: 'POST',
+  headers: { 'content-type': 'application/json' },
+  body,
+});
+
+describe('Problem Details Integration', () => {
+  it('should render thrown AppErrors with their status and code', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/forbidden', { headers: { 'x-request-id': 'req-42' } })
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+    expect(response.headers.get('x-request-id')).toBe('req-42');
+    expect(body).toMatchObject({
+      type: '/problems/forbidden',
+      title: 'Forbidden',
+      status: 403,
+      detail: 'Orders are read-only',
+      instance: '/forbidden',
+      code: 'FORBIDDEN',
+      request_id: 'req-42',
+    });
+  });
+
+  it('should report schema validation failures as 422 with invalid fields', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/orders', json('{"item": 1}'))
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(body.code).toBe('VALIDATION_FAILED');
+    expect(body.errors.map((error: { path: string }) => error.path)).toContain('/item');
+  });
+
+  it('should report malformed bodies as 400', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/orders', json('{not json'))
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('BAD_REQUEST');
+  });
+
+  it('should report tampered signed cookies as 400', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/session', { headers: { cookie: 'session=forged.signature' } })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('INVALID_COOKIE_SIGNATURE');
+  });
+
+  it('should hide unexpected error messages outside development', async () => {
+    const production = await buildApp('production').handle(new Request('http://localhost/crash'));
+    const development = await buildApp('development').handle(new Request('http://localhost/crash'));
+
+    expect(production.status).toBe(500);
+    expect((await production.json()).detail).toBe('Something went wrong');
+    expect((await development.json()).detail).toBe('connection string leaked');
+  });
+});
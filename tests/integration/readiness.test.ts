@@ -0,0 +1,55 @@
+/**
+ * Integration tests for the readiness endpoint
+ *
+ * Verifies /ready reflects registered dependency checks
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { ReadinessRegistry } from '../../src/readiness.js';
+import { Lifecycle } from '../../src/lifecycle.js';
+
+const config = loadConfig({ env: { READINESS_CACHE_TTL_MS: '0' }, envFiles: false });
+
+const readyLifecycle = () => {
+  const lifecycle = new Lifecycle();
+  lifecycle.markReady();
+  return lifecycle;
+};
+
+describe('Readiness Endpoint Integration', () => {
+  it('should return 200 when all critical dependencies are up', async () => {
+    const readiness = new ReadinessRegistry(config.readiness);
+    const lifecycle = readyLifecycle();
+    readiness.register('database', () => Promise.resolve());
+    readiness.register('search', () => Promise.reject(new Error('offline')), { critical: false });
+
+    const response = await createApp(config, { readiness, lifecycle }).handle(
+      new Request('http://localhost/ready')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.status).toBe('ready');
+    expect(Object.keys(body.dependencies)).toEqual(['database', 'search']);
+  });
+
+  it('should return 503 when a critical dependency fails', async () => {
+    const readiness = new ReadinessRegistry(config.readiness);
+    const lifecycle = readyLifecycle();
+    readiness.register('database', () => Promise.reject(new Error('connection refused')));
+
+    const response = await createApp(config, { readiness, lifecycle }).handle(
+      new Request('http://localhost/ready')
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(503);
+    expect(body.status).toBe('not_ready');
+    expect(body.dependencies.database).toMatchObject({
+      status: 'down',
+      error: 'connection refused',
+    });
+  });
+});
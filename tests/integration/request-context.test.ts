@@ -0,0 +1,79 @@
+/**
+ * Integration tests for request-scoped logging and request ID propagation
+ *
+ * Verifies that handlers, completion logs and error logs share one request logger
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { captureChildLogs } from '../test-utils';
+
+describe('Request Context Integration', () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+    restore = undefined;
+  });
+
+  const buildApp = () =>
+    createApp(loadConfig({ env: { NODE_ENV: 'test' }, envFiles: false }))
+      .get('/whoami', ({ requestId, log }) => {
+        log.info('Handling whoami');
+        return { requestId };
+      })
+      .get('/explode', () => {
+        throw new Error('boom');
+      });
+
+  it('should expose the request ID to handlers and echo it in the response', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/whoami', { headers: { 'x-request-id': 'client-id-1' } })
+    );
+
+    expect(response.headers.get('x-request-id')).toBe('client-id-1');
+    expect(await response.json()).toEqual({ requestId: 'client-id-1' });
+  });
+
+  it('should derive the request ID from traceparent when no x-request-id is sent', async () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const response = await buildApp().handle(
+      new Request('http://localhost/whoami', {
+        headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+      })
+    );
+
+    expect(response.headers.get('x-request-id')).toBe(traceId);
+  });
+
+  it('should log incoming, handler and completion lines with the same request ID', async () => {
+    const capture = captureChildLogs();
+    restore = capture.restore;
+
+    const response = await buildApp().handle(new Request('http://localhost/whoami'));
+    const requestId = response.headers.get('x-request-id');
+
+    const messages = capture.logs.map((entry) => entry.message);
+    expect(messages).toEqual(['Incoming request', 'Handling whoami', 'Request completed']);
+    for (const entry of capture.logs) {
+      expect(entry.bindings.request_id).toBe(requestId);
+    }
+  });
+
+  it('should log errors with the request ID, including 404s', async () => {
+    const capture = captureChildLogs();
+    restore = capture.restore;
+
+    const app = buildApp();
+    const errorResponse = await app.handle(new Request('http://localhost/explode'));
+    const notFoundResponse = await app.handle(new Request('http://localhost/missing'));
+
+    const errors = capture.logs.filter((entry) => entry.message === 'Application error');
+    expect(errors.map((entry) => entry.bindings.request_id)).toEqual([
+      errorResponse.headers.get('x-request-id'),
+      notFoundResponse.headers.get('x-request-id'),
+    ]);
+    expect(errors[0]?.data?.error).toBe('boom');
+  });
+});
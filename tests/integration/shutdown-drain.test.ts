@@ -0,0 +1,65 @@
+/**
+ * Integration tests for draining in-flight requests during shutdown
+ *
+ * Uses a real listener so requests are in flight when shutdown begins
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { Elysia } from 'elysia';
+import { ShutdownManager } from '../../src/shutdown.js';
+import { Lifecycle } from '../../src/lifecycle.js';
+import { requestContext } from '../../src/request-context.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const startServer = (manager: ShutdownManager, handlerDelayMs: number, events: string[] = []) => {
+  const app = new Elysia()
+    .use(requestContext)
+    .use(manager.requestTracker())
+    .get('/slow', async () => {
+      await sleep(handlerDelayMs);
+      events.push('handled');
+      return 'done';
+    })
+    .listen(0);
+  if (app.server) manager.attachServer(app.server);
+  return `http://localhost:${app.server?.port}`;
+};
+
+describe('Shutdown Drain Integration', () => {
+  it('should let in-flight requests finish before running hooks', async () => {
+    const manager = new ShutdownManager(
+      { timeoutMs: 2000, drainTimeoutMs: 1000, hookTimeoutMs: 100 },
+      new Lifecycle()
+    );
+    const events: string[] = [];
+    manager.register('cleanup', () => events.push('cleanup'));
+    const baseUrl = startServer(manager, 50, events);
+
+    const inFlight = fetch(`${baseUrl}/slow`).then((res) => res.text());
+    await sleep(10);
+    expect(manager.inFlight).toBe(1);
+
+    const code = await manager.shutdown('SIGTERM');
+
+    expect(await inFlight).toBe('done');
+    expect(code).toBe(0);
+    expect(events).toEqual(['handled', 'cleanup']);
+    expect(manager.inFlight).toBe(0);
+  });
+
+  it('should exit non-zero when requests outlive the drain timeout', async () => {
+    const manager = new ShutdownManager(
+      { timeoutMs: 2000, drainTimeoutMs: 20, hookTimeoutMs: 100 },
+      new Lifecycle()
+    );
+    const baseUrl = startServer(manager, 200);
+
+    const inFlight = fetch(`${baseUrl}/slow`).catch(() => undefined);
+    await sleep(10);
+    const code = await manager.shutdown('SIGTERM');
+
+    expect(code).toBe(1);
+    await inFlight;
+  });
+});
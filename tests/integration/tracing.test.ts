@@ -0,0 +1,146 @@
+/**
+ * Integration tests for the Elysia tracing plugin
+ *
+ * Verifies server span naming, W3C context and baggage extraction, and
+ * child spans for the parse, validation and handler phases, and that spans
+ * end for requests that never reach a route
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import { t } from 'elysia';
+import { propagation, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+} from '@opentelemetry/sdk-trace-base';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { getRequestTraceContext } from '../../src/tracing.js';
+
+const exporter = new InMemorySpanExporter();
+const tracer = new BasicTracerProvider({
+  spanProcessors: [new SimpleSpanProcessor(exporter)],
+}).getTracer('test');
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+
+let baggage: string | undefined;
+
+const buildApp = () =>
+  createApp(loadConfig({ env: { NODE_ENV: 'test' }, envFiles: false }), { tracer })
+    .get('/orders/:id', ({ params, request }) => {
+      const context = getRequestTraceContext(request);
+      baggage = context && propagation.getBaggage(context)?.getEntry('tenant')?.value;
+      return { id: params.id };
+    })
+    .post('/orders', ({ body }) => body, { body: t.Object({ item: t.String() }) });
+
+const serverSpan = () => exporter.getFinishedSpans().find((span) => span.kind === SpanKind.SERVER);
+const childNames = (parent: ReadableSpan | undefined) =>
+  exporter
+    .getFinishedSpans()
+    .filter((span) => span.parentSpanContext?.spanId === parent?.spanContext().spanId)
+    .map((span) => span.name);
+
+describe('Tracing Integration', () => {
+  afterEach(() => {
+    exporter.reset();
+    baggage = undefined;
+  });
+
+  it('should name server spans by route template with semantic attributes', async () => {
+    await buildApp().handle(
+      new Request('http://localhost:3000/orders/42', { headers: { 'user-agent': 'test-agent' } })
+    );
+
+    const span = serverSpan();
+    expect(span?.name).toBe('GET /orders/:id');
+    expect(span?.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'http.route': '/orders/:id',
+      'http.response.status_code': 200,
+      'url.path': '/orders/42',
+      'url.scheme': 'http',
+      'server.address': 'localhost',
+      'server.port': 3000,
+      'user_agent.original': 'test-agent',
+    });
+  });
+
+  it('should continue an inbound W3C trace with its tracestate and baggage', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/orders/1', {
+        headers: {
+          traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+          tracestate: 'vendor=value',
+          baggage: 'tenant=acme',
+        },
+      })
+    );
+
+    const span = serverSpan();
+    expect(span?.spanContext().traceId).toBe(TRACE_ID);
+    expect(span?.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+    expect(span?.spanContext().traceState?.get('vendor')).toBe('value');
+    expect(baggage).toBe('acme');
+    expect(response.headers.get('x-trace-id')).toBe(TRACE_ID);
+  });
+
+  it('should create child spans for each lifecycle phase', async () => {
+    await buildApp().handle(
+      new Request('http://localhost/orders', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ item: 'book' }),
+      })
+    );
+
+    expect(childNames(serverSpan())).toEqual(['parse', 'validation', 'handler']);
+  });
+
+  it('should fail the validation span when the body does not match the schema', async () => {
+    const response = await buildApp().handle(
+      new Request('http://localhost/orders', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ item: 7 }),
+      })
+    );
+
+    expect(response.status).toBe(422);
+    const validation = exporter.getFinishedSpans().find((span) => span.name === 'validation');
+    expect(validation?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(childNames(serverSpan())).toEqual(['parse', 'validation']);
+  });
+
+  it('should end spans for unrouted requests', async () => {
+    await buildApp().handle(new Request('http://localhost/missing'));
+
+    const span = serverSpan();
+    expect(span?.name).toBe('GET');
+    expect(span?.attributes['http.response.status_code']).toBe(404);
+    expect(span?.attributes['http.route']).toBeUndefined();
+  });
+
+  it('should end spans for requests rejected before routing', async () => {
+    const app = createApp(
+      loadConfig({ env: { NODE_ENV: 'test', MAX_BODY_BYTES: '8' }, envFiles: false }),
+      { tracer }
+    );
+
+    await app.handle(
+      new Request('http://localhost/orders', {
+        method: 'POST',
+        headers: { 'content-length': '100' },
+        body: 'x'.repeat(100),
+      })
+    );
+
+    const span = serverSpan();
+    expect(span?.name).toBe('POST');
+    expect(span?.attributes['http.response.status_code']).toBe(413);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Integration tests for versioned API routes
+ *
+ * Verifies version prefixes, deprecation headers on success and error
+ * responses, the OpenAPI deprecated flag, and deprecated usage metrics and logs
+ */
+
+import { describe, it, expect, afterAll, afterEach } from 'bun:test';
+import { t } from 'elysia';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+import { shutdownMetrics } from '../../src/metrics.js';
+import { apiVersion } from '../../src/versioning.js';
+import { captureChildLogs } from '../test-utils.js';
+
+const SINCE = '2026-01-01T00:00:00Z';
+const SUNSET = '2027-01-01T00:00:00Z';
+
+const buildApp = () =>
+  createApp(loadConfig({ env: { NODE_ENV: 'test', ACCESS_LOG_ENABLED: 'false' }, envFiles: false }))
+    .use(
+      apiVersion(1, { deprecated: { since: SINCE, sunset: SUNSET, successor: '/v2/items' } }).get(
+        '/items',
+        () => ['v1']
+      )
+    )
+    .use(
+      apiVersion(2)
+        .get('/items', () => ['v2'])
+        .get('/items/:id', ({ params }) => ({ id: params.id }), {
+          params: t.Object({ id: t.Numeric() }),
+          deprecated: { since: SINCE, successor: '/v2/items' },
+        })
+    );
+
+const get = (path: string, app = buildApp()) => app.handle(new Request(`http://localhost${path}`));
+
+describe('API Versioning Integration', () => {
+  const capture = captureChildLogs();
+
+  afterEach(() => {
+    capture.logs.length = 0;
+  });
+
+  afterAll(async () => {
+    capture.restore();
+    await shutdownMetrics();
+  });
+
+  it('should serve each version under its prefix', async () => {
+    const app = buildApp();
+
+    expect(await (await get('/v1/items', app)).json()).toEqual(['v1']);
+    expect(await (await get('/v2/items', app)).json()).toEqual(['v2']);
+    expect((await get('/items', app)).status).toBe(404);
+  });
+
+  it('should mount the version 1 API in the app', async () => {
+    const response = await get('/v1');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      version: 1,
+      documentation: '/docs',
+      openapi: '/openapi.json',
+    });
+  });
+
+  it('should announce the deprecation of a whole version', async () => {
+    const response = await get('/v1/items');
+
+    expect(response.headers.get('deprecation')).toBe(`@${Date.parse(SINCE) / 1000}`);
+    expect(response.headers.get('sunset')).toBe('Fri, 01 Jan 2027 00:00:00 GMT');
+    expect(response.headers.get('link')).toBe('</v2/items>; rel="successor-version"');
+  });
+
+  it('should only announce deprecation on deprecated routes', async () => {
+    const current = await get('/v2/items');
+    const deprecated = await get('/v2/items/7');
+
+    expect(current.headers.get('deprecation')).toBeNull();
+    expect(deprecated.headers.get('deprecation')).toBe(`@${Date.parse(SINCE) / 1000}`);
+    expect(deprecated.headers.get('sunset')).toBeNull();
+  });
+
+  it('should announce deprecation on rejected requests too', async () => {
+    const response = await get('/v2/items/not-a-number');
+
+    expect(response.status).toBe(422);
+    expect(response.headers.get('deprecation')).not.toBeNull();
+  });
+
+  it('should log every request to a deprecated route', async () => {
+    await get('/v2/items/7');
+    await get('/v2/items');
+
+    const lines = capture.logs.filter((log) => log.message === 'Deprecated route used');
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.level).toBe('warn');
+    expect(lines[0]?.data).toMatchObject({
+      route: '/v2/items/:id',
+      status: 200,
+      api_version: 2,
+      deprecated_since: SINCE,
+      successor: '/v2/items',
+    });
+  });
+
+  it('should count deprecated requests per route and version', async () => {
+    const app = buildApp();
+    await get('/v1/items', app);
+    await get('/v1/items', app);
+
+    const text = await (await get('/metrics', app)).text();
+    expect(text).toMatch(
+      /http_server_deprecated_requests_total\{[^}]*http_route="\/v1\/items"[^}]*api_version="1"[^}]*\} [2-9]/
+    );
+  });
+
+  it('should flag deprecated operations in the OpenAPI document', async () => {
+    const spec = await (await get('/openapi.json')).json();
+
+    expect(spec.paths['/v1/items'].get.deprecated).toBe(true);
+    expect(spec.paths['/v2/items/{id}'].get.deprecated).toBe(true);
+    expect(spec.paths['/v2/items'].get.deprecated).toBeUndefined();
+  });
+});
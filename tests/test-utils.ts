@@ -1,4 +1,8 @@
+import { spyOn } from 'bun:test';
 import { Elysia } from 'elysia';
+import { getLogger, type logger } from '../src/logger.js';
+import { getLifecycle } from '../src/lifecycle.js';
+import type { Authenticator, Principal } from '../src/auth.js';
 
 /**
  * Minimal test utilities for template demonstration
@@ -26,5 +30,92 @@ export const makeRequest = async (
 export const createTestApp = async (): Promise<Elysia> => {
   process.env.NODE_ENV = 'test';
   const { app } = await import('../src/index');
+  // Requests are handled without listening, so mark startup complete as the server would
+  getLifecycle().markReady();
   return app;
 };
+
+export interface CapturedLog {
+  bindings: Record<string, unknown>;
+  level: string;
+  data: Record<string, unknown> | undefined;
+  message: unknown;
+}
+
+// Replace request child loggers (of the http module logger) with recorders so each log line can be tied back to its bindings
+export const captureChildLogs = () => {
+  const logs: CapturedLog[] = [];
+  const childSpy = spyOn(getLogger('http'), 'child').mockImplementation(((
+    bindings: Record<string, unknown>
+  ) => {
+    const record =
+      (level: string) =>
+      (data: unknown, message?: unknown): void => {
+        // pino accepts either (message) or (data, message)
+        logs.push(
+          typeof data === 'string'
+            ? { bindings, level, data: undefined, message: data }
+            : { bindings, level, data: data as Record<string, unknown>, message }
+        );
+      };
+    return {
+      info: record('info'),
+      warn: record('warn'),
+      error: record('error'),
+      debug: record('debug'),
+      setBindings: (extra: Record<string, unknown>) => Object.assign(bindings, extra),
+    };
+  }) as unknown as typeof logger.child);
+
+  return { logs, restore: () => childSpy.mockRestore() };
+};
+
+const TEST_PRINCIPAL_HEADER = 'x-test-principal';
+
+// Trusts a JSON principal in a test-only header, so policies can be exercised without real credentials
+export const testAuthenticator: Authenticator = {
+  scheme: {
+    name: 'testPrincipal',
+    definition: { type: 'apiKey', in: 'header', name: TEST_PRINCIPAL_HEADER },
+  },
+  authenticate: async (request) => {
+    const header = request.headers.get(TEST_PRINCIPAL_HEADER);
+    if (header === null) return undefined;
+    return {
+      type: 'jwt',
+      subject: 'test-user',
+      scopes: [],
+      roles: [],
+      claims: {},
+      ...JSON.parse(header),
+    };
+  },
+};
+
+export type PolicyOutcome = 'allowed' | 'denied' | 'unauthenticated';
+
+/**
+ * Call a route as each of `callers` (undefined for anonymous) and report what the route's policy decided
+ * The app must be built with `authenticators: [testAuthenticator]`. Any status other than 2xx,
+ * 401 or 403 throws, so a broken route cannot pass for an allowed one.
+ */
+export const routePolicyOutcomes = async (
+  app: { handle(request: Request): Promise<Response> },
+  method: string,
+  path: string,
+  callers: readonly (Partial<Principal> | undefined)[]
+): Promise<PolicyOutcome[]> =>
+  Promise.all(
+    callers.map(async (caller) => {
+      const { status } = await app.handle(
+        new Request(`http://localhost${path}`, {
+          method,
+          headers: caller ? { [TEST_PRINCIPAL_HEADER]: JSON.stringify(caller) } : {},
+        })
+      );
+      if (status === 401) return 'unauthenticated';
+      if (status === 403) return 'denied';
+      if (status >= 200 && status < 300) return 'allowed';
+      throw new Error(`${method} ${path} answered ${status}, not a policy decision`);
+    })
+  );
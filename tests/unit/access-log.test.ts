@@ -0,0 +1,85 @@
+/**
+ * Unit tests for access log formatting, sampling and body measurement
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  formatAccessLine,
+  shouldLog,
+  measureBody,
+  type AccessLogEntry,
+} from '../../src/access-log.js';
+
+const entry: AccessLogEntry = {
+  method: 'GET',
+  path: '/items',
+  route: '/items',
+  status: 200,
+  durationMs: 1.5,
+  bytesIn: 0,
+  bytesOut: 42,
+  clientIp: '10.0.0.1',
+  requestId: 'req-1',
+  referer: 'https://example.com/',
+  userAgent: 'curl/8.0 "quoted"',
+  time: new Date('2024-03-05T07:08:09Z'),
+};
+
+describe('Access Log', () => {
+  describe('formatAccessLine', () => {
+    test('should render Common Log Format', () => {
+      expect(formatAccessLine(entry, 'common')).toBe(
+        '10.0.0.1 - - [05/Mar/2024:07:08:09 +0000] "GET /items HTTP/1.1" 200 42'
+      );
+    });
+
+    test('should render Combined Log Format with escaped quotes', () => {
+      expect(formatAccessLine(entry, 'combined')).toBe(
+        '10.0.0.1 - - [05/Mar/2024:07:08:09 +0000] "GET /items HTTP/1.1" 200 42 ' +
+          '"https://example.com/" "curl/8.0 \\"quoted\\""'
+      );
+    });
+
+    test('should use dashes for unknown values', () => {
+      const line = formatAccessLine(
+        { ...entry, clientIp: undefined, bytesOut: undefined, referer: null, userAgent: null },
+        'combined'
+      );
+      expect(line).toStartWith('- - - [');
+      expect(line).toEndWith('200 - "-" "-"');
+    });
+  });
+
+  describe('shouldLog', () => {
+    const options = { excludePaths: ['/health'], sampleRate: 0.5 };
+
+    test('should skip excluded paths', () => {
+      expect(shouldLog({ path: '/health', status: 500 }, options)).toBe(false);
+    });
+
+    test('should sample successful requests', () => {
+      expect(shouldLog({ path: '/a', status: 200 }, { ...options, random: () => 0.4 })).toBe(true);
+      expect(shouldLog({ path: '/a', status: 200 }, { ...options, random: () => 0.6 })).toBe(false);
+    });
+
+    test('should always log error responses', () => {
+      const never = { ...options, sampleRate: 0, random: () => 0.99 };
+      expect(shouldLog({ path: '/a', status: 404 }, never)).toBe(true);
+      expect(shouldLog({ path: '/a', status: 503 }, never)).toBe(true);
+    });
+  });
+
+  describe('measureBody', () => {
+    test('should measure serialized payloads in bytes', () => {
+      expect(measureBody(undefined)).toBe(0);
+      expect(measureBody('héllo')).toBe(6);
+      expect(measureBody({ a: 1 })).toBe(7);
+      expect(measureBody(new Uint8Array(3))).toBe(3);
+    });
+
+    test('should trust content-length on Response objects only when present', () => {
+      expect(measureBody(new Response('abc', { headers: { 'content-length': '3' } }))).toBe(3);
+      expect(measureBody(new Response('streamed'))).toBeUndefined();
+    });
+  });
+});
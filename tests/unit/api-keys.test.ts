@@ -0,0 +1,192 @@
+/**
+ * Unit tests for API key management
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import {
+  ApiKeyManager,
+  apiKeyAuthenticator,
+  apiKeyStatus,
+  MemoryApiKeyStore,
+  type ApiKeyRecord,
+} from '../../src/api-keys.js';
+import { ConflictError, UnauthorizedError } from '../../src/errors.js';
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the promise to reject');
+};
+
+describe('ApiKeyManager', () => {
+  let store: MemoryApiKeyStore;
+  let manager: ApiKeyManager;
+
+  beforeEach(() => {
+    store = new MemoryApiKeyStore();
+    manager = new ApiKeyManager({ prefix: 'sk', rotationOverlapSeconds: 3600, store });
+  });
+
+  test('should issue prefixed keys and store only their hash', async () => {
+    const { key, record } = await manager.create({ name: 'billing', scopes: ['a', 'b', 'a'] });
+
+    expect(key).toMatch(/^sk_[\da-f]{16}_[\w-]{43}$/);
+    expect(key.startsWith(`${record.prefix}_`)).toBe(true);
+    expect(record.scopes).toEqual(['a', 'b']);
+    const stored = await store.get(record.id);
+    expect(JSON.stringify(stored)).not.toContain(key.slice(record.prefix.length + 1));
+    expect(stored?.hash).toMatch(/^[\da-f]{64}$/);
+  });
+
+  test('should authenticate issued keys with their scopes', async () => {
+    const { key, record } = await manager.create({ name: 'billing', scopes: ['invoices:read'] });
+
+    expect(await manager.authenticate(key)).toEqual({
+      type: 'api-key',
+      subject: record.id,
+      scopes: ['invoices:read'],
+      roles: [],
+      claims: { name: 'billing', prefix: record.prefix },
+    });
+  });
+
+  test('should record when a key was last used', async () => {
+    const { key, record } = await manager.create({ name: 'billing' });
+    expect(record.lastUsedAt).toBeUndefined();
+
+    await manager.authenticate(key);
+
+    const lastUsedAt = (await store.get(record.id))?.lastUsedAt;
+    expect(lastUsedAt).toBeInstanceOf(Date);
+    expect(Date.now() - (lastUsedAt?.getTime() ?? 0)).toBeLessThan(1000);
+  });
+
+  test('should ignore values that are not shaped like keys', async () => {
+    expect(await manager.authenticate('eyJhbGciOi.eyJzdWIi.sig')).toBeUndefined();
+    expect(await manager.authenticate('pk_0123456789abcdef_secret')).toBeUndefined();
+  });
+
+  test('should reject unknown, tampered, revoked and expired keys', async () => {
+    const { key, record } = await manager.create({ name: 'billing' });
+    const expired = await manager.create({ name: 'old', expiresAt: new Date(Date.now() - 1000) });
+    const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+    const unknown = `sk_${'0'.repeat(16)}_${key.slice(-43)}`;
+    await manager.revoke(record.id);
+
+    const details = await Promise.all(
+      [tampered, unknown, key, expired.key].map(
+        async (value) =>
+          ((await rejection(manager.authenticate(value))) as UnauthorizedError).detail
+      )
+    );
+    expect(details).toEqual([
+      'The API key is invalid',
+      'The API key is invalid',
+      'The API key is revoked',
+      'The API key is expired',
+    ]);
+  });
+
+  test('should keep a rotated key working for the overlap window', async () => {
+    const original = await manager.create({ name: 'billing', scopes: ['invoices:read'] });
+
+    const successor = await manager.rotate(original.record.id, 60);
+
+    expect(successor?.record).toMatchObject({ name: 'billing', scopes: ['invoices:read'] });
+    expect((await manager.authenticate(original.key))?.subject).toBe(original.record.id);
+    expect((await manager.authenticate(successor?.key ?? ''))?.subject).toBe(successor?.record.id);
+
+    const rotated = await store.get(original.record.id);
+    expect(rotated?.replacedBy).toBe(successor?.record.id);
+    expect((rotated?.expiresAt?.getTime() ?? 0) - Date.now()).toBeGreaterThan(55_000);
+    expect((rotated?.expiresAt?.getTime() ?? 0) - Date.now()).toBeLessThanOrEqual(60_000);
+  });
+
+  test('should end the overlap immediately when rotating with no overlap', async () => {
+    const original = await manager.create({ name: 'billing' });
+
+    await manager.rotate(original.record.id, 0);
+
+    const error = (await rejection(manager.authenticate(original.key))) as UnauthorizedError;
+    expect(error.detail).toBe('The API key is expired');
+  });
+
+  test('should not rotate revoked or already rotated keys', async () => {
+    const revoked = await manager.create({ name: 'revoked' });
+    const rotated = await manager.create({ name: 'rotated' });
+    await manager.revoke(revoked.record.id);
+    await manager.rotate(rotated.record.id);
+
+    expect(await rejection(manager.rotate(revoked.record.id))).toBeInstanceOf(ConflictError);
+    expect(await rejection(manager.rotate(rotated.record.id))).toBeInstanceOf(ConflictError);
+    expect(await manager.rotate('missing')).toBeUndefined();
+  });
+
+  test('should list keys oldest first and report unknown IDs on revoke', async () => {
+    const first = await manager.create({ name: 'first' });
+    const second = await manager.create({ name: 'second' });
+    second.record.createdAt = new Date(first.record.createdAt.getTime() + 1);
+
+    expect((await manager.list()).map((record) => record.name)).toEqual(['first', 'second']);
+    expect(await manager.revoke('missing')).toBeUndefined();
+  });
+});
+
+describe('apiKeyStatus', () => {
+  const record = (fields: Partial<ApiKeyRecord>): ApiKeyRecord => ({
+    id: 'id',
+    name: 'name',
+    prefix: 'sk_id',
+    hash: '',
+    scopes: [],
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...fields,
+  });
+  const now = new Date('2026-06-01T00:00:00Z');
+
+  test('should prefer revoked over expired', () => {
+    expect(apiKeyStatus(record({}), now)).toBe('active');
+    expect(apiKeyStatus(record({ expiresAt: new Date('2026-07-01T00:00:00Z') }), now)).toBe(
+      'active'
+    );
+    expect(apiKeyStatus(record({ expiresAt: now }), now)).toBe('expired');
+    expect(apiKeyStatus(record({ expiresAt: now, revokedAt: now }), now)).toBe('revoked');
+  });
+});
+
+describe('apiKeyAuthenticator', () => {
+  const manager = new ApiKeyManager({ prefix: 'sk', rotationOverlapSeconds: 0 });
+  const { authenticate, scheme } = apiKeyAuthenticator(manager, 'x-api-key');
+  const request = (headers: Record<string, string>) =>
+    new Request('http://localhost/', { headers });
+
+  test('should accept keys in the key header or as bearer tokens', async () => {
+    const { key, record } = await manager.create({ name: 'billing' });
+
+    expect((await authenticate(request({ 'x-api-key': key })))?.subject).toBe(record.id);
+    expect((await authenticate(request({ authorization: `Bearer ${key}` })))?.subject).toBe(
+      record.id
+    );
+  });
+
+  test('should reject anything else in the key header', async () => {
+    expect(await rejection(authenticate(request({ 'x-api-key': 'nope' })))).toBeInstanceOf(
+      UnauthorizedError
+    );
+  });
+
+  test('should leave other bearer tokens to other checks', async () => {
+    expect(await authenticate(request({ authorization: 'Bearer a.b.c' }))).toBeUndefined();
+    expect(await authenticate(request({}))).toBeUndefined();
+  });
+
+  test('should document the key header', () => {
+    expect(scheme).toEqual({
+      name: 'apiKey',
+      definition: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+    });
+  });
+});
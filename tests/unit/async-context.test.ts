@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the async request context
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { ROOT_CONTEXT, trace, TraceFlags } from '@opentelemetry/api';
+import {
+  bindContext,
+  captureContext,
+  getAsyncContext,
+  getContextTraceIds,
+  runInContext,
+  runWithContext,
+  updateAsyncContext,
+} from '../../src/async-context.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+const traceContext = (traceId = TRACE_ID, spanId = SPAN_ID) =>
+  trace.setSpanContext(ROOT_CONTEXT, { traceId, spanId, traceFlags: TraceFlags.SAMPLED });
+
+describe('runWithContext', () => {
+  test('should expose the context inside and not outside', () => {
+    const seen = runWithContext({ requestId: 'r1' }, () => getAsyncContext()?.requestId);
+
+    expect(seen).toBe('r1');
+    expect(getAsyncContext()).toBeUndefined();
+  });
+
+  test('should keep the context across timers', async () => {
+    const seen = await runWithContext(
+      { requestId: 'r2' },
+      () =>
+        new Promise<string | undefined>((resolve) => {
+          setTimeout(() => resolve(getAsyncContext()?.requestId), 1);
+        })
+    );
+
+    expect(seen).toBe('r2');
+  });
+
+  test('should let nested contexts shadow outer ones', () => {
+    runWithContext({ requestId: 'outer' }, () => {
+      expect(runWithContext({ requestId: 'inner' }, () => getAsyncContext()?.requestId)).toBe(
+        'inner'
+      );
+      expect(getAsyncContext()?.requestId).toBe('outer');
+    });
+  });
+});
+
+describe('updateAsyncContext', () => {
+  test('should add values to the current context', () => {
+    runWithContext({ requestId: 'r1' }, () => {
+      expect(updateAsyncContext({ userId: 'u1', tenantId: 't1' })).toBe(true);
+      expect(getAsyncContext()).toEqual({ requestId: 'r1', userId: 'u1', tenantId: 't1' });
+    });
+  });
+
+  test('should do nothing outside a context', () => {
+    expect(updateAsyncContext({ userId: 'u1' })).toBe(false);
+    expect(getAsyncContext()).toBeUndefined();
+  });
+});
+
+describe('getContextTraceIds', () => {
+  test('should return the IDs of a valid trace context', () => {
+    expect(getContextTraceIds({ traceContext: traceContext() })).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+    });
+  });
+
+  test('should read the current context by default', () => {
+    const ids = runWithContext({ traceContext: traceContext() }, () => getContextTraceIds());
+    expect(ids?.traceId).toBe(TRACE_ID);
+  });
+
+  test('should ignore missing and invalid trace contexts', () => {
+    expect(getContextTraceIds({ requestId: 'r1' })).toBeUndefined();
+    expect(getContextTraceIds(undefined)).toBeUndefined();
+    expect(
+      getContextTraceIds({ traceContext: traceContext('0'.repeat(32), '0'.repeat(16)) })
+    ).toBeUndefined();
+  });
+});
+
+describe('captureContext and runInContext', () => {
+  test('should run work in the captured context from outside it', () => {
+    const snapshot = runWithContext({ requestId: 'r1' }, () => captureContext());
+
+    expect(runInContext(snapshot, () => getAsyncContext()?.requestId)).toBe('r1');
+    expect(getAsyncContext()).toBeUndefined();
+  });
+
+  test('should fall back to the request trace when no span is active', () => {
+    const context = traceContext();
+    const snapshot = runWithContext({ requestId: 'r1', traceContext: context }, () =>
+      captureContext()
+    );
+
+    expect(snapshot.otel).toBe(context);
+  });
+
+  test('should leave any current context when the snapshot had none', () => {
+    const snapshot = captureContext();
+    const seen = runWithContext({ requestId: 'other' }, () =>
+      runInContext(snapshot, () => getAsyncContext())
+    );
+
+    expect(seen).toBeUndefined();
+  });
+});
+
+describe('bindContext', () => {
+  test('should bind a function and its arguments to the current context', () => {
+    const bound = runWithContext({ requestId: 'r1' }, () =>
+      bindContext((suffix: string) => `${getAsyncContext()?.requestId}-${suffix}`)
+    );
+
+    expect(bound('job')).toBe('r1-job');
+  });
+});
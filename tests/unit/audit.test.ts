@@ -0,0 +1,300 @@
+/**
+ * Unit tests for the audit log
+ * Covers hash chaining, tamper detection, queries, the JSONL file store and
+ * the per-client failure limit and error handling of request events
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  AuditLog,
+  FileAuditStore,
+  GENESIS_HASH,
+  MemoryAuditStore,
+  auditHash,
+  verifyAuditChain,
+  type AuditEntry,
+  type AuditEvent,
+} from '../../src/audit.js';
+import { getLogger } from '../../src/logger.js';
+
+const denial = (subject: string): AuditEvent => ({
+  action: 'authorization.denied',
+  actor: { type: 'jwt', id: subject },
+  resource: { type: 'route', id: 'GET /items' },
+  outcome: 'denied',
+  reason: 'Requires scope items:read',
+});
+
+const keyCreated: AuditEvent = {
+  action: 'api_key.created',
+  actor: { type: 'admin' },
+  resource: { type: 'api_key', id: 'key-1' },
+  outcome: 'success',
+};
+
+const chainOf = async (audit: AuditLog) =>
+  (await audit.exportJsonl())
+    .trim()
+    .split('\n')
+    .map((line) => JSON.parse(line) as AuditEntry);
+
+describe('AuditLog', () => {
+  let audit: AuditLog;
+
+  beforeEach(() => {
+    audit = new AuditLog();
+  });
+
+  test('should chain each entry to the one before it', async () => {
+    const first = await audit.record(denial('alice'));
+    const second = await audit.record(keyCreated);
+
+    expect(first).toMatchObject({ sequence: 1, previous_hash: GENESIS_HASH, ...denial('alice') });
+    expect(second).toMatchObject({ sequence: 2, previous_hash: first.hash });
+    expect(await audit.verify()).toEqual({ valid: true, entries: 2 });
+  });
+
+  test('should keep the chain intact under concurrent writes', async () => {
+    await Promise.all(Array.from({ length: 20 }, (_, i) => audit.record(denial(`user-${i}`))));
+
+    expect(await audit.verify()).toEqual({ valid: true, entries: 20 });
+  });
+
+  test('should describe the request that caused an event', async () => {
+    const trusting = new AuditLog(undefined, { trustProxy: true });
+    const request = new Request('http://localhost/items?page=2', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+    });
+
+    const entry = await trusting.record(denial('alice'), { request });
+
+    expect(entry).toMatchObject({ ip: '203.0.113.7', method: 'GET', path: '/items' });
+    expect(entry.request_id).toBeString();
+  });
+
+  test('should page through matching entries, newest first', async () => {
+    for (let i = 0; i < 5; i++) await audit.record(denial(`user-${i}`));
+    await audit.record(keyCreated);
+
+    const first = await audit.query({ action: 'authorization.denied' }, { limit: 2 });
+    expect(first.entries.map((entry) => entry.actor.id)).toEqual(['user-4', 'user-3']);
+    expect(first.nextCursor).toBe(4);
+
+    const last = await audit.query({ action: 'authorization.denied' }, { before: 2, limit: 2 });
+    expect(last.entries.map((entry) => entry.actor.id)).toEqual(['user-0']);
+    expect(last.nextCursor).toBeUndefined();
+
+    const byResource = { resourceType: 'api_key', resourceId: 'key-1' };
+    expect((await audit.query(byResource, { limit: 10 })).entries).toHaveLength(1);
+    expect(
+      (await audit.query({ since: new Date(Date.now() + 60_000) }, { limit: 10 })).entries
+    ).toEqual([]);
+  });
+
+  test('should export matching entries oldest first, one per line', async () => {
+    await audit.record(denial('alice'));
+    await audit.record(keyCreated);
+    await audit.record(denial('bob'));
+
+    const exported = await audit.exportJsonl({ actorType: 'jwt' });
+
+    expect(exported.endsWith('\n')).toBe(true);
+    expect(
+      exported
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line).actor.id)
+    ).toEqual(['alice', 'bob']);
+  });
+});
+
+describe('AuditLog.tryRecord', () => {
+  const from = (ip: string) => ({
+    request: new Request('http://localhost/items', { headers: { 'x-forwarded-for': ip } }),
+  });
+
+  test('should record failures from each client up to the limit', async () => {
+    const audit = new AuditLog(undefined, { trustProxy: true, failureLimit: 2 });
+
+    for (let i = 0; i < 4; i++) await audit.tryRecord(denial(`mallory-${i}`), from('203.0.113.7'));
+    await audit.tryRecord(denial('alice'), from('203.0.113.8'));
+    await audit.tryRecord(keyCreated, from('203.0.113.7'));
+
+    const { entries } = await audit.query({}, { limit: 10 });
+    expect(entries.map((entry) => entry.actor.id ?? entry.actor.type)).toEqual([
+      'admin',
+      'alice',
+      'mallory-1',
+      'mallory-0',
+    ]);
+  });
+
+  test('should log write errors instead of failing the request', async () => {
+    const error = spyOn(getLogger('audit'), 'error');
+    const store = new MemoryAuditStore();
+    spyOn(store, 'append').mockRejectedValue(new Error('disk full'));
+    const audit = new AuditLog(store);
+
+    try {
+      expect(await audit.tryRecord(denial('alice'), from('203.0.113.7'))).toBeUndefined();
+      expect(error).toHaveBeenCalledWith(
+        { action: 'authorization.denied', error: 'disk full' },
+        'Failed to record audit event'
+      );
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
+
+describe('verifyAuditChain', () => {
+  let entries: AuditEntry[];
+
+  beforeEach(async () => {
+    const audit = new AuditLog();
+    for (const subject of ['alice', 'bob', 'carol']) await audit.record(denial(subject));
+    entries = await chainOf(audit);
+  });
+
+  test('should detect edited entries', () => {
+    const edited = entries.map((entry) =>
+      entry.sequence === 2 ? { ...entry, outcome: 'success' as const } : entry
+    );
+
+    expect(verifyAuditChain(edited)).toEqual({
+      valid: false,
+      entries: 3,
+      brokenAt: 2,
+      reason: 'hash does not match the entry',
+    });
+  });
+
+  test('should detect entries rehashed after editing', () => {
+    const rehashed = entries.map((entry) => {
+      if (entry.sequence !== 2) return entry;
+      const { hash: _, ...edited } = { ...entry, reason: 'nothing to see' };
+      return { ...edited, hash: auditHash(edited) };
+    });
+
+    expect(verifyAuditChain(rehashed)).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+      reason: 'previous_hash does not match the preceding entry',
+    });
+  });
+
+  test('should detect removed and reordered entries', () => {
+    expect(verifyAuditChain(entries.filter((entry) => entry.sequence !== 2))).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+      reason: 'expected sequence 2',
+    });
+    expect(verifyAuditChain([...entries].reverse())).toMatchObject({
+      valid: false,
+      brokenAt: 3,
+    });
+  });
+
+  test('should hash entries independently of member order', () => {
+    const [entry] = entries;
+    if (!entry) throw new Error('expected an entry');
+    const { hash, ...hashed } = entry;
+    const reordered = Object.fromEntries(Object.entries(hashed).reverse()) as typeof hashed;
+
+    expect(auditHash(reordered)).toBe(hash);
+  });
+});
+
+describe('FileAuditStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should continue the chain from the file after a restart', async () => {
+    const path = join(dir, 'audit.jsonl');
+    const before = new AuditLog(new FileAuditStore(path));
+    await before.record(denial('alice'));
+    await before.record(keyCreated);
+
+    const after = new AuditLog(new FileAuditStore(path));
+    const entry = await after.record(denial('bob'));
+
+    expect(entry.sequence).toBe(3);
+    expect(await after.verify()).toEqual({ valid: true, entries: 3 });
+    expect((await Bun.file(path).text()).trim().split('\n')).toHaveLength(3);
+  });
+
+  test('should report tampering with the file', async () => {
+    const path = join(dir, 'audit.jsonl');
+    const audit = new AuditLog(new FileAuditStore(path));
+    await audit.record(denial('alice'));
+    await audit.record(denial('bob'));
+
+    const content = await Bun.file(path).text();
+    await Bun.write(path, content.replace('"bob"', '"mallory"'));
+
+    expect(await new AuditLog(new FileAuditStore(path)).verify()).toMatchObject({
+      valid: false,
+      brokenAt: 2,
+    });
+  });
+
+  test('should drop a torn last line and continue the chain', async () => {
+    const warn = spyOn(getLogger('audit'), 'warn');
+    const path = join(dir, 'audit.jsonl');
+    const before = new AuditLog(new FileAuditStore(path));
+    await before.record(denial('alice'));
+    await before.record(denial('bob'));
+    const intact = await Bun.file(path).text();
+    await Bun.write(path, `${intact}{"sequence":3,"id":"to`);
+
+    try {
+      const store = new FileAuditStore(path);
+      expect(store.loaded).toEqual({ valid: true, entries: 2 });
+      expect(await Bun.file(path).text()).toBe(intact);
+      expect(warn).toHaveBeenCalledWith(
+        expect.objectContaining({ path, line: 3 }),
+        'Dropped a torn audit entry at the end of the file'
+      );
+
+      const after = new AuditLog(store);
+      expect((await after.record(keyCreated)).sequence).toBe(3);
+      expect(await after.verify()).toEqual({ valid: true, entries: 3 });
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  test('should report a tampered entry when loading the file', async () => {
+    const error = spyOn(getLogger('audit'), 'error');
+    const path = join(dir, 'audit.jsonl');
+    const audit = new AuditLog(new FileAuditStore(path));
+    for (const subject of ['alice', 'bob', 'carol']) await audit.record(denial(subject));
+    const content = await Bun.file(path).text();
+    await Bun.write(path, content.replace('"bob"', '"mallory"'));
+
+    try {
+      expect(new FileAuditStore(path).loaded).toEqual({
+        valid: false,
+        entries: 3,
+        brokenAt: 2,
+        reason: 'hash does not match the entry',
+      });
+      expect(error).toHaveBeenCalledWith(
+        { path, broken_at: 2, reason: 'hash does not match the entry' },
+        'Audit log file failed verification; its entries are unverified'
+      );
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
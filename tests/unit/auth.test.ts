@@ -0,0 +1,96 @@
+/**
+ * Unit tests for authentication helpers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Elysia } from 'elysia';
+import {
+  authentication,
+  bearerChallenge,
+  bearerToken,
+  getRequestPrincipal,
+  type Authenticator,
+  type Principal,
+} from '../../src/auth.js';
+
+const principal = (subject: string): Principal => ({
+  type: 'jwt',
+  subject,
+  scopes: [],
+  roles: [],
+  claims: { sub: subject },
+});
+
+describe('bearerToken', () => {
+  test('should extract the token from a Bearer header', () => {
+    expect(bearerToken('Bearer abc.def')).toBe('abc.def');
+    expect(bearerToken('bearer   abc ')).toBe('abc');
+  });
+
+  test('should ignore missing, empty and other schemes', () => {
+    expect(bearerToken(null)).toBeUndefined();
+    expect(bearerToken('Bearer ')).toBeUndefined();
+    expect(bearerToken('Basic dXNlcjpwYXNz')).toBeUndefined();
+  });
+});
+
+describe('bearerChallenge', () => {
+  test('should describe the error when there is one', () => {
+    expect(bearerChallenge()).toBe('Bearer realm="api"');
+    expect(bearerChallenge({ code: 'invalid_token', description: 'The token has expired' })).toBe(
+      'Bearer realm="api", error="invalid_token", error_description="The token has expired"'
+    );
+  });
+});
+
+describe('authentication', () => {
+  test('should use the first authenticator that recognises the request', async () => {
+    const calls: string[] = [];
+    const authenticator = (name: string, result?: Principal): Authenticator => ({
+      scheme: { name, definition: { type: 'http', scheme: 'bearer' } },
+      authenticate: async () => {
+        calls.push(name);
+        return result;
+      },
+    });
+    const app = new Elysia()
+      .use(
+        authentication([
+          authenticator('none'),
+          authenticator('first', principal('a')),
+          authenticator('second', principal('b')),
+        ])
+      )
+      .get('/', ({ principal, request }) => ({
+        subject: principal?.subject,
+        stored: getRequestPrincipal(request)?.subject,
+      }));
+
+    const response = await app.handle(new Request('http://localhost/'));
+
+    expect(await response.json()).toEqual({ subject: 'a', stored: 'a' });
+    expect(calls).toEqual(['none', 'first']);
+  });
+
+  test('should document every scheme on authenticated routes', () => {
+    const app = new Elysia()
+      .use(
+        authentication([
+          {
+            scheme: { name: 'bearerAuth', definition: { type: 'http', scheme: 'bearer' } },
+            authenticate: async () => undefined,
+          },
+          {
+            scheme: {
+              name: 'apiKey',
+              definition: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+            },
+            authenticate: async () => undefined,
+          },
+        ])
+      )
+      .get('/private', () => 'ok', { authenticated: true });
+
+    expect(app.routes[0]?.hooks.detail).toEqual({ security: [{ bearerAuth: [] }, { apiKey: [] }] });
+  });
+});
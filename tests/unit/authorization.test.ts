@@ -0,0 +1,80 @@
+/**
+ * Unit tests for authorization policies
+ */
+
+import { describe, test, expect } from 'bun:test';
+import type { Principal } from '../../src/auth.js';
+import {
+  anyOf,
+  deniedBy,
+  requireOwnership,
+  requireRole,
+  requireScopes,
+  type PolicyContext,
+} from '../../src/authorization.js';
+
+const context = (
+  principal: Partial<Principal> = {},
+  params: Record<string, unknown> = {}
+): PolicyContext => ({
+  principal: { type: 'jwt', subject: 'user-1', scopes: [], roles: [], claims: {}, ...principal },
+  request: new Request('http://localhost/'),
+  params,
+});
+
+describe('requireScopes', () => {
+  test('should require every scope', async () => {
+    const policy = requireScopes('items:read', 'items:write');
+
+    expect(policy.description).toBe('scopes items:read, items:write');
+    expect(await policy.allows(context({ scopes: ['items:read', 'items:write', 'x'] }))).toBe(true);
+    expect(await policy.allows(context({ scopes: ['items:read'] }))).toBe(false);
+    expect(requireScopes('items:read').description).toBe('scope items:read');
+  });
+});
+
+describe('requireRole', () => {
+  test('should require any one of the roles', async () => {
+    const policy = requireRole('admin', 'support');
+
+    expect(policy.description).toBe('role admin or support');
+    expect(await policy.allows(context({ roles: ['support'] }))).toBe(true);
+    expect(await policy.allows(context({ roles: ['viewer'] }))).toBe(false);
+  });
+});
+
+describe('requireOwnership', () => {
+  test('should compare the resolved owner with the subject', async () => {
+    const owners = new Map([['1', 'user-1']]);
+    const policy = requireOwnership(({ params }) => owners.get(String(params.id)), 'the order');
+
+    expect(policy.description).toBe('ownership of the order');
+    expect(await policy.allows(context({}, { id: '1' }))).toBe(true);
+    expect(await policy.allows(context({ subject: 'user-2' }, { id: '1' }))).toBe(false);
+    expect(await policy.allows(context({}, { id: 'missing' }))).toBe(false);
+  });
+});
+
+describe('anyOf', () => {
+  test('should allow when one policy allows', async () => {
+    const policy = anyOf(requireRole('admin'), requireScopes('items:write'));
+
+    expect(policy.description).toBe('role admin or scope items:write');
+    expect(await policy.allows(context({ scopes: ['items:write'] }))).toBe(true);
+    expect(await policy.allows(context({ roles: ['admin'] }))).toBe(true);
+    expect(await policy.allows(context())).toBe(false);
+  });
+});
+
+describe('deniedBy', () => {
+  test('should return the first policy that denies', async () => {
+    const scopes = requireScopes('items:read');
+    const role = requireRole('admin');
+
+    expect(await deniedBy([scopes, role], context({ scopes: ['items:read'] }))).toBe(role);
+    expect(await deniedBy([scopes, role], context())).toBe(scopes);
+    expect(
+      await deniedBy([scopes, role], context({ scopes: ['items:read'], roles: ['admin'] }))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for caller location capture
+ * Includes a benchmark against the previous per-call stack string parsing
+ */
+
+import { describe, test, expect } from 'bun:test';
+import pino from 'pino';
+import {
+  captureStack,
+  findLogCaller,
+  formatLocation,
+  parseFileName,
+  parseStackLine,
+  selectCallerFrame,
+  type CallSite,
+} from '../../src/caller.js';
+import { loadConfig } from '../../src/config.js';
+import { createLoggerConfig } from '../../src/logger.js';
+
+const site = (file: string, line: number, column = 1): CallSite => ({
+  getFileName: () => file,
+  getLineNumber: () => line,
+  getColumnNumber: () => column,
+});
+
+describe('parseFileName', () => {
+  test('should extract filename from full path', () => {
+    expect(parseFileName('/path/to/file.ts')).toBe('file.ts');
+    expect(parseFileName('/another/deeply/nested/path/script.js')).toBe('script.js');
+    expect(parseFileName('simple.ts')).toBe('simple.ts');
+  });
+
+  test('should handle edge cases', () => {
+    expect(parseFileName('')).toBe('unknown');
+    expect(parseFileName(undefined)).toBe('unknown');
+    expect(parseFileName(null as unknown as string)).toBe('unknown');
+    expect(parseFileName('/path/with/trailing/')).toBe('unknown');
+  });
+
+  test('should handle paths with no separators', () => {
+    expect(parseFileName('filename.ts')).toBe('filename.ts');
+    expect(parseFileName('no-extension')).toBe('no-extension');
+  });
+});
+
+describe('parseStackLine', () => {
+  test('should parse named and anonymous frames', () => {
+    expect(parseStackLine('    at handler (/app/src/routes.ts:12:5)')).toEqual({
+      file: '/app/src/routes.ts',
+      line: 12,
+      column: 5,
+    });
+    expect(parseStackLine('    at /app/src/index.ts:29:3')).toEqual({
+      file: '/app/src/index.ts',
+      line: 29,
+      column: 3,
+    });
+  });
+
+  test('should return null for lines without a position', () => {
+    expect(parseStackLine('Error')).toBeNull();
+    expect(parseStackLine('    at <anonymous>')).toBeNull();
+  });
+});
+
+describe('selectCallerFrame', () => {
+  test('should pick the frame below the outermost pino frame', () => {
+    const frame = selectCallerFrame([
+      site('/app/src/logger.ts', 60),
+      site('/app/node_modules/pino/lib/proto.js', 200),
+      site('/app/node_modules/pino/lib/tools.js', 60),
+      // A logMethod hook sits between pino's frames
+      site('/app/src/redaction.ts', 187),
+      site('/app/node_modules/pino/lib/tools.js', 40),
+      site('/app/src/routes.ts', 12),
+      site('/app/node_modules/elysia/dist/index.mjs', 900),
+    ]);
+    expect(frame).toEqual({ file: '/app/src/routes.ts', line: 12, column: 1 });
+  });
+
+  test('should pick the first application frame when pino is not on the stack', () => {
+    const frame = selectCallerFrame([
+      site('/app/node_modules/elysia/dist/index.mjs', 10),
+      site('/app/src/routes.ts', 12),
+      site('/app/src/app.ts', 40),
+    ]);
+    expect(frame?.file).toBe('/app/src/routes.ts');
+  });
+
+  test('should recognise pino installed in the global package cache', () => {
+    const frame = selectCallerFrame([
+      site('/root/.bun/install/cache/pino@9.7.0@@@1/lib/proto.js', 200),
+      site('/app/src/routes.ts', 12),
+    ]);
+    expect(frame?.file).toBe('/app/src/routes.ts');
+  });
+
+  test('should skip native frames below pino', () => {
+    const frame = selectCallerFrame([
+      site('/app/node_modules/pino/lib/proto.js', 200),
+      site('[unknown]', 1),
+      site('[native code]', 1),
+      site('/app/src/routes.ts', 12),
+    ]);
+    expect(frame?.file).toBe('/app/src/routes.ts');
+    expect(selectCallerFrame([site('[native code]', 1), site('/app/src/app.ts', 40)])?.file).toBe(
+      '/app/src/app.ts'
+    );
+  });
+
+  test('should work on stack string lines', () => {
+    const frame = selectCallerFrame([
+      'Error',
+      '    at write (/app/node_modules/pino/lib/proto.js:200:10)',
+      '    at /app/src/routes.ts:12:5',
+    ]);
+    expect(frame).toEqual({ file: '/app/src/routes.ts', line: 12, column: 5 });
+  });
+
+  test('should return undefined when no frame qualifies', () => {
+    expect(selectCallerFrame([])).toBeUndefined();
+    expect(selectCallerFrame([site('/app/node_modules/pino/pino.js', 1)])).toBeUndefined();
+  });
+});
+
+describe('formatLocation', () => {
+  test('should format file name and line', () => {
+    expect(formatLocation({ file: '/app/src/routes.ts', line: 12, column: 5 })).toBe(
+      'routes.ts:12'
+    );
+  });
+});
+
+describe('captureStack', () => {
+  test('should capture structured call sites without the skipped frames', () => {
+    // Using the result keeps these from becoming tail calls, which drop the frame
+    function capture(skipFrames: number) {
+      const stack = captureStack(skipFrames);
+      return stack ?? [];
+    }
+    const [own] = capture(0) as CallSite[];
+    const [caller] = capture(1) as CallSite[];
+
+    expect(typeof own).toBe('object');
+    expect(own?.getFileName()).toContain('caller.test.ts');
+    expect(own?.getLineNumber()).not.toBe(caller?.getLineNumber());
+    expect(caller?.getFileName()).toContain('caller.test.ts');
+  });
+
+  test('should restore the stack trace settings', () => {
+    const { prepareStackTrace, stackTraceLimit } = Error;
+    captureStack();
+    expect(Error.prepareStackTrace).toBe(prepareStackTrace);
+    expect(Error.stackTraceLimit).toBe(stackTraceLimit);
+  });
+});
+
+describe('findLogCaller', () => {
+  // Stands in for the pino method; `??` keeps the call out of tail position, which
+  // would take this frame off the stack
+  function write(): ReturnType<typeof findLogCaller> {
+    return findLogCaller(write) ?? undefined;
+  }
+  const notCalled = () => undefined;
+
+  test('should return the frame that called the log method', () => {
+    const [frame, here] = [write(), captureStack()?.[0] as CallSite | undefined];
+
+    expect(frame?.file).toContain('caller.test.ts');
+    expect(frame?.line).toBe(here?.getLineNumber() ?? -1);
+  });
+
+  test('should look past native frames below the log method', () => {
+    const [frame] = [1].map(() => write());
+
+    expect(frame?.file).toContain('caller.test.ts');
+  });
+
+  test('should return undefined when the log method is not on the stack', () => {
+    expect(findLogCaller(notCalled)).toBeUndefined();
+  });
+});
+
+describe('Caller location benchmark', () => {
+  // The previous implementation: a full stack string parsed on every call
+  function legacyCallerInfo(): string | undefined {
+    const stack = new Error().stack;
+    if (!stack) return undefined;
+    const lines = stack.split('\n');
+    for (let i = 3; i < lines.length; i++) {
+      const line = lines.at(i);
+      if (line && !line.includes('node_modules') && !line.includes('pino')) {
+        const match = line.match(/\((.+):(\d+):(\d+)\)$/) || line.match(/at (.+):(\d+):(\d+)$/);
+        if (match) return `${parseFileName(match[1])}:${match[2]}`;
+      }
+    }
+    return undefined;
+  }
+
+  const createBenchLogger = (env: Record<string, string>, mixin?: pino.MixinFn) => {
+    const config = createLoggerConfig(
+      loadConfig({
+        env: { NODE_ENV: 'production', LOG_REDACT_PATTERNS: 'false', ...env },
+        envFiles: false,
+      })
+    );
+    return pino(mixin ? { ...config, mixin } : config, { write: () => undefined });
+  };
+
+  // Best of several runs, so GC pauses and other test files running do not skew the ratios
+  const measure = (log: pino.Logger, iterations = 10_000, runs = 3) => {
+    for (let i = 0; i < 1_000; i++) log.info('warm up');
+    let best = Infinity;
+    for (let run = 0; run < runs; run++) {
+      const start = performance.now();
+      for (let i = 0; i < iterations; i++) log.info({ i }, 'benchmark');
+      best = Math.min(best, performance.now() - start);
+    }
+    return best;
+  };
+
+  test('should log with less overhead than per-call stack string parsing', () => {
+    const legacy = measure(createBenchLogger({}, () => ({ caller: legacyCallerInfo() })));
+    const current = measure(createBenchLogger({}));
+    const gated = measure(createBenchLogger({ LOG_LOCATION_LEVEL: 'warn' }));
+
+    // Compared as ratios, so a failure reports how far off the timings were
+    // Lines below the location level skip stack capture entirely
+    expect(gated / legacy).toBeLessThan(1 / 3);
+    // Capture starts below the pino method, where one frame is usually the caller
+    expect(current / legacy).toBeLessThan(0.75);
+  }, 30_000);
+});
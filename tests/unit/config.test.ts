@@ -0,0 +1,309 @@
+/**
+ * Unit tests for the configuration module
+ * Covers schema validation, source precedence and .env.example generation
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadConfig,
+  parseConfigValues,
+  parseEnvFile,
+  parseConfigFile,
+  renderEnvExample,
+  defaultEnvFiles,
+  ConfigValidationError,
+  type ConfigSchema,
+} from '../../src/config.js';
+
+describe('Config', () => {
+  describe('parseConfigValues', () => {
+    const schema = {
+      NAME: { type: 'string', required: true, description: 'Name', group: 'Test' },
+      COUNT: { type: 'integer', min: 1, max: 10, default: 5, description: 'Count', group: 'Test' },
+      RATIO: { type: 'number', min: 0, max: 1, default: 1, description: 'Ratio', group: 'Test' },
+      ENABLED: { type: 'boolean', default: false, description: 'Flag', group: 'Test' },
+      MODE: { type: 'enum', values: ['a', 'b'], default: 'a', description: 'Mode', group: 'Test' },
+      ENDPOINT: { type: 'url', description: 'Endpoint', group: 'Test' },
+      ALIASED: {
+        type: 'string',
+        default: 'fallback',
+        aliases: ['LEGACY_ALIASED'],
+        description: 'Aliased',
+        group: 'Test',
+      },
+    } as const satisfies ConfigSchema;
+
+    test('should apply defaults and parse typed values', () => {
+      const values = parseConfigValues(schema, {
+        NAME: 'svc',
+        COUNT: '7',
+        RATIO: '0.25',
+        ENABLED: 'YES',
+        MODE: 'b',
+      });
+
+      expect(values).toEqual({
+        NAME: 'svc',
+        COUNT: 7,
+        RATIO: 0.25,
+        ENABLED: true,
+        MODE: 'b',
+        ENDPOINT: undefined,
+        ALIASED: 'fallback',
+      });
+    });
+
+    test('should read aliases and treat empty strings as unset', () => {
+      expect(parseConfigValues(schema, { NAME: 'x', LEGACY_ALIASED: 'legacy' }).ALIASED).toBe(
+        'legacy'
+      );
+      expect(parseConfigValues(schema, { NAME: 'x', ALIASED: '' }).ALIASED).toBe('fallback');
+    });
+
+    test('should report every invalid and missing key at once', () => {
+      try {
+        parseConfigValues(schema, {
+          COUNT: '42',
+          RATIO: 'lots',
+          ENABLED: 'maybe',
+          MODE: 'c',
+          ENDPOINT: 'not a url',
+        });
+        throw new Error('expected validation to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        const issues = (error as ConfigValidationError).issues.map((issue) => issue.key);
+        expect(issues).toEqual(['NAME', 'COUNT', 'RATIO', 'ENABLED', 'MODE', 'ENDPOINT']);
+        expect((error as Error).message).toContain('Invalid configuration (6 issues)');
+        expect((error as Error).message).toContain('NAME: missing required value');
+        expect((error as Error).message).toContain('MODE: expected one of a, b, received "c"');
+      }
+    });
+    test('should parse percent-encoded key=value maps', () => {
+      const mapSchema = {
+        ATTRS: { type: 'map', description: 'Attributes', group: 'Test' },
+      } as const satisfies ConfigSchema;
+
+      expect(
+        parseConfigValues(mapSchema, { ATTRS: 'team=platform, auth=Bearer%20abc,,' }).ATTRS
+      ).toEqual({ team: 'platform', auth: 'Bearer abc' });
+      expect(() => parseConfigValues(mapSchema, { ATTRS: 'team' })).toThrow(
+        'ATTRS: expected comma-separated key=value pairs'
+      );
+      expect(() => parseConfigValues(mapSchema, { ATTRS: 'team=%E0%A4%A' })).toThrow(
+        'invalid percent-encoding'
+      );
+    });
+  });
+
+  describe('parseEnvFile', () => {
+    test('should parse assignments, quotes, exports and comments', () => {
+      const parsed = parseEnvFile(
+        [
+          '# comment',
+          '',
+          'PLAIN=value',
+          'export EXPORTED=yes',
+          'DOUBLE="hello world"',
+          "SINGLE='keep # hash'",
+          'INLINE=value # trailing comment',
+          'EMPTY=',
+          'invalid line',
+        ].join('\n')
+      );
+
+      expect(parsed).toEqual({
+        PLAIN: 'value',
+        EXPORTED: 'yes',
+        DOUBLE: 'hello world',
+        SINGLE: 'keep # hash',
+        INLINE: 'value',
+        EMPTY: '',
+      });
+    });
+  });
+
+  describe('parseConfigFile', () => {
+    test('should parse JSON and TOML into string values', () => {
+      expect(parseConfigFile('{"PORT": 8080, "LOG_INCLUDE_LOCATION": false}', 'json')).toEqual({
+        PORT: '8080',
+        LOG_INCLUDE_LOCATION: 'false',
+      });
+      expect(parseConfigFile('PORT = 8081\nLOG_LEVEL = "warn"', 'toml')).toEqual({
+        PORT: '8081',
+        LOG_LEVEL: 'warn',
+      });
+    });
+
+    test('should reject non-object documents', () => {
+      expect(() => parseConfigFile('[1, 2]', 'json')).toThrow('top-level object');
+    });
+  });
+
+  describe('loadConfig', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'config-test-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should layer config file < .env files < environment', async () => {
+      await Bun.write(
+        join(dir, 'app.toml'),
+        'PORT = 4000\nLOG_LEVEL = "warn"\nNODE_ENV = "staging"'
+      );
+      await Bun.write(join(dir, '.env'), 'LOG_LEVEL=debug\nOTEL_SERVICE_NAME=from-dotenv');
+      await Bun.write(join(dir, '.env.production'), 'OTEL_SERVICE_NAME=from-production-dotenv');
+
+      const config = loadConfig({
+        cwd: dir,
+        env: { NODE_ENV: 'production', CONFIG_FILE: 'app.toml' },
+      });
+
+      expect(config.app.port).toBe(4000);
+      expect(config.app.environment).toBe('production');
+      expect(config.log.level).toBe('debug');
+      expect(config.service.name).toBe('from-production-dotenv');
+    });
+
+    test('should return a deeply frozen object', () => {
+      const config = loadConfig({ env: {}, envFiles: false });
+
+      expect(Object.isFrozen(config)).toBe(true);
+      expect(Object.isFrozen(config.app)).toBe(true);
+      expect(() => {
+        (config.app as { port: number }).port = 1;
+      }).toThrow();
+    });
+
+    test('should enable the console exporter in development', () => {
+      expect(loadConfig({ env: {}, envFiles: false }).otel.consoleExporter).toBe(true);
+      expect(
+        loadConfig({ env: { NODE_ENV: 'production' }, envFiles: false }).otel.consoleExporter
+      ).toBe(false);
+    });
+
+    test('should reject unknown levels in LOG_MODULE_LEVELS', () => {
+      expect(
+        loadConfig({ env: { LOG_MODULE_LEVELS: 'http=debug' }, envFiles: false }).log.moduleLevels
+      ).toEqual({ http: 'debug' });
+      expect(() =>
+        loadConfig({ env: { LOG_MODULE_LEVELS: 'http=loud' }, envFiles: false })
+      ).toThrow(
+        'LOG_MODULE_LEVELS: expected one of fatal, error, warn, info, debug, trace, silent for "http"'
+      );
+    });
+
+    test('should reject unsupported JWT algorithms', () => {
+      expect(
+        loadConfig({ env: { JWT_ALGORITHMS: 'ES256' }, envFiles: false }).auth.jwt.algorithms
+      ).toEqual(['ES256']);
+      expect(() => loadConfig({ env: { JWT_ALGORITHMS: 'RS256,none' }, envFiles: false })).toThrow(
+        'JWT_ALGORITHMS: expected one of RS256, ES256, HS256, received "none"'
+      );
+    });
+
+    test('should reject API key prefixes that cannot be recognised in keys', () => {
+      expect(() => loadConfig({ env: { API_KEY_PREFIX: 'Live_Key' }, envFiles: false })).toThrow(
+        'API_KEY_PREFIX: expected 1-16 lowercase letters and digits, received "Live_Key"'
+      );
+    });
+
+    test('should reject CORS origins that cannot match an Origin header', () => {
+      expect(
+        loadConfig({ env: { CORS_ORIGINS: 'https://a.example.com, *' }, envFiles: false }).cors
+          .origins
+      ).toEqual(['https://a.example.com', '*']);
+      expect(() =>
+        loadConfig({
+          env: { CORS_ORIGINS: 'https://a.example.com/,*', CORS_CREDENTIALS: 'true' },
+          envFiles: false,
+        })
+      ).toThrow(
+        /CORS_ORIGINS: expected \* or an origin like https:\/\/app\.example\.com, received "https:\/\/a\.example\.com\/"\n.*CORS_CREDENTIALS: cannot be combined with CORS_ORIGINS=\*/
+      );
+    });
+
+    test('should report a missing or malformed config file', async () => {
+      expect(() => loadConfig({ cwd: dir, env: { CONFIG_FILE: 'missing.json' } })).toThrow(
+        'CONFIG_FILE: file not found: missing.json'
+      );
+
+      await Bun.write(join(dir, 'broken.json'), '{ not json');
+      expect(() => loadConfig({ cwd: dir, env: { CONFIG_FILE: 'broken.json' } })).toThrow(
+        ConfigValidationError
+      );
+    });
+
+    test('should reject invalid environment values', () => {
+      expect(() =>
+        loadConfig({ env: { PORT: '70000', LOG_LEVEL: 'loud' }, envFiles: false })
+      ).toThrow(/PORT: .*\n.*LOG_LEVEL: /);
+    });
+
+    test('should report schema and cross-key issues together', () => {
+      let error: unknown;
+      try {
+        loadConfig({
+          env: {
+            PORT: '70000',
+            LOG_MODULE_LEVELS: 'http=loud',
+            JWT_ALGORITHMS: 'none',
+            API_KEY_PREFIX: 'Live_Key',
+            CORS_ORIGINS: 'https://a.example.com/',
+          },
+          envFiles: false,
+        });
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect((error as ConfigValidationError).issues.map((issue) => issue.key)).toEqual([
+        'PORT',
+        'LOG_MODULE_LEVELS',
+        'JWT_ALGORITHMS',
+        'API_KEY_PREFIX',
+        'CORS_ORIGINS',
+      ]);
+      expect((error as Error).message).toStartWith('Invalid configuration (5 issues):');
+    });
+  });
+
+  describe('defaultEnvFiles', () => {
+    test('should cascade from generic to environment-specific local files', () => {
+      expect(defaultEnvFiles('test')).toEqual([
+        '.env',
+        '.env.test',
+        '.env.local',
+        '.env.test.local',
+      ]);
+    });
+  });
+
+  describe('renderEnvExample', () => {
+    test('should match the checked-in .env.example', async () => {
+      const checkedIn = await Bun.file(join(import.meta.dir, '../../.env.example')).text();
+      // Run `bun run config:env-example` when this fails after a schema change
+      expect(checkedIn).toBe(renderEnvExample());
+    });
+
+    test('should comment out keys without defaults', () => {
+      const rendered = renderEnvExample({
+        OPTIONAL: { type: 'string', description: 'Optional', group: 'G', example: 'x' },
+        REQUIRED: { type: 'string', required: true, description: 'Required', group: 'G' },
+      });
+
+      expect(rendered).toContain('# G Configuration');
+      expect(rendered).toContain('# OPTIONAL=x');
+      expect(rendered).toContain('# Required; required\nREQUIRED=');
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Unit tests for API contract diffing
+ */
+
+import { describe, test, expect } from 'bun:test';
+import type { OpenAPIV3_1 } from 'openapi-types';
+import {
+  diffContracts,
+  formatContractChanges,
+  renderContractSnapshot,
+} from '../../src/contract-diff.js';
+
+const itemSchema = (): OpenAPIV3_1.SchemaObject => ({
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'archived'] },
+    count: { type: 'integer', minimum: 0 },
+    note: { type: 'string' },
+  },
+  required: ['id', 'status', 'count'],
+});
+
+const bodySchema = (): OpenAPIV3_1.SchemaObject => ({
+  type: 'object',
+  properties: { name: { type: 'string', maxLength: 100 }, tag: { type: 'string' } },
+  required: ['name'],
+});
+
+const document = (
+  edit: (paths: {
+    item: OpenAPIV3_1.OperationObject;
+    create: OpenAPIV3_1.OperationObject;
+  }) => void = () => undefined
+): OpenAPIV3_1.Document => {
+  const item: OpenAPIV3_1.OperationObject = {
+    parameters: [
+      { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'expand', in: 'query', required: false, schema: { type: 'boolean' } },
+    ] as OpenAPIV3_1.ParameterObject[],
+    responses: {
+      200: { description: 'OK', content: { 'application/json': { schema: itemSchema() } } },
+      default: { $ref: '#/components/responses/Problem' },
+    },
+  };
+  const create: OpenAPIV3_1.OperationObject = {
+    requestBody: { required: true, content: { 'application/json': { schema: bodySchema() } } },
+    responses: {
+      201: { description: 'Created', content: { 'application/json': { schema: itemSchema() } } },
+    },
+  };
+  edit({ item, create });
+  return {
+    openapi: '3.1.0',
+    info: { title: 'test', version: '1.0.0' },
+    paths: { '/items/{id}': { get: item }, '/items': { post: create } },
+    components: {
+      responses: {
+        Problem: {
+          description: 'Error',
+          content: { 'application/problem+json': { schema: { type: 'object' } } },
+        },
+      },
+    },
+  };
+};
+
+const responseSchema = (operation: OpenAPIV3_1.OperationObject, status: string) =>
+  new Map(Object.entries(operation.responses ?? {})).get(status) as OpenAPIV3_1.ResponseObject;
+
+const properties = (operation: OpenAPIV3_1.OperationObject, status: string) =>
+  responseSchema(operation, status).content?.['application/json']?.schema?.properties as Record<
+    string,
+    OpenAPIV3_1.SchemaObject
+  >;
+
+const requestBody = (operation: OpenAPIV3_1.OperationObject) =>
+  (operation.requestBody as OpenAPIV3_1.RequestBodyObject).content['application/json']
+    ?.schema as OpenAPIV3_1.SchemaObject;
+
+const classify = (edit: Parameters<typeof document>[0]) =>
+  diffContracts(document(), document(edit)).map(
+    ({ severity, operation, location, message }) =>
+      `${severity}: ${operation} ${location}: ${message}`
+  );
+
+describe('diffContracts', () => {
+  test('should find no changes between identical documents', () => {
+    expect(diffContracts(document(), document())).toEqual([]);
+  });
+
+  test('should classify removed and added operations', () => {
+    const current = document();
+    current.paths = { '/items': current.paths?.['/items'], '/other': { get: { responses: {} } } };
+
+    expect(formatContractChanges(diffContracts(document(), current)).split('\n')).toEqual([
+      'BREAKING  GET /items/{id}  operation: operation removed',
+      'non-breaking  GET /other  operation: operation added',
+    ]);
+  });
+
+  test('should treat removed response fields as breaking and new ones as not', () => {
+    expect(
+      classify(({ item }) => {
+        const fields = properties(item, '200');
+        delete fields.note;
+        fields.extra = { type: 'string' };
+      })
+    ).toEqual([
+      'breaking: GET /items/{id} response 200 body.note: property removed',
+      'non-breaking: GET /items/{id} response 200 body.extra: optional property added',
+    ]);
+  });
+
+  test('should treat widened response types as breaking and narrowed ones as not', () => {
+    expect(
+      classify(({ item }) => {
+        const fields = properties(item, '200');
+        fields.status = { type: 'string', enum: ['active', 'archived', 'deleted'] };
+        fields.id = { type: ['string', 'null'] };
+        fields.count = { type: 'integer', minimum: 1 };
+      })
+    ).toEqual([
+      'breaking: GET /items/{id} response 200 body.id: type null now allowed',
+      'breaking: GET /items/{id} response 200 body.status: enum value "deleted" added',
+      'non-breaking: GET /items/{id} response 200 body.count: minimum changed from 0 to 1',
+    ]);
+  });
+
+  test('should treat response fields becoming optional as breaking', () => {
+    expect(
+      classify(({ item }) => {
+        const schema = responseSchema(item, '200').content?.['application/json']?.schema;
+        if (schema) schema.required = ['id', 'count'];
+      })
+    ).toEqual(['breaking: GET /items/{id} response 200 body.status: property became optional']);
+  });
+
+  test('should treat narrowed request types and new required input as breaking', () => {
+    expect(
+      classify(({ create }) => {
+        const schema = requestBody(create);
+        schema.properties = {
+          ...schema.properties,
+          name: { type: 'string', maxLength: 50 },
+          owner: { type: 'string' },
+        };
+        schema.required = ['name', 'owner', 'tag'];
+      })
+    ).toEqual([
+      'breaking: POST /items request body.name: maxLength changed from 100 to 50',
+      'breaking: POST /items request body: property tag became required',
+      'breaking: POST /items request body: required property owner added',
+    ]);
+  });
+
+  test('should treat widened request types as non-breaking', () => {
+    expect(
+      classify(({ create }) => {
+        requestBody(create).properties = {
+          name: { type: 'string' },
+          tag: { type: ['string', 'number'] },
+        };
+      })
+    ).toEqual([
+      'non-breaking: POST /items request body.name: maxLength changed from 100 to none',
+      'non-breaking: POST /items request body.tag: type number now allowed',
+    ]);
+  });
+
+  test('should classify parameter changes', () => {
+    expect(
+      classify(({ item }) => {
+        item.parameters = [
+          { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+          { name: 'expand', in: 'query', required: true, schema: { type: 'boolean' } },
+          { name: 'fields', in: 'query', required: true, schema: { type: 'string' } },
+          { name: 'lang', in: 'header', required: false, schema: { type: 'string' } },
+        ] as OpenAPIV3_1.ParameterObject[];
+      })
+    ).toEqual([
+      'breaking: GET /items/{id} path parameter id: type string no longer allowed',
+      'non-breaking: GET /items/{id} path parameter id: type integer now allowed',
+      'breaking: GET /items/{id} query parameter expand: parameter became required',
+      'breaking: GET /items/{id} query parameter fields: required parameter added',
+      'non-breaking: GET /items/{id} header parameter lang: optional parameter added',
+    ]);
+  });
+
+  test('should classify response status, media type and security changes', () => {
+    expect(
+      classify(({ item, create }) => {
+        item.responses = {
+          200: {
+            description: 'OK',
+            content: { 'text/plain': { schema: { type: 'string' } } },
+          },
+          404: { $ref: '#/components/responses/Problem' },
+        };
+        create.security = [{ token: [] }];
+      })
+    ).toEqual([
+      'breaking: GET /items/{id} response 200 body: media type application/json removed',
+      'non-breaking: GET /items/{id} response 200 body: media type text/plain added',
+      'breaking: GET /items/{id} response default: response removed',
+      'non-breaking: GET /items/{id} response 404: response added',
+      'breaking: POST /items security: authentication now required',
+    ]);
+  });
+
+  test('should report deprecated operations as non-breaking', () => {
+    expect(
+      classify(({ item }) => {
+        item.deprecated = true;
+      })
+    ).toEqual(['non-breaking: GET /items/{id} operation: operation deprecated']);
+  });
+
+  test('should follow component references', () => {
+    const current = document();
+    const problem = current.components?.responses?.Problem as OpenAPIV3_1.ResponseObject;
+    problem.content = { 'application/json': { schema: { type: 'object' } } };
+
+    expect(diffContracts(document(), current).map((change) => change.message)).toEqual([
+      'media type application/problem+json removed',
+      'media type application/json added',
+    ]);
+  });
+});
+
+describe('formatContractChanges', () => {
+  test('should list breaking changes first', () => {
+    const lines = formatContractChanges([
+      { severity: 'non-breaking', operation: 'GET /a', location: 'operation', message: 'added' },
+      { severity: 'breaking', operation: 'GET /b', location: 'operation', message: 'removed' },
+    ]).split('\n');
+
+    expect(lines).toEqual([
+      'BREAKING  GET /b  operation: removed',
+      'non-breaking  GET /a  operation: added',
+    ]);
+  });
+});
+
+describe('renderContractSnapshot', () => {
+  test('should render indented JSON that parses back to the document', () => {
+    const rendered = renderContractSnapshot(document());
+
+    expect(rendered.endsWith('\n')).toBe(true);
+    expect(JSON.parse(rendered)).toEqual(document());
+  });
+});
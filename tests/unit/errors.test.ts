@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the error taxonomy and problem details mapping
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  AppError,
+  ConflictError,
+  InternalError,
+  RateLimitedError,
+  UpstreamError,
+  ValidationError,
+  toAppError,
+  toProblemDetails,
+  problemResponse,
+  PROBLEM_CONTENT_TYPE,
+} from '../../src/errors.js';
+
+const context = { instance: '/orders/1', requestId: 'req-1', traceId: 'a'.repeat(32) };
+
+describe('AppError', () => {
+  test('should carry a stable code, status and derived type URI', () => {
+    const error = new ConflictError('Order already exists');
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.name).toBe('ConflictError');
+    expect(error.code).toBe('CONFLICT');
+    expect(error.status).toBe(409);
+    expect(error.type).toBe('/problems/conflict');
+    expect(error.message).toBe('Order already exists');
+  });
+
+  test('should add Retry-After to rate limit errors', () => {
+    expect(new RateLimitedError(1.2).headers).toEqual({ 'retry-after': '2' });
+  });
+
+  test('should name the failing upstream', () => {
+    const error = new UpstreamError('payments');
+
+    expect(error.status).toBe(502);
+    expect(error.detail).toBe('Request to payments failed');
+    expect(error.extensions).toEqual({ upstream: 'payments' });
+  });
+});
+
+describe('toAppError', () => {
+  test('should pass AppErrors through unchanged', () => {
+    const error = new ValidationError('bad', []);
+    expect(toAppError(error, 'UNKNOWN', false)).toBe(error);
+  });
+
+  test('should map Elysia error codes', () => {
+    const validation = toAppError(
+      { all: [{ path: '/name', summary: 'Expected string' }] },
+      'VALIDATION',
+      false
+    );
+    expect(validation).toBeInstanceOf(ValidationError);
+    expect(validation.status).toBe(422);
+    expect(validation.extensions.errors).toEqual([{ path: '/name', message: 'Expected string' }]);
+
+    expect(toAppError(new Error('x'), 'PARSE', false)).toMatchObject({
+      status: 400,
+      code: 'BAD_REQUEST',
+    });
+    expect(toAppError(new Error('x'), 'INVALID_COOKIE_SIGNATURE', false)).toMatchObject({
+      status: 400,
+      code: 'INVALID_COOKIE_SIGNATURE',
+    });
+    expect(toAppError(new Error('x'), 'NOT_FOUND', false)).toMatchObject({ status: 404 });
+  });
+
+  test('should only expose unexpected error messages when asked to', () => {
+    const error = new Error('db password is hunter2');
+
+    expect(toAppError(error, 'UNKNOWN', false)).toBeInstanceOf(InternalError);
+    expect(toAppError(error, 'UNKNOWN', false).detail).toBe('Something went wrong');
+    expect(toAppError(error, 'UNKNOWN', true).detail).toBe('db password is hunter2');
+  });
+});
+
+describe('problem details', () => {
+  test('should include RFC 9457 members plus request and trace IDs', () => {
+    const body = toProblemDetails(new ValidationError('Invalid order', []), context);
+
+    expect(body).toMatchObject({
+      type: '/problems/validation-failed',
+      title: 'Validation Failed',
+      status: 422,
+      detail: 'Invalid order',
+      instance: '/orders/1',
+      code: 'VALIDATION_FAILED',
+      request_id: 'req-1',
+      trace_id: 'a'.repeat(32),
+      errors: [],
+    });
+  });
+
+  test('should omit the trace ID when there is no active trace', () => {
+    const body = toProblemDetails(new ConflictError(), { ...context, traceId: undefined });
+
+    expect(body).not.toHaveProperty('trace_id');
+    expect(body).not.toHaveProperty('detail');
+  });
+
+  test('should render a problem+json response with error headers', async () => {
+    const response = problemResponse(new RateLimitedError(30), context);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE);
+    expect(response.headers.get('retry-after')).toBe('30');
+    expect((await response.json()).code).toBe('RATE_LIMITED');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit tests for CORS and security header construction
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { corsHeaders, preflightResponse, securityHeaders } from '../../src/hardening.js';
+
+const cors = { origins: ['https://app.example.com'], credentials: true, maxAgeSeconds: 600 };
+
+describe('securityHeaders', () => {
+  const options = {
+    enabled: true,
+    hstsMaxAgeSeconds: 31536000,
+    contentSecurityPolicy: "default-src 'none'",
+    referrerPolicy: 'no-referrer',
+    frameOptions: 'DENY',
+  } as const;
+
+  test('should build every header from the options', () => {
+    expect(securityHeaders(options)).toEqual({
+      'strict-transport-security': 'max-age=31536000; includeSubDomains',
+      'content-security-policy': "default-src 'none'",
+      'x-content-type-options': 'nosniff',
+      'referrer-policy': 'no-referrer',
+      'x-frame-options': 'DENY',
+    });
+  });
+
+  test('should leave out HSTS without a max age and everything when disabled', () => {
+    expect(securityHeaders({ ...options, hstsMaxAgeSeconds: 0 })).not.toHaveProperty(
+      'strict-transport-security'
+    );
+    expect(securityHeaders({ ...options, enabled: false })).toEqual({});
+  });
+});
+
+describe('corsHeaders', () => {
+  test('should allow listed origins only', () => {
+    expect(corsHeaders(cors, 'https://app.example.com')).toEqual({
+      'access-control-allow-origin': 'https://app.example.com',
+      'access-control-allow-credentials': 'true',
+    });
+    expect(corsHeaders(cors, 'https://evil.example.com')).toBeUndefined();
+    expect(corsHeaders(cors, null)).toBeUndefined();
+  });
+
+  test('should answer any origin with * when allowed', () => {
+    expect(
+      corsHeaders({ ...cors, origins: ['*'], credentials: false }, 'https://x.example')
+    ).toEqual({ 'access-control-allow-origin': '*' });
+  });
+});
+
+describe('preflightResponse', () => {
+  const preflight = (origin: string) =>
+    new Request('http://localhost/items', {
+      method: 'OPTIONS',
+      headers: {
+        origin,
+        'access-control-request-method': 'POST',
+        'access-control-request-headers': 'content-type, x-api-key',
+      },
+    });
+
+  test('should allow the requested headers and cache the answer', () => {
+    const response = preflightResponse(cors, preflight('https://app.example.com'));
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-methods')).toContain('POST');
+    expect(response.headers.get('access-control-allow-headers')).toBe('content-type, x-api-key');
+    expect(response.headers.get('access-control-max-age')).toBe('600');
+  });
+
+  test('should not allow other origins', () => {
+    const response = preflightResponse(cors, preflight('https://evil.example.com'));
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
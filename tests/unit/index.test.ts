@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
 import { app } from '../../src/app.js';
+import { getLifecycle } from '../../src/lifecycle.js';
 
 describe('Main Application Functions', () => {
   let originalEnv: typeof process.env;
@@ -39,6 +40,7 @@ describe('Main Application Functions', () => {
     });
 
     it('should handle readiness endpoint', async () => {
+      getLifecycle().markReady();
       const response = await app
         .handle(new Request('http://localhost/ready'))
         .then((res) => res.json());
@@ -55,7 +57,8 @@ describe('Main Application Functions', () => {
 
       expect(response).toMatchObject({
         message: 'Welcome to the TypeScript Backend Template',
-        documentation: '/health for health checks, /ready for readiness checks',
+        documentation: '/docs',
+        openapi: '/openapi.json',
       });
       expect(response.timestamp).toBeDefined();
     });
@@ -68,8 +71,11 @@ describe('Main Application Functions', () => {
 
       expect(response.status).toBe(404);
       expect(data).toMatchObject({
-        error: 'Not Found',
-        message: 'The requested endpoint does not exist',
+        type: '/problems/not-found',
+        title: 'Not Found',
+        status: 404,
+        detail: 'The requested endpoint does not exist',
+        code: 'NOT_FOUND',
       });
       expect(data.timestamp).toBeDefined();
     });
@@ -0,0 +1,275 @@
+/**
+ * Unit tests for JWT verification
+ *
+ * Tokens are signed with keys generated per run; the remote JWKS is served by
+ * a local Bun server so key rotation can be exercised.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  exportJWK,
+  exportSPKI,
+  generateKeyPair,
+  type GenerateKeyPairResult,
+  SignJWT,
+  type CryptoKey,
+  type JWK,
+  type JWTPayload,
+} from 'jose';
+import { UnauthorizedError, UpstreamError } from '../../src/errors.js';
+import {
+  isJwtConfigured,
+  jwtAuthenticator,
+  JwtVerifier,
+  loadKeyFile,
+  principalFromClaims,
+  type JwtVerifierOptions,
+} from '../../src/jwt.js';
+
+const SECRET = 'a-test-secret-that-is-at-least-32-bytes-long';
+
+const options = (overrides: Partial<JwtVerifierOptions> = {}): JwtVerifierOptions => ({
+  jwksUrl: undefined,
+  jwksCacheTtlMs: 600_000,
+  jwksCooldownMs: 30_000,
+  keyFiles: [],
+  secret: undefined,
+  issuer: undefined,
+  audience: [],
+  algorithms: ['RS256', 'ES256', 'HS256'],
+  clockSkewSeconds: 30,
+  ...overrides,
+});
+
+const sign = (
+  key: CryptoKey | Uint8Array,
+  alg: string,
+  claims: JWTPayload = {},
+  { kid, expiresIn = '5m' }: { kid?: string; expiresIn?: string | number } = {}
+) =>
+  new SignJWT({ sub: 'user-1', ...claims })
+    .setProtectedHeader({ alg, ...(kid && { kid }) })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(key);
+
+const hmac = (claims?: JWTPayload, expiresIn?: string | number) =>
+  sign(Buffer.from(SECRET), 'HS256', claims, {
+    ...(expiresIn !== undefined && { expiresIn }),
+  });
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the promise to reject');
+};
+
+describe('JwtVerifier', () => {
+  let dir: string;
+  let rsa: GenerateKeyPairResult;
+  let ec: GenerateKeyPairResult;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'jwt-test-'));
+    rsa = await generateKeyPair('RS256');
+    ec = await generateKeyPair('ES256');
+    await Bun.write(join(dir, 'rsa.pem'), await exportSPKI(rsa.publicKey));
+    await Bun.write(
+      join(dir, 'ec.json'),
+      JSON.stringify({ keys: [{ ...(await exportJWK(ec.publicKey)), kid: 'ec-1' }] })
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should verify tokens signed with local keys and secrets', async () => {
+    const verifier = new JwtVerifier(
+      options({ keyFiles: [join(dir, 'rsa.pem'), join(dir, 'ec.json')], secret: SECRET })
+    );
+
+    for (const token of [
+      await sign(rsa.privateKey, 'RS256'),
+      await sign(ec.privateKey, 'ES256', {}, { kid: 'ec-1' }),
+      await hmac(),
+    ]) {
+      expect((await verifier.verify(token)).subject).toBe('user-1');
+    }
+  });
+
+  test('should reject tokens signed with unknown keys or disallowed algorithms', async () => {
+    const other = await generateKeyPair('RS256');
+    const verifier = new JwtVerifier(
+      options({ keyFiles: [join(dir, 'rsa.pem')], secret: SECRET, algorithms: ['RS256'] })
+    );
+
+    for (const token of [await sign(other.privateKey, 'RS256'), await hmac()]) {
+      const error = await rejection(verifier.verify(token));
+      expect(error).toBeInstanceOf(UnauthorizedError);
+      expect((error as UnauthorizedError).detail).toBe('The token is invalid');
+    }
+  });
+
+  test('should reject expired tokens beyond the clock skew', async () => {
+    const verifier = new JwtVerifier(options({ secret: SECRET, clockSkewSeconds: 30 }));
+    const now = Math.floor(Date.now() / 1000);
+
+    expect((await verifier.verify(await hmac({}, now - 10))).subject).toBe('user-1');
+
+    const error = (await rejection(verifier.verify(await hmac({}, now - 60)))) as UnauthorizedError;
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error.detail).toBe('The token has expired');
+    expect(error.headers['www-authenticate']).toBe(
+      'Bearer realm="api", error="invalid_token", error_description="The token has expired"'
+    );
+  });
+
+  test('should check issuer, audience and subject', async () => {
+    const verifier = new JwtVerifier(
+      options({ secret: SECRET, issuer: 'https://issuer.test', audience: ['api', 'admin'] })
+    );
+    const valid = { iss: 'https://issuer.test', aud: 'admin' };
+
+    expect((await verifier.verify(await hmac(valid))).subject).toBe('user-1');
+
+    const cases: [JWTPayload, string][] = [
+      [{ ...valid, iss: 'https://other.test' }, 'The token "iss" claim is invalid'],
+      [{ ...valid, aud: 'other' }, 'The token "aud" claim is invalid'],
+      [{ ...valid, sub: undefined }, 'The token "sub" claim is missing'],
+    ];
+    for (const [claims, detail] of cases) {
+      const error = await rejection(verifier.verify(await hmac(claims)));
+      expect((error as UnauthorizedError).detail).toBe(detail);
+    }
+  });
+
+  describe('remote JWKS', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let keys: JWK[] = [];
+    let fetches = 0;
+
+    beforeAll(() => {
+      server = Bun.serve({
+        port: 0,
+        fetch: () => {
+          fetches++;
+          return Response.json({ keys });
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await server.stop(true);
+    });
+
+    test('should cache keys and refetch them when a new key ID appears', async () => {
+      const next = await generateKeyPair('ES256');
+      keys = [{ ...(await exportJWK(ec.publicKey)), kid: 'k1', alg: 'ES256' }];
+      fetches = 0;
+      const verifier = new JwtVerifier(
+        options({ jwksUrl: new URL('/jwks', server.url).href, jwksCooldownMs: 0 })
+      );
+
+      await verifier.verify(await sign(ec.privateKey, 'ES256', {}, { kid: 'k1' }));
+      await verifier.verify(await sign(ec.privateKey, 'ES256', {}, { kid: 'k1' }));
+      expect(fetches).toBe(1);
+
+      // The issuer rotates to a new signing key
+      keys = [...keys, { ...(await exportJWK(next.publicKey)), kid: 'k2', alg: 'ES256' }];
+      const principal = await verifier.verify(
+        await sign(next.privateKey, 'ES256', {}, { kid: 'k2' })
+      );
+      expect(principal.subject).toBe('user-1');
+      expect(fetches).toBe(2);
+    });
+
+    test('should prefer local keys over the JWKS endpoint', async () => {
+      fetches = 0;
+      const verifier = new JwtVerifier(
+        options({ jwksUrl: new URL('/jwks', server.url).href, secret: SECRET })
+      );
+
+      await verifier.verify(await hmac());
+      expect(fetches).toBe(0);
+    });
+  });
+
+  test('should report an unreachable JWKS endpoint as an upstream failure', async () => {
+    const closed = Bun.serve({ port: 0, fetch: () => new Response() });
+    const url = new URL('/jwks', closed.url).href;
+    await closed.stop(true);
+    const verifier = new JwtVerifier(options({ jwksUrl: url }));
+
+    const error = await rejection(verifier.verify(await sign(rsa.privateKey, 'RS256')));
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect((error as UpstreamError).status).toBe(502);
+  });
+
+  describe('loadKeyFile', () => {
+    test('should derive the algorithm from PEM public keys', () => {
+      expect(loadKeyFile(join(dir, 'rsa.pem'))).toEqual([
+        expect.objectContaining({ kty: 'RSA', alg: 'RS256', use: 'sig' }),
+      ]);
+    });
+
+    test('should name the file when it cannot be used', async () => {
+      const p384 = await generateKeyPair('ES384');
+      await Bun.write(join(dir, 'p384.pem'), await exportSPKI(p384.publicKey));
+      await Bun.write(join(dir, 'empty.json'), '{}');
+
+      expect(() => loadKeyFile(join(dir, 'missing.pem'))).toThrow(
+        `Could not read JWT key file ${join(dir, 'missing.pem')}`
+      );
+      expect(() => loadKeyFile(join(dir, 'empty.json'))).toThrow('is not a JWKS document');
+      expect(() => loadKeyFile(join(dir, 'p384.pem'))).toThrow('unsupported P-384 curve');
+    });
+  });
+});
+
+describe('principalFromClaims', () => {
+  test('should read scopes from scope or scp and roles from roles', () => {
+    expect(principalFromClaims({ sub: 'a', scope: 'read  write', roles: ['admin', 1] })).toEqual({
+      type: 'jwt',
+      subject: 'a',
+      scopes: ['read', 'write'],
+      roles: ['admin'],
+      claims: { sub: 'a', scope: 'read  write', roles: ['admin', 1] },
+    });
+    expect(principalFromClaims({ sub: 'a', scp: ['read'] })).toMatchObject({
+      scopes: ['read'],
+      roles: [],
+    });
+  });
+});
+
+describe('isJwtConfigured', () => {
+  test('should require a source of verification keys', () => {
+    expect(isJwtConfigured(options())).toBe(false);
+    expect(isJwtConfigured(options({ secret: SECRET }))).toBe(true);
+    expect(isJwtConfigured(options({ keyFiles: ['keys.json'] }))).toBe(true);
+    expect(isJwtConfigured(options({ jwksUrl: 'https://issuer.test/jwks' }))).toBe(true);
+  });
+});
+
+describe('jwtAuthenticator', () => {
+  const { authenticate } = jwtAuthenticator(new JwtVerifier(options({ secret: SECRET })));
+  const request = (authorization?: string) =>
+    new Request('http://localhost/', authorization ? { headers: { authorization } } : {});
+
+  test('should authenticate bearer JWTs', async () => {
+    expect((await authenticate(request(`Bearer ${await hmac()}`)))?.subject).toBe('user-1');
+  });
+
+  test('should leave requests without a bearer JWT to other checks', async () => {
+    expect(await authenticate(request())).toBeUndefined();
+    expect(await authenticate(request('Bearer opaque-admin-token'))).toBeUndefined();
+    expect(await authenticate(request('Basic dXNlcjpwYXNz'))).toBeUndefined();
+  });
+});
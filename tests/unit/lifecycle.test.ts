@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the application lifecycle state machine
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Lifecycle, type LifecycleState } from '../../src/lifecycle.js';
+
+describe('Lifecycle', () => {
+  test('should start in the starting state', () => {
+    const lifecycle = new Lifecycle();
+
+    expect(lifecycle.state).toBe('starting');
+    expect(lifecycle.isLive).toBe(true);
+    expect(lifecycle.isStarted).toBe(false);
+    expect(lifecycle.isAcceptingTraffic).toBe(false);
+  });
+
+  test('should derive probe answers from each state', () => {
+    const lifecycle = new Lifecycle();
+    const probes = () => [lifecycle.isLive, lifecycle.isStarted, lifecycle.isAcceptingTraffic];
+
+    lifecycle.markReady();
+    expect(probes()).toEqual([true, true, true]);
+    lifecycle.beginDraining();
+    expect(probes()).toEqual([true, true, false]);
+    lifecycle.markStopped();
+    expect(probes()).toEqual([false, true, false]);
+  });
+
+  test('should only move forward', () => {
+    const lifecycle = new Lifecycle();
+    lifecycle.beginDraining();
+
+    expect(() => lifecycle.markReady()).toThrow('Invalid lifecycle transition: draining → ready');
+    expect(() => lifecycle.beginDraining()).not.toThrow();
+  });
+
+  test('should notify listeners of each change', () => {
+    const lifecycle = new Lifecycle();
+    const changes: [LifecycleState, LifecycleState][] = [];
+    const unsubscribe = lifecycle.onTransition((state, previous) =>
+      changes.push([previous, state])
+    );
+
+    lifecycle.markReady();
+    lifecycle.markReady();
+    unsubscribe();
+    lifecycle.beginDraining();
+
+    expect(changes).toEqual([['starting', 'ready']]);
+  });
+});
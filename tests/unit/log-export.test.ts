@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the OpenTelemetry log export pipeline
+ * Covers severity mapping, record conversion and the pino destination
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import pino from 'pino';
+import { ROOT_CONTEXT, trace, TraceFlags } from '@opentelemetry/api';
+import { SeverityNumber } from '@opentelemetry/api-logs';
+import {
+  InMemoryLogRecordExporter,
+  LoggerProvider,
+  SimpleLogRecordProcessor,
+} from '@opentelemetry/sdk-logs';
+import { OtelLogDestination, toLogRecord, toSeverity } from '../../src/log-export.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('toSeverity', () => {
+  test('should map pino labels and numeric levels', () => {
+    expect(toSeverity('info')).toEqual({
+      severityNumber: SeverityNumber.INFO,
+      severityText: 'INFO',
+    });
+    expect(toSeverity(50)).toEqual({ severityNumber: SeverityNumber.ERROR, severityText: 'ERROR' });
+    expect(toSeverity('fatal').severityNumber).toBe(SeverityNumber.FATAL);
+  });
+
+  test('should leave unknown levels unspecified', () => {
+    expect(toSeverity('audit')).toEqual({
+      severityNumber: SeverityNumber.UNSPECIFIED,
+      severityText: 'audit',
+    });
+  });
+});
+
+describe('toLogRecord', () => {
+  test('should split a pino line into body, attributes and trace context', () => {
+    const record = toLogRecord({
+      level: 'warn',
+      time: '2024-01-01T00:00:00.000Z',
+      msg: 'Slow request',
+      pid: 1,
+      hostname: 'host',
+      service: 'svc',
+      version: '1.0.0',
+      trace_id: TRACE_ID,
+      span_id: SPAN_ID,
+      request_id: 'abc',
+      duration_ms: 1200,
+    });
+
+    expect(record).toMatchObject({
+      severityNumber: SeverityNumber.WARN,
+      severityText: 'WARN',
+      body: 'Slow request',
+      timestamp: new Date('2024-01-01T00:00:00.000Z'),
+      attributes: { request_id: 'abc', duration_ms: 1200 },
+    });
+    expect(Object.keys(record.attributes ?? {})).toEqual(['request_id', 'duration_ms']);
+    expect(record.context).toBeDefined();
+  });
+
+  test('should take the trace flags from the span the line was written in', () => {
+    const fields = { level: 'info', msg: 'hello', trace_id: TRACE_ID, span_id: SPAN_ID };
+    const sampled = trace.setSpanContext(ROOT_CONTEXT, {
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: TraceFlags.SAMPLED,
+    });
+    const flags = (active = ROOT_CONTEXT) =>
+      trace.getSpanContext(toLogRecord(fields, active).context ?? ROOT_CONTEXT)?.traceFlags;
+
+    expect(flags(sampled)).toBe(TraceFlags.SAMPLED);
+    expect(flags()).toBe(TraceFlags.NONE);
+  });
+
+  test('should omit the context when the line has no trace', () => {
+    expect(toLogRecord({ level: 'info', msg: 'hello' }).context).toBeUndefined();
+  });
+});
+
+describe('OtelLogDestination', () => {
+  const exporter = new InMemoryLogRecordExporter();
+  const provider = new LoggerProvider();
+  provider.addLogRecordProcessor(new SimpleLogRecordProcessor(exporter));
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  test('should emit pino output as correlated log records', () => {
+    const log = pino(
+      { formatters: { level: (label) => ({ level: label }) } },
+      new OtelLogDestination(provider.getLogger('test'))
+    );
+
+    log.error({ trace_id: TRACE_ID, span_id: SPAN_ID, order_id: 7 }, 'Payment failed');
+
+    const [record] = exporter.getFinishedLogRecords();
+    expect(record?.body).toBe('Payment failed');
+    expect(record?.severityNumber).toBe(SeverityNumber.ERROR);
+    expect(record?.attributes).toEqual({ order_id: 7 });
+    expect(record?.spanContext).toMatchObject({ traceId: TRACE_ID, spanId: SPAN_ID });
+  });
+
+  test('should ignore lines that are not JSON', () => {
+    new OtelLogDestination(provider.getLogger('test')).write('plain text\n');
+
+    expect(exporter.getFinishedLogRecords()).toHaveLength(0);
+  });
+});
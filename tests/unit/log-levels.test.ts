@@ -0,0 +1,129 @@
+/**
+ * Unit tests for runtime log levels
+ * Covers base levels, overrides with expiry, the debug toggle and the level snapshot
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import pino from 'pino';
+import {
+  LogLevelController,
+  handleLogLevelSignal,
+  isValidModuleName,
+} from '../../src/log-levels.js';
+
+const silentStream = { write: () => undefined };
+const moduleLogger = () => pino({ level: 'info' }, silentStream);
+
+describe('LogLevelController', () => {
+  let controller: LogLevelController;
+  let http: pino.Logger;
+  let llm: pino.Logger;
+
+  beforeEach(() => {
+    controller = new LogLevelController(
+      { level: 'info', modules: { llm: 'warn' } },
+      undefined,
+      () => Date.parse('2024-01-01T00:00:00.000Z')
+    );
+    http = moduleLogger();
+    llm = moduleLogger();
+    controller.register('http', http);
+    controller.register('llm', llm);
+  });
+
+  test('should apply the default and per-module base levels on registration', () => {
+    expect(http.level).toBe('info');
+    expect(llm.level).toBe('warn');
+  });
+
+  test('should override and reset a module level', () => {
+    expect(controller.setLevel('http', 'debug')).toEqual({
+      level: 'debug',
+      base: 'info',
+      override: { level: 'debug', expires_at: null },
+    });
+    expect(http.level).toBe('debug');
+    expect(llm.level).toBe('warn');
+
+    expect(controller.reset('http')).toBe(true);
+    expect(http.level).toBe('info');
+    expect(controller.reset('http')).toBe(false);
+  });
+
+  test('should revert time-boxed overrides on their own', async () => {
+    const state = controller.setLevel('llm', 'trace', { ttlMs: 20 });
+
+    expect(state.override?.expires_at).toBe('2024-01-01T00:00:00.020Z');
+    expect(llm.level).toBe('trace');
+
+    await Bun.sleep(50);
+    expect(llm.level).toBe('warn');
+    expect(controller.snapshot().modules.llm?.override).toBeUndefined();
+  });
+
+  test('should apply overrides to modules registered later', () => {
+    controller.setLevel('jobs', 'error');
+    const jobs = moduleLogger();
+
+    controller.register('jobs', jobs);
+
+    expect(jobs.level).toBe('error');
+  });
+
+  test('should raise every module to at least debug while toggled', () => {
+    controller.setLevel('http', 'trace');
+
+    expect(controller.toggleDebug()).toBe(true);
+    expect(http.level).toBe('trace');
+    expect(llm.level).toBe('debug');
+
+    expect(controller.toggleDebug()).toBe(false);
+    expect(llm.level).toBe('warn');
+  });
+
+  test('should end a time-boxed debug toggle on its own', async () => {
+    controller.toggleDebug({ ttlMs: 20 });
+    expect(controller.snapshot().debug_toggle.active).toBe(true);
+
+    await Bun.sleep(50);
+    expect(controller.snapshot().debug_toggle).toEqual({ active: false, expires_at: null });
+    expect(http.level).toBe('info');
+  });
+
+  test('should report the level map', () => {
+    controller.setLevel('http', 'debug');
+
+    expect(controller.snapshot()).toEqual({
+      default: 'info',
+      debug_toggle: { active: false, expires_at: null },
+      modules: {
+        http: { level: 'debug', base: 'info', override: { level: 'debug', expires_at: null } },
+        llm: { level: 'warn', base: 'warn' },
+      },
+    });
+  });
+
+  test('should reject invalid module names', () => {
+    expect(isValidModuleName('payments.stripe')).toBe(true);
+    expect(isValidModuleName('../etc')).toBe(false);
+    expect(() => controller.setLevel('a b', 'debug')).toThrow('Invalid module name "a b"');
+  });
+
+  test('should toggle debug logging on the configured signal', () => {
+    const toggles: boolean[] = [];
+    const uninstall = handleLogLevelSignal(controller, {
+      signal: 'SIGUSR2',
+      onToggle: (active) => toggles.push(active),
+    });
+
+    process.emit('SIGUSR2');
+    expect(llm.level).toBe('debug');
+    process.emit('SIGUSR2');
+    expect(llm.level).toBe('warn');
+    expect(toggles).toEqual([true, false]);
+
+    uninstall();
+    process.emit('SIGUSR2');
+    expect(llm.level).toBe('warn');
+  });
+});
@@ -7,17 +7,19 @@ import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
 import {
   logger,
   getLogger,
+  getLogLevelController,
   createChildLogger,
   logWithTrace,
   getCallerInfo,
   createLogMixin,
-  parseFileName,
   createLoggerConfig,
   createLogger,
   LoggerFactory,
 } from '../../src/logger.js';
+import { loadConfig } from '../../src/config.js';
+import { runWithContext } from '../../src/async-context.js';
 import * as otelApi from '@opentelemetry/api';
-import type pino from 'pino';
+import pino from 'pino';
 
 describe('Logger', () => {
   describe('getLogger function', () => {
@@ -32,6 +34,16 @@ describe('Logger', () => {
       const logger2 = getLogger();
       expect(logger1).toBe(logger2);
     });
+
+    test('should return cached module loggers registered for runtime levels', () => {
+      const http = getLogger('http');
+
+      expect(getLogger('http')).toBe(http);
+      expect(http).not.toBe(getLogger());
+      expect(http.bindings()).toMatchObject({ module: 'http' });
+      expect(getLogLevelController().modules).toContain('http');
+      expect(getLogger('root')).toBe(getLogger());
+    });
   });
 
   describe('logger instance', () => {
@@ -60,26 +72,6 @@ describe('Logger', () => {
     });
   });
 
-  describe('parseFileName', () => {
-    test('should extract filename from full path', () => {
-      expect(parseFileName('/path/to/file.ts')).toBe('file.ts');
-      expect(parseFileName('/another/deeply/nested/path/script.js')).toBe('script.js');
-      expect(parseFileName('simple.ts')).toBe('simple.ts');
-    });
-
-    test('should handle edge cases', () => {
-      expect(parseFileName('')).toBe('unknown');
-      expect(parseFileName(undefined)).toBe('unknown');
-      expect(parseFileName(null as unknown as string)).toBe('unknown');
-      expect(parseFileName('/path/with/trailing/')).toBe('unknown');
-    });
-
-    test('should handle paths with no separators', () => {
-      expect(parseFileName('filename.ts')).toBe('filename.ts');
-      expect(parseFileName('no-extension')).toBe('no-extension');
-    });
-  });
-
   describe('getCallerInfo', () => {
     test('should return caller information', () => {
       const result = getCallerInfo();
@@ -103,42 +95,45 @@ describe('Logger', () => {
     });
 
     test('should handle missing stack', () => {
-      // Mock Error constructor to simulate missing stack
-      const originalError = global.Error;
-      global.Error = class MockError extends Error {
-        constructor() {
-          super();
-          this.stack = undefined;
-        }
-      };
+      // Simulate a runtime that captures no stack
+      const originalCapture = Error.captureStackTrace;
+      Error.captureStackTrace = () => undefined;
 
       const result = getCallerInfo();
       expect(result).toBeUndefined();
 
-      // Restore original Error
-      global.Error = originalError;
+      Error.captureStackTrace = originalCapture;
     });
 
     test('should handle stack parsing errors', () => {
-      // Mock Error to throw during stack processing
-      const originalError = global.Error;
-      global.Error = class MockError extends Error {
-        constructor() {
-          super();
-          // Create a stack that will cause parsing issues
-          Object.defineProperty(this, 'stack', {
-            get() {
-              throw new Error('Stack access error');
-            },
-          });
-        }
+      const originalCapture = Error.captureStackTrace;
+      Error.captureStackTrace = () => {
+        throw new Error('Stack access error');
       };
 
       const result = getCallerInfo();
       expect(result).toBeUndefined();
 
-      // Restore original Error
-      global.Error = originalError;
+      Error.captureStackTrace = originalCapture;
+    });
+
+    test('should fall back to parsing the stack string', () => {
+      // Simulate a runtime without structured call sites
+      const originalCapture = Error.captureStackTrace;
+      Error.captureStackTrace = (target: object) => {
+        Object.assign(target, {
+          stack: [
+            'Error',
+            '    at getCallerInfo (/app/src/logger.ts:30:19)',
+            '    at /app/src/routes.ts:12:5',
+          ].join('\n'),
+        });
+      };
+
+      const result = getCallerInfo();
+      expect(result).toBe('routes.ts:12');
+
+      Error.captureStackTrace = originalCapture;
     });
   });
 
@@ -247,6 +242,39 @@ describe('Logger', () => {
       expect(result.trace_id).toBe('00000000000000000000000000000000');
       expect(result.span_id).toBe('0000000000000000');
     });
+
+    test('should include values from the async context', () => {
+      otelApi.trace.getActiveSpan = () => undefined;
+      const traceContext = otelApi.trace.setSpanContext(otelApi.ROOT_CONTEXT, {
+        traceId: 'a'.repeat(32),
+        spanId: 'b'.repeat(16),
+        traceFlags: 1,
+      });
+
+      const result = runWithContext(
+        { requestId: 'req-1', tenantId: 'acme', userId: 'user-7', traceContext },
+        () => createLogMixin(false)
+      );
+
+      expect(result).toEqual({
+        request_id: 'req-1',
+        tenant_id: 'acme',
+        user_id: 'user-7',
+        trace_id: 'a'.repeat(32),
+        span_id: 'b'.repeat(16),
+      });
+    });
+
+    test('should not repeat what a request logger already carries', () => {
+      otelApi.trace.getActiveSpan = () => undefined;
+      const requestLog = createChildLogger({ request_id: 'req-1' });
+
+      const result = runWithContext({ requestId: 'req-1', userId: 'user-7' }, () =>
+        createLogMixin(false, requestLog)
+      );
+
+      expect(result).toEqual({ user_id: 'user-7' });
+    });
   });
 
   describe('createChildLogger', () => {
@@ -388,44 +416,87 @@ describe('Logger', () => {
   });
 
   describe('createLoggerConfig', () => {
+    const configFrom = (env: Record<string, string>) => loadConfig({ env, envFiles: false });
+
     test('should create config with default environment', () => {
-      const config = createLoggerConfig({});
+      const config = createLoggerConfig(configFrom({}));
       expect(config.level).toBe('info');
       expect(config.timestamp).toBeDefined();
       expect(config.formatters).toBeDefined();
     });
 
     test('should handle production environment', () => {
-      const config = createLoggerConfig({ NODE_ENV: 'production' });
+      const config = createLoggerConfig(configFrom({ NODE_ENV: 'production' }));
       expect(config.level).toBe('info');
       expect(config.transport).toBeUndefined();
     });
 
     test('should handle development environment', () => {
-      const config = createLoggerConfig({ NODE_ENV: 'development' });
+      const config = createLoggerConfig(configFrom({ NODE_ENV: 'development' }));
       expect(config.transport).toBeDefined();
       expect(config.transport?.target).toBe('pino-pretty');
     });
 
     test('should use custom log level', () => {
-      const config = createLoggerConfig({ LOG_LEVEL: 'debug' });
+      const config = createLoggerConfig(configFrom({ LOG_LEVEL: 'debug' }));
       expect(config.level).toBe('debug');
     });
 
     test('should handle location settings', () => {
-      const configWithLocation = createLoggerConfig({ LOG_INCLUDE_LOCATION: 'true' });
-      const configWithoutLocation = createLoggerConfig({ LOG_INCLUDE_LOCATION: 'false' });
+      const configWithLocation = createLoggerConfig(configFrom({ LOG_INCLUDE_LOCATION: 'true' }));
+      const configWithoutLocation = createLoggerConfig(
+        configFrom({ LOG_INCLUDE_LOCATION: 'false' })
+      );
 
       expect(configWithLocation.mixin).toBeDefined();
       expect(configWithoutLocation.mixin).toBeDefined();
     });
 
-    test('should handle service metadata', () => {
-      const config = createLoggerConfig({
-        OTEL_SERVICE_NAME: 'test-service',
-        OTEL_SERVICE_VERSION: '2.0.0',
+    test('should attach the location of the log call', () => {
+      const lines: string[] = [];
+      const log = pino(createLoggerConfig(configFrom({ NODE_ENV: 'production' })), {
+        write: (line: string) => lines.push(line),
+      });
+
+      log.info('located');
+      const { caller } = JSON.parse(lines[0] ?? '{}') as { caller?: string };
+      expect(caller).toMatch(/^logger\.test\.ts:\d+$/);
+    });
+
+    test('should attach the location of log calls made from native callbacks', () => {
+      const lines: string[] = [];
+      const log = pino(createLoggerConfig(configFrom({ NODE_ENV: 'production' })), {
+        write: (line: string) => lines.push(line),
       });
 
+      // The concise arrow tail calls pino, so Array.prototype.forEach is the frame below it
+      [1].forEach(() => log.info('from a callback'));
+      const { caller } = JSON.parse(lines[0] ?? '{}') as { caller?: string };
+      expect(caller).toMatch(/^logger\.test\.ts:\d+$/);
+    });
+
+    test('should only attach locations from LOG_LOCATION_LEVEL up', () => {
+      const lines: string[] = [];
+      const log = pino(
+        createLoggerConfig(configFrom({ NODE_ENV: 'production', LOG_LOCATION_LEVEL: 'warn' })),
+        { write: (line: string) => lines.push(line) }
+      );
+
+      log.info('hot path');
+      log.warn('worth locating');
+      const [info, warn] = lines.map((line) => JSON.parse(line) as { caller?: string });
+      expect(info?.caller).toBeUndefined();
+      expect(warn?.caller).toMatch(/^logger\.test\.ts:\d+$/);
+    });
+
+    test('should handle service metadata', () => {
+      const config = createLoggerConfig(
+        configFrom({
+          OTEL_SERVICE_NAME: 'test-service',
+          OTEL_SERVICE_VERSION: '2.0.0',
+        })
+      );
+
       const bindings = config.formatters?.bindings?.({
         pid: 123,
         hostname: 'test',
@@ -435,10 +506,12 @@ describe('Logger', () => {
     });
 
     test('should fallback to package metadata', () => {
-      const config = createLoggerConfig({
-        npm_package_name: 'fallback-service',
-        npm_package_version: '1.5.0',
-      });
+      const config = createLoggerConfig(
+        configFrom({
+          npm_package_name: 'fallback-service',
+          npm_package_version: '1.5.0',
+        })
+      );
 
       const bindings = config.formatters?.bindings?.({
         pid: 123,
@@ -449,7 +522,7 @@ describe('Logger', () => {
     });
 
     test('should use default service metadata', () => {
-      const config = createLoggerConfig({});
+      const config = createLoggerConfig(configFrom({}));
       const bindings = config.formatters?.bindings?.({
         pid: 123,
         hostname: 'test',
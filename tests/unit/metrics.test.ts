@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the metrics module
+ * Covers RED instruments, process gauges and Prometheus serialization
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { AppMetrics } from '../../src/metrics.js';
+import { loadConfig } from '../../src/config.js';
+
+const request = (method = 'GET') => new Request('http://localhost/items/1', { method });
+
+describe('AppMetrics', () => {
+  let appMetrics: AppMetrics;
+
+  beforeEach(() => {
+    appMetrics = new AppMetrics(loadConfig({ env: {}, envFiles: false }));
+  });
+
+  afterEach(async () => {
+    await appMetrics.shutdown();
+  });
+
+  test('should count requests by method, route template and status', async () => {
+    appMetrics.recordRequest({
+      request: request(),
+      route: '/items/:id',
+      status: 200,
+      durationMs: 3,
+    });
+    appMetrics.recordRequest({
+      request: request(),
+      route: '/items/:id',
+      status: 200,
+      durationMs: 4,
+    });
+    appMetrics.recordRequest({
+      request: request('POST'),
+      route: undefined,
+      status: 404,
+      durationMs: 1,
+    });
+
+    const text = await appMetrics.renderPrometheus();
+
+    expect(text).toContain(
+      'http_server_requests_total{http_request_method="GET",http_route="/items/:id",http_response_status_code="200"} 2'
+    );
+    expect(text).toContain(
+      'http_server_requests_total{http_request_method="POST",http_route="unmatched",http_response_status_code="404"} 1'
+    );
+  });
+
+  test('should only count 5xx responses as errors', async () => {
+    appMetrics.recordRequest({ request: request(), route: '/a', status: 404, durationMs: 1 });
+    appMetrics.recordRequest({ request: request(), route: '/a', status: 503, durationMs: 1 });
+
+    const text = await appMetrics.renderPrometheus();
+
+    expect(text).toContain('# TYPE http_server_errors_total counter');
+    expect(text).toContain('http_response_status_code="503"} 1');
+    expect(text).not.toMatch(/http_server_errors_total\{[^}]*"404"/);
+  });
+
+  test('should record durations in seconds into fixed buckets', async () => {
+    appMetrics.recordRequest({ request: request(), route: '/a', status: 200, durationMs: 30 });
+
+    const text = await appMetrics.renderPrometheus();
+
+    expect(text).toContain('# TYPE http_server_request_duration histogram');
+    expect(text).toMatch(/http_server_request_duration_sum\{[^}]*\} 0\.03\b/);
+    expect(text).toMatch(/http_server_request_duration_bucket\{[^}]*le="0\.025"\} 0/);
+    expect(text).toMatch(/http_server_request_duration_bucket\{[^}]*le="0\.05"\} 1/);
+  });
+
+  test('should expose process gauges and service metadata', async () => {
+    const text = await appMetrics.renderPrometheus();
+
+    for (const name of [
+      'process_event_loop_lag',
+      'process_memory_heap_used',
+      'process_memory_rss',
+      'process_uptime',
+    ]) {
+      expect(text).toContain(`# TYPE ${name} gauge`);
+    }
+    expect(text).toMatch(/target_info\{[^}]*service_name="ts-backend-template"/);
+  });
+});
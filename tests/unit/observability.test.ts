@@ -5,6 +5,14 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { loadConfig } from '../../src/config.js';
+import { createSampler, recordSpanError, setSpanHttpResponse } from '../../src/observability.js';
 
 describe('Observability Unit Tests', () => {
   let originalEnv: Record<string, string | undefined>;
@@ -62,7 +70,7 @@ describe('Observability Unit Tests', () => {
       process.env.OTEL_TRACING_ENABLED = 'false';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).toBeNull();
       expect(consoleLogSpy).toHaveBeenCalledWith(
@@ -77,7 +85,7 @@ describe('Observability Unit Tests', () => {
       process.env.NODE_ENV = 'production';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
       expect(consoleWarnSpy).toHaveBeenCalledWith(
@@ -91,7 +99,7 @@ describe('Observability Unit Tests', () => {
       process.env.OTEL_CONSOLE_EXPORTER = 'false';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -108,7 +116,7 @@ describe('Observability Unit Tests', () => {
 
       try {
         const { initializeOTel } = await import('../../src/observability.js');
-        const sdk = initializeOTel();
+        const sdk = initializeOTel(loadConfig());
 
         expect(sdk).toBeNull();
         expect(consoleErrorSpy).toHaveBeenCalledWith(
@@ -129,7 +137,7 @@ describe('Observability Unit Tests', () => {
       delete process.env.npm_package_version;
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -140,7 +148,7 @@ describe('Observability Unit Tests', () => {
       delete process.env.OTEL_CONSOLE_EXPORTER;
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -151,7 +159,7 @@ describe('Observability Unit Tests', () => {
       process.env.NODE_ENV = 'production';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -321,7 +329,7 @@ describe('Observability Unit Tests', () => {
       process.env.OTEL_TRACING_ENABLED = 'true';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -331,7 +339,7 @@ describe('Observability Unit Tests', () => {
       process.env.OTEL_TRACING_ENABLED = 'true';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -342,7 +350,7 @@ describe('Observability Unit Tests', () => {
       process.env.OTEL_TRACING_ENABLED = 'true';
 
       const { initializeOTel } = await import('../../src/observability.js');
-      const sdk = initializeOTel();
+      const sdk = initializeOTel(loadConfig());
 
       expect(sdk).not.toBeNull();
     });
@@ -354,9 +362,10 @@ describe('Observability Unit Tests', () => {
         process.env.OTEL_TRACING_ENABLED = value;
 
         const { initializeOTel } = await import('../../src/observability.js');
-        const sdk = initializeOTel();
+        const sdk = initializeOTel(loadConfig());
 
-        if (value === 'false') {
+        // Booleans are parsed by the config schema, so every falsy spelling disables tracing
+        if (['false', 'FALSE', '0', 'no'].includes(value)) {
           expect(sdk).toBeNull();
         } else {
           expect(sdk).not.toBeNull();
@@ -368,3 +377,67 @@ describe('Observability Unit Tests', () => {
     });
   });
 });
+
+describe('Span error recording', () => {
+  const exporter = new InMemorySpanExporter();
+  const tracer = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  }).getTracer('test');
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  it('should record the exception and mark 5xx spans as failed', () => {
+    const span = tracer.startSpan('GET /orders');
+    recordSpanError(span, new TypeError('boom'), { status: 500, errorType: 'TypeError' });
+    setSpanHttpResponse(span, { route: '/orders', status: 500 });
+    span.end();
+
+    const [finished] = exporter.getFinishedSpans();
+    expect(finished?.status).toEqual({ code: SpanStatusCode.ERROR, message: 'boom' });
+    expect(finished?.attributes).toMatchObject({
+      'error.type': 'TypeError',
+      'http.route': '/orders',
+      'http.response.status_code': 500,
+    });
+    expect(finished?.events[0]?.name).toBe('exception');
+    expect(finished?.events[0]?.attributes?.['exception.message']).toBe('boom');
+  });
+
+  it('should leave the status unset for client errors', () => {
+    const span = tracer.startSpan('GET /orders');
+    recordSpanError(span, new Error('nope'), { status: 404, errorType: 'NOT_FOUND' });
+    span.end();
+
+    const [finished] = exporter.getFinishedSpans();
+    expect(finished?.status.code).toBe(SpanStatusCode.UNSET);
+    expect(finished?.attributes['error.type']).toBe('NOT_FOUND');
+    expect(finished?.events).toHaveLength(1);
+  });
+
+  it('should ignore a missing span', () => {
+    expect(() =>
+      recordSpanError(undefined, new Error('x'), { status: 500, errorType: 'Error' })
+    ).not.toThrow();
+    expect(() => setSpanHttpResponse(undefined, { route: '/', status: 200 })).not.toThrow();
+  });
+});
+
+describe('createSampler', () => {
+  it('should build the sampler named by OTEL_TRACES_SAMPLER', () => {
+    expect(createSampler({ sampler: 'always_off', samplerRatio: 1 }).toString()).toBe(
+      'AlwaysOffSampler'
+    );
+    expect(createSampler({ sampler: 'traceidratio', samplerRatio: 0.25 }).toString()).toBe(
+      'TraceIdRatioBased{0.25}'
+    );
+  });
+
+  it('should follow the parent decision for parent-based ratio sampling', () => {
+    const sampler = createSampler({ sampler: 'parentbased_traceidratio', samplerRatio: 0.1 });
+
+    expect(sampler.toString()).toContain('root=TraceIdRatioBased{0.1}');
+    expect(sampler.toString()).toContain('remoteParentSampled=AlwaysOnSampler');
+  });
+});
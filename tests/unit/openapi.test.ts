@@ -0,0 +1,135 @@
+/**
+ * Unit tests for OpenAPI document generation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Elysia, t } from 'elysia';
+import { createOpenApiDocument, docsPage, openApi, toOpenApiPath } from '../../src/openapi.js';
+import { createApp } from '../../src/app.js';
+import { loadConfig } from '../../src/config.js';
+
+const info = { title: 'test-service', version: '1.2.3' };
+
+const routes = new Elysia()
+  .get('/items/:id', ({ params }) => ({ id: params.id }), {
+    params: t.Object({ id: t.String() }),
+    query: t.Object({ expand: t.Optional(t.Boolean()) }),
+    response: t.Object({ id: t.String() }),
+    detail: { summary: 'Get an item', tags: ['Items'] },
+  })
+  .post('/items', ({ body }) => body, {
+    body: t.Object({ name: t.String() }),
+    response: { 201: t.Object({ name: t.String() }, { description: 'Item created' }) },
+  })
+  .get('/version', () => '1.2.3', { response: t.String() })
+  .get('/internal', () => 'hidden', { detail: { hide: true } }).routes;
+
+describe('toOpenApiPath', () => {
+  test('should turn path parameters into templates', () => {
+    expect(toOpenApiPath('/items/:id')).toBe('/items/{id}');
+    expect(toOpenApiPath('/a/:b/c/:d')).toBe('/a/{b}/c/{d}');
+    expect(toOpenApiPath('/plain')).toBe('/plain');
+  });
+});
+
+describe('createOpenApiDocument', () => {
+  const document = createOpenApiDocument(routes, { info });
+
+  test('should describe an OpenAPI 3.1 document with sorted paths', () => {
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual(info);
+    expect(Object.keys(document.paths ?? {})).toEqual(['/items', '/items/{id}', '/version']);
+  });
+
+  test('should document parameters, detail and responses', () => {
+    const operation = document.paths?.['/items/{id}']?.get;
+
+    expect(operation).toMatchObject({ summary: 'Get an item', tags: ['Items'] });
+    expect(operation?.parameters).toEqual([
+      {
+        name: 'id',
+        in: 'path',
+        required: true,
+        schema: expect.objectContaining({ type: 'string' }),
+      },
+      {
+        name: 'expand',
+        in: 'query',
+        required: false,
+        schema: expect.objectContaining({ type: 'boolean' }),
+      },
+    ]);
+    expect(operation?.responses?.['200']).toMatchObject({
+      description: 'OK',
+      content: { 'application/json': { schema: { type: 'object' } } },
+    });
+    expect(operation?.responses?.default).toEqual({ $ref: '#/components/responses/Problem' });
+  });
+
+  test('should document request bodies and per-status responses', () => {
+    const operation = document.paths?.['/items']?.post;
+
+    expect(operation?.requestBody).toMatchObject({
+      required: true,
+      content: { 'application/json': { schema: { type: 'object' } } },
+    });
+    expect(operation?.responses?.['201']).toMatchObject({ description: 'Item created' });
+  });
+
+  test('should document string responses as plain text', () => {
+    expect(document.paths?.['/version']?.get?.responses?.['200']).toMatchObject({
+      content: { 'text/plain': { schema: { type: 'string' } } },
+    });
+  });
+
+  test('should leave hidden routes out', () => {
+    expect(document.paths?.['/internal']).toBeUndefined();
+  });
+
+  test('should include security schemes when given', () => {
+    const secured = createOpenApiDocument(routes, {
+      info,
+      securitySchemes: { token: { type: 'http', scheme: 'bearer' } },
+    });
+
+    expect(document.components?.securitySchemes).toBeUndefined();
+    expect(secured.components?.securitySchemes).toEqual({
+      token: { type: 'http', scheme: 'bearer' },
+    });
+  });
+});
+
+describe('openApi plugin', () => {
+  test('should serve the document and the API reference', async () => {
+    const app = new Elysia().use(openApi({ info, routes: () => routes }));
+
+    const spec = await app.handle(new Request('http://localhost/openapi.json'));
+    const docs = await app.handle(new Request('http://localhost/docs'));
+
+    expect((await spec.json()).paths).toHaveProperty('/items/{id}');
+    expect(docs.headers.get('content-type')).toContain('text/html');
+    expect(await docs.text()).toBe(docsPage('test-service', '/openapi.json'));
+  });
+
+  test('should load a pinned API reference checked against its hash', () => {
+    const page = docsPage('test-service', '/openapi.json');
+
+    expect(page).toMatch(
+      /src="https:\/\/cdn\.jsdelivr\.net\/npm\/@scalar\/api-reference@\d+\.\d+\.\d+\//
+    );
+    expect(page).toMatch(/integrity="sha384-[A-Za-z0-9+/]{64}"/);
+    expect(page).toContain('crossorigin="anonymous"');
+  });
+
+  test('should not be mounted when OPENAPI_ENABLED is false', async () => {
+    const app = createApp(
+      loadConfig({ env: { NODE_ENV: 'test', OPENAPI_ENABLED: 'false' }, envFiles: false })
+    );
+
+    expect((await app.handle(new Request('http://localhost/openapi.json'))).status).toBe(404);
+    expect((await app.handle(new Request('http://localhost/docs'))).status).toBe(404);
+    expect(
+      await app.handle(new Request('http://localhost/')).then((res) => res.json())
+    ).not.toContainAnyKeys(['documentation', 'openapi']);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for rate limiting algorithms, stores and client keys
+ */
+
+import { describe, test, expect } from 'bun:test';
+import type { Principal } from '../../src/auth.js';
+import {
+  clientKey,
+  consumeBudget,
+  MemoryRateLimitStore,
+  rateLimitHeaders,
+  type RateLimitDecision,
+  type RateLimitRule,
+  type RateLimitState,
+} from '../../src/rate-limit.js';
+
+const WINDOW = 60_000;
+
+// Consume `count` requests at `now`, threading the state through
+const consumeMany = (rule: RateLimitRule, count: number, now: number, start?: RateLimitState) => {
+  let state = start;
+  const decisions: RateLimitDecision[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = consumeBudget(rule, state, now);
+    state = result.state;
+    decisions.push(result.decision);
+  }
+  return { state, decisions };
+};
+
+describe('token bucket', () => {
+  const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 3, windowMs: WINDOW };
+
+  test('should allow a burst of the limit and then throttle', () => {
+    const { decisions } = consumeMany(rule, 4, 0);
+
+    expect(decisions.map(({ allowed }) => allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map(({ remaining }) => remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[3]).toMatchObject({ retryAfterMs: 20_000, resetMs: 60_000 });
+  });
+
+  test('should refill tokens evenly over the window', () => {
+    const { state } = consumeMany(rule, 3, 0);
+
+    expect(consumeBudget(rule, state, 19_999).decision.allowed).toBe(false);
+    expect(consumeBudget(rule, state, 20_000).decision).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect(consumeBudget(rule, state, 10 * WINDOW).decision.remaining).toBe(2);
+  });
+});
+
+describe('sliding window', () => {
+  const rule: RateLimitRule = { algorithm: 'sliding-window', limit: 4, windowMs: WINDOW };
+
+  test('should cap the requests within a window', () => {
+    const { decisions } = consumeMany(rule, 5, 1_000);
+
+    expect(decisions.map(({ allowed }) => allowed)).toEqual([true, true, true, true, false]);
+    expect(decisions[4]).toMatchObject({ remaining: 0, retryAfterMs: 59_000 + 15_000 });
+  });
+
+  test('should weight the previous window by its overlap', () => {
+    const { state } = consumeMany(rule, 4, 0);
+
+    // A quarter into the next window, 3 of the previous 4 requests still count
+    const next = consumeMany(rule, 2, WINDOW + 15_000, state);
+    expect(next.decisions.map(({ allowed }) => allowed)).toEqual([true, false]);
+    expect(next.decisions[1]?.retryAfterMs).toBe(15_000);
+    expect(consumeBudget(rule, state, 3 * WINDOW).decision.remaining).toBe(3);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  const rule: RateLimitRule = { algorithm: 'token-bucket', limit: 1, windowMs: WINDOW };
+
+  test('should keep a budget per key', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.consume('a', rule, 0)).allowed).toBe(true);
+    expect((await store.consume('a', rule, 0)).allowed).toBe(false);
+    expect((await store.consume('b', rule, 0)).allowed).toBe(true);
+  });
+
+  test('should peek at a budget without taking from it', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.peek('a', rule, 0)).allowed).toBe(true);
+    expect((await store.consume('a', rule, 0)).allowed).toBe(true);
+    expect((await store.peek('a', rule, 0)).allowed).toBe(false);
+    expect(store.size).toBe(1);
+  });
+
+  test('should drop budgets once they are full again', async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 999; i++) await store.consume(`client-${i}`, rule, 0);
+    expect(store.size).toBe(999);
+
+    await store.consume('late', rule, WINDOW);
+    expect(store.size).toBe(1);
+  });
+});
+
+describe('clientKey', () => {
+  const principal = (type: Principal['type']): Principal => ({
+    type,
+    subject: 'abc',
+    scopes: [],
+    roles: [],
+    claims: {},
+  });
+  const request = new Request('http://localhost/');
+
+  test('should prefer the requested identity and fall back to the IP', () => {
+    const apiKey = { request, principal: principal('api-key'), ip: '10.0.0.1' };
+    const user = { request, principal: principal('jwt'), ip: '10.0.0.1' };
+
+    expect(clientKey('client', apiKey)).toBe('api-key:abc');
+    expect(clientKey('client', user)).toBe('user:abc');
+    expect(clientKey('api-key', user)).toBe('ip:10.0.0.1');
+    expect(clientKey('user', user)).toBe('user:abc');
+    expect(clientKey('ip', apiKey)).toBe('ip:10.0.0.1');
+    expect(clientKey('client', { request, principal: undefined, ip: undefined })).toBe(
+      'ip:unknown'
+    );
+  });
+
+  test('should use custom keys', () => {
+    const tenant = ({ request }: { request: Request }) =>
+      request.headers.get('x-tenant') ?? undefined;
+
+    expect(
+      clientKey(tenant, {
+        request: new Request('http://localhost/', { headers: { 'x-tenant': 'acme' } }),
+        principal: undefined,
+        ip: '10.0.0.1',
+      })
+    ).toBe('acme');
+    expect(clientKey(tenant, { request, principal: undefined, ip: '10.0.0.1' })).toBe(
+      'ip:10.0.0.1'
+    );
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  test('should describe the budget in seconds', () => {
+    expect(
+      rateLimitHeaders(
+        { algorithm: 'token-bucket', limit: 10, windowMs: WINDOW },
+        { allowed: true, limit: 10, remaining: 7, resetMs: 18_001, retryAfterMs: 0 }
+      )
+    ).toEqual({
+      'ratelimit-limit': '10',
+      'ratelimit-remaining': '7',
+      'ratelimit-reset': '19',
+      'ratelimit-policy': '10;w=60',
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the readiness dependency registry
+ * Covers criticality, timeouts, last error tracking and result caching
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { ReadinessRegistry } from '../../src/readiness.js';
+
+const options = { checkTimeoutMs: 50, cacheTtlMs: 0 };
+
+describe('ReadinessRegistry', () => {
+  test('should be ready with no registered checks', async () => {
+    const report = await new ReadinessRegistry(options).check();
+
+    expect(report.status).toBe('ready');
+    expect(report.dependencies).toEqual({});
+  });
+
+  test('should report each dependency with latency', async () => {
+    const registry = new ReadinessRegistry(options);
+    registry.register('database', () => Promise.resolve());
+    registry.register('cache', async () => {
+      throw new Error('connection refused');
+    });
+
+    const report = await registry.check();
+
+    expect(report.status).toBe('not_ready');
+    expect(report.dependencies.database).toMatchObject({ status: 'up', critical: true });
+    expect(report.dependencies.database?.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(report.dependencies.cache).toMatchObject({
+      status: 'down',
+      error: 'connection refused',
+      last_error: { message: 'connection refused' },
+    });
+  });
+
+  test('should stay ready when only non-critical checks fail', async () => {
+    const registry = new ReadinessRegistry(options);
+    registry.register('search', () => Promise.reject(new Error('degraded')), { critical: false });
+
+    const report = await registry.check();
+
+    expect(report.status).toBe('ready');
+    expect(report.dependencies.search).toMatchObject({ status: 'down', critical: false });
+  });
+
+  test('should fail checks that exceed their timeout and abort them', async () => {
+    const registry = new ReadinessRegistry(options);
+    let aborted = false;
+    registry.register(
+      'slow',
+      (signal) =>
+        new Promise((resolve) => {
+          signal.addEventListener('abort', () => {
+            aborted = true;
+          });
+          setTimeout(resolve, 1000);
+        }),
+      { timeoutMs: 10 }
+    );
+
+    const report = await registry.check();
+
+    expect(report.dependencies.slow).toMatchObject({
+      status: 'down',
+      error: 'Check timed out after 10ms',
+    });
+    expect(aborted).toBe(true);
+  });
+
+  test('should run checks concurrently', async () => {
+    const registry = new ReadinessRegistry(options);
+    const delay = () => new Promise((resolve) => setTimeout(resolve, 30));
+    registry.register('a', delay);
+    registry.register('b', delay);
+    registry.register('c', delay);
+
+    const startedAt = performance.now();
+    await registry.check();
+
+    expect(performance.now() - startedAt).toBeLessThan(80);
+  });
+
+  test('should keep the last error after a dependency recovers', async () => {
+    const registry = new ReadinessRegistry(options);
+    let healthy = false;
+    registry.register('queue', async () => {
+      if (!healthy) throw new Error('broker unavailable');
+    });
+
+    await registry.check();
+    healthy = true;
+    const report = await registry.check();
+
+    expect(report.dependencies.queue?.status).toBe('up');
+    expect(report.dependencies.queue?.error).toBeUndefined();
+    expect(report.dependencies.queue?.last_error?.message).toBe('broker unavailable');
+  });
+
+  test('should cache results for the configured interval', async () => {
+    let now = 1_000;
+    let calls = 0;
+    const registry = new ReadinessRegistry({ checkTimeoutMs: 50, cacheTtlMs: 5_000 }, () => now);
+    registry.register('database', async () => {
+      calls++;
+    });
+
+    await Promise.all([registry.check(), registry.check()]);
+    now += 4_999;
+    await registry.check();
+    expect(calls).toBe(1);
+
+    now += 1;
+    await registry.check();
+    expect(calls).toBe(2);
+  });
+
+  test('should reject duplicate names', () => {
+    const registry = new ReadinessRegistry(options);
+    registry.register('database', () => Promise.resolve());
+
+    expect(() => registry.register('database', () => Promise.resolve())).toThrow(
+      'already registered'
+    );
+    expect(registry.unregister('database')).toBe(true);
+    expect(registry.names).toEqual([]);
+  });
+});
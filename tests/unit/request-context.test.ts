@@ -0,0 +1,57 @@
+/**
+ * Unit tests for request ID resolution
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  parseTraceparent,
+  resolveRequestId,
+  getRequestContext,
+} from '../../src/request-context.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+describe('Request Context', () => {
+  describe('parseTraceparent', () => {
+    test('should extract the trace ID from a valid header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toBe(TRACE_ID);
+      expect(parseTraceparent(TRACEPARENT.toUpperCase())).toBe(TRACE_ID);
+    });
+
+    test('should reject malformed and all-zero trace IDs', () => {
+      expect(parseTraceparent(null)).toBeUndefined();
+      expect(parseTraceparent('garbage')).toBeUndefined();
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+    });
+  });
+
+  describe('resolveRequestId', () => {
+    test('should prefer an inbound x-request-id', () => {
+      const headers = new Headers({ 'x-request-id': 'abc-123', traceparent: TRACEPARENT });
+      expect(resolveRequestId(headers)).toBe('abc-123');
+    });
+
+    test('should fall back to the traceparent trace ID', () => {
+      expect(resolveRequestId(new Headers({ traceparent: TRACEPARENT }))).toBe(TRACE_ID);
+    });
+
+    test('should ignore unsafe inbound IDs and generate a UUID', () => {
+      const headers = new Headers({ 'x-request-id': 'bad id\twith "quotes"' });
+      expect(resolveRequestId(headers)).toMatch(/^[0-9a-f-]{36}$/);
+      expect(resolveRequestId(new Headers({ 'x-request-id': 'x'.repeat(200) }))).not.toBe(
+        'x'.repeat(200)
+      );
+    });
+  });
+
+  describe('getRequestContext', () => {
+    test('should return the same context for the same request', () => {
+      const request = new Request('http://localhost/');
+      const first = getRequestContext(request);
+
+      expect(getRequestContext(request)).toBe(first);
+      expect(getRequestContext(new Request('http://localhost/'))).not.toBe(first);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the shutdown manager
+ * Covers hook ordering, per-hook timeouts, the overall deadline and signal handling
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { ShutdownManager, handleShutdownSignals } from '../../src/shutdown.js';
+import { Lifecycle } from '../../src/lifecycle.js';
+
+const options = { timeoutMs: 1000, drainTimeoutMs: 100, hookTimeoutMs: 100 };
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ShutdownManager', () => {
+  test('should stop the listener and run hooks in reverse registration order', async () => {
+    const lifecycle = new Lifecycle();
+    lifecycle.markReady();
+    const manager = new ShutdownManager(options, lifecycle);
+    const calls: string[] = [];
+    manager.attachServer({
+      stop: (closeActiveConnections) => calls.push(`stop:${closeActiveConnections}`),
+    });
+    manager.register('telemetry', () => calls.push('telemetry'));
+    manager.register('database', async () => {
+      expect(lifecycle.state).toBe('draining');
+      calls.push('database');
+    });
+
+    const code = await manager.shutdown('SIGTERM');
+
+    expect(code).toBe(0);
+    expect(calls).toEqual(['stop:false', 'database', 'telemetry']);
+    expect(lifecycle.state).toBe('stopped');
+  });
+
+  test('should keep running hooks after one fails or times out, then exit non-zero', async () => {
+    const manager = new ShutdownManager(options, new Lifecycle());
+    const calls: string[] = [];
+    manager.register('last', () => calls.push('last'));
+    manager.register('hangs', () => sleep(1000), { timeoutMs: 10 });
+    manager.register('throws', () => {
+      throw new Error('queue closed');
+    });
+
+    const code = await manager.shutdown('SIGTERM');
+
+    expect(code).toBe(1);
+    expect(calls).toEqual(['last']);
+  });
+
+  test('should exit non-zero when the overall deadline is exceeded', async () => {
+    const manager = new ShutdownManager(
+      { timeoutMs: 20, drainTimeoutMs: 100, hookTimeoutMs: 1000 },
+      new Lifecycle()
+    );
+    manager.register('slow', () => sleep(200));
+
+    const startedAt = performance.now();
+    const code = await manager.shutdown('SIGTERM');
+
+    expect(code).toBe(1);
+    expect(performance.now() - startedAt).toBeLessThan(150);
+  });
+
+  test('should run the sequence only once', async () => {
+    const manager = new ShutdownManager(options, new Lifecycle());
+    let calls = 0;
+    manager.register('hook', () => calls++);
+
+    await Promise.all([manager.shutdown('SIGTERM'), manager.shutdown('SIGINT')]);
+
+    expect(calls).toBe(1);
+    expect(manager.isShuttingDown).toBe(true);
+  });
+});
+
+describe('handleShutdownSignals', () => {
+  let uninstall: (() => void) | undefined;
+
+  afterEach(() => {
+    uninstall?.();
+    uninstall = undefined;
+  });
+
+  test('should shut down on the first signal and force exit on a repeat', async () => {
+    const manager = new ShutdownManager(options, new Lifecycle());
+    manager.register('slow', () => sleep(30));
+    const exits: number[] = [];
+    uninstall = handleShutdownSignals(manager, (code) => exits.push(code), ['SIGUSR1']);
+
+    process.emit('SIGUSR1', 'SIGUSR1');
+    process.emit('SIGUSR1', 'SIGUSR1');
+    expect(exits).toEqual([1]);
+
+    await manager.shutdown('SIGUSR1');
+    expect(exits).toEqual([1, 0]);
+  });
+});
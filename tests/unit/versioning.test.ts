@@ -0,0 +1,76 @@
+/**
+ * Unit tests for API versioning and deprecation headers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { apiVersion, deprecationHeaders, getRequestDeprecation } from '../../src/versioning.js';
+
+describe('deprecationHeaders', () => {
+  test('should format Deprecation, Sunset and Link headers', () => {
+    expect(
+      deprecationHeaders({
+        since: '2026-01-01T00:00:00Z',
+        sunset: '2026-07-01',
+        successor: 'https://api.example.com/v2/items',
+      })
+    ).toEqual({
+      deprecation: '@1767225600',
+      sunset: 'Wed, 01 Jul 2026 00:00:00 GMT',
+      link: '<https://api.example.com/v2/items>; rel="successor-version"',
+    });
+  });
+
+  test('should only include the headers that apply', () => {
+    expect(deprecationHeaders({ since: '2026-01-01T00:00:00Z' })).toEqual({
+      deprecation: '@1767225600',
+    });
+  });
+
+  test('should reject invalid and inconsistent dates', () => {
+    expect(() => deprecationHeaders({ since: 'soon' })).toThrow('Invalid deprecation since date');
+    expect(() => deprecationHeaders({ since: '2026-01-01', sunset: 'later' })).toThrow(
+      'Invalid deprecation sunset date'
+    );
+    expect(() => deprecationHeaders({ since: '2026-01-01', sunset: '2025-01-01' })).toThrow(
+      'is before'
+    );
+  });
+});
+
+describe('apiVersion', () => {
+  test('should mount routes under the version prefix', async () => {
+    const router = apiVersion(3).get('/ping', () => 'pong');
+
+    expect(router.routes.map((route) => route.path)).toEqual(['/v3/ping']);
+    expect(await (await router.handle(new Request('http://localhost/v3/ping'))).text()).toBe(
+      'pong'
+    );
+  });
+
+  test('should reject versions that are not positive integers', () => {
+    expect(() => apiVersion(0)).toThrow('positive integer');
+    expect(() => apiVersion(1.5)).toThrow('positive integer');
+  });
+
+  test('should remember the deprecation of the route that handled a request', async () => {
+    const router = apiVersion(1)
+      .get('/old', () => 'old', { deprecated: { since: '2026-01-01', successor: '/v1/new' } })
+      .get('/new', () => 'new');
+    const old = new Request('http://localhost/v1/old');
+    const current = new Request('http://localhost/v1/new');
+
+    await router.handle(old);
+    await router.handle(current);
+
+    expect(getRequestDeprecation(old)).toEqual({
+      since: '2026-01-01',
+      successor: '/v1/new',
+      version: 1,
+    });
+    expect(getRequestDeprecation(current)).toBeUndefined();
+  });
+
+  test('should fail at definition time on an invalid deprecation', () => {
+    expect(() => apiVersion(1, { deprecated: { since: 'whenever' } })).toThrow();
+  });
+});